@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Allergy } from "@shared/schema";
+import { TOP_ALLERGENS, ALLERGY_SEVERITIES, type AllergySeverity } from "@shared/allergens";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+
+interface AllergyEditorProps {
+  id: string; // Prefix for input ids, so several editors can share a page
+  allergies: Allergy[];
+  onChange: (allergies: Allergy[]) => void;
+}
+
+function SeveritySelect({ value, onChange }: { value: AllergySeverity; onChange: (severity: AllergySeverity) => void }) {
+  return (
+    <Select value={value} onValueChange={(severity) => onChange(severity as AllergySeverity)}>
+      <SelectTrigger className="h-8 w-36 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ALLERGY_SEVERITIES.map((severity) => (
+          <SelectItem key={severity.value} value={severity.value}>
+            {severity.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Top-9 allergens as checkboxes plus free-form custom allergens, each with a severity
+export default function AllergyEditor({ id, allergies, onChange }: AllergyEditorProps) {
+  const [customName, setCustomName] = useState("");
+
+  const findAllergy = (allergen: string, custom: boolean) =>
+    allergies.find(allergy => allergy.allergen === allergen && allergy.custom === custom);
+
+  const setSeverity = (target: Allergy, severity: AllergySeverity) => {
+    onChange(allergies.map(allergy => (allergy === target ? { ...allergy, severity } : allergy)));
+  };
+
+  const addCustomAllergy = () => {
+    const name = customName.trim().toLowerCase();
+    if (!name || findAllergy(name, true)) return;
+    onChange([...allergies, { allergen: name, custom: true, severity: "mild" }]);
+    setCustomName("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {TOP_ALLERGENS.map((allergen) => {
+        const allergy = findAllergy(allergen.value, false);
+        return (
+          <div key={allergen.value} className="flex items-center justify-between h-8">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id={`${id}-allergy-${allergen.value}`}
+                checked={!!allergy}
+                onChange={(e) => {
+                  onChange(e.target.checked
+                    ? [...allergies, { allergen: allergen.value, custom: false, severity: "mild" }]
+                    : allergies.filter(a => a !== allergy));
+                }}
+                className="rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <label htmlFor={`${id}-allergy-${allergen.value}`}>{allergen.label}</label>
+            </div>
+            {allergy && <SeveritySelect value={allergy.severity} onChange={(severity) => setSeverity(allergy, severity)} />}
+          </div>
+        );
+      })}
+
+      {allergies.filter(allergy => allergy.custom).map((allergy) => (
+        <div key={allergy.allergen} className="flex items-center justify-between h-8">
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              className="text-red-500 hover:bg-red-100 rounded-full p-1"
+              onClick={() => onChange(allergies.filter(a => a !== allergy))}
+              aria-label={`Remove ${allergy.allergen}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+            <span className="capitalize">{allergy.allergen}</span>
+          </div>
+          <SeveritySelect value={allergy.severity} onChange={(severity) => setSeverity(allergy, severity)} />
+        </div>
+      ))}
+
+      <div className="flex gap-2 pt-1">
+        <Input
+          placeholder="Other allergen, e.g. strawberry"
+          className="h-8 text-sm"
+          value={customName}
+          onChange={(e) => setCustomName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addCustomAllergy();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" className="h-8" onClick={addCustomAllergy}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
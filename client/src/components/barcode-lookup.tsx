@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  findProductByBarcode,
+  normalizeBarcode,
+  getProductDisplayName,
+  type ProductRecord,
+} from "@shared/product-database";
+import { getProducts } from "@/lib/storage";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Camera, Search, X } from "lucide-react";
+
+// The parts of the Shape Detection API's BarcodeDetector used here; not yet in the DOM typings
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const RETAIL_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"];
+const SCAN_INTERVAL_MS = 300;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+interface BarcodeLookupProps {
+  onProductFound: (product: ProductRecord) => void;
+}
+
+// Typed or camera-scanned UPC/EAN lookup against the imported product database
+export default function BarcodeLookup({ onProductFound }: BarcodeLookupProps) {
+  const [code, setCode] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const cameraSupported = typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia && !!getBarcodeDetector();
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  };
+
+  // Release the camera when the lookup is closed
+  useEffect(() => stopCamera, []);
+
+  const lookUp = async (value: string) => {
+    if (!normalizeBarcode(value)) {
+      setMessage({ text: "That isn't a valid UPC or EAN barcode.", isError: true });
+      return;
+    }
+    const product = findProductByBarcode(await getProducts(), value);
+    if (!product) {
+      setMessage({
+        text: `No product with barcode ${value} in your product database. Import products in Settings, or enter the food by hand.`,
+        isError: true,
+      });
+      return;
+    }
+    setMessage({ text: `Found ${getProductDisplayName(product)}`, isError: false });
+    onProductFound(product);
+  };
+
+  const startCamera = async () => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) return;
+    setMessage(null);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      setIsScanning(true);
+
+      // The video element renders once scanning starts
+      await new Promise(resolve => requestAnimationFrame(resolve));
+      const video = videoRef.current;
+      if (!video) return stopCamera();
+      video.srcObject = stream;
+      await video.play();
+
+      const detector = new BarcodeDetector({ formats: RETAIL_FORMATS });
+      const scan = async () => {
+        if (streamRef.current !== stream) return;
+        try {
+          const [barcode] = await detector.detect(video);
+          if (barcode) {
+            stopCamera();
+            setCode(barcode.rawValue);
+            await lookUp(barcode.rawValue);
+            return;
+          }
+        } catch (error) {
+          console.error("Error detecting barcode:", error);
+        }
+        setTimeout(scan, SCAN_INTERVAL_MS);
+      };
+      scan();
+    } catch (error) {
+      console.error("Error starting camera:", error);
+      stopCamera();
+      setMessage({ text: "Couldn't open the camera. Type the barcode number instead.", isError: true });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="UPC or EAN barcode number"
+          inputMode="numeric"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              lookUp(code);
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={() => lookUp(code)} aria-label="Look up barcode">
+          <Search className="h-4 w-4" />
+        </Button>
+        {cameraSupported && (
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={isScanning ? stopCamera : startCamera}
+            aria-label={isScanning ? "Stop scanning" : "Scan with camera"}
+          >
+            {isScanning ? <X className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {isScanning && (
+        <video ref={videoRef} className="w-full rounded-md bg-black" muted playsInline />
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.isError ? "text-red-600" : "text-green-700"}`}>{message.text}</p>
+      )}
+      {!cameraSupported && (
+        <p className="text-xs text-gray-500">Camera scanning isn't supported in this browser - type the number under the barcode.</p>
+      )}
+    </div>
+  );
+}
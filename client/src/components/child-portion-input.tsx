@@ -0,0 +1,77 @@
+import { ChildPortion, FoodItem } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// A child's portion as typed; a blank value means the full shared quantity
+export interface PortionInput {
+  value: string;
+  mode: "amount" | "fraction";
+}
+
+export function toPortionInputs(portions: FoodItem["childPortions"]): Record<string, PortionInput> {
+  return Object.fromEntries(
+    Object.entries(portions ?? {}).map(([childId, portion]) => [
+      childId,
+      "amount" in portion
+        ? { value: String(portion.amount), mode: "amount" as const }
+        : { value: String(portion.fraction), mode: "fraction" as const },
+    ])
+  );
+}
+
+// Portions for the children an item is shared by, leaving out blank and invalid ones
+export function toChildPortions(
+  inputs: Record<string, PortionInput>,
+  childIds: string[]
+): FoodItem["childPortions"] | undefined {
+  if (childIds.length < 2) return undefined;
+  const portions: Record<string, ChildPortion> = {};
+  for (const childId of childIds) {
+    const input = inputs[childId];
+    const value = parseFloat(input?.value ?? "");
+    if (!input || isNaN(value) || value < 0) continue;
+    portions[childId] = input.mode === "amount" ? { amount: value } : { fraction: value };
+  }
+  return Object.keys(portions).length > 0 ? portions : undefined;
+}
+
+export function formatChildPortion(portion: ChildPortion, unit: string): string {
+  if ("amount" in portion) return `${portion.amount} ${unit}`;
+  return portion.fraction === 0.5 ? "half" : `${Math.round(portion.fraction * 100)}%`;
+}
+
+interface ChildPortionInputProps {
+  value?: PortionInput;
+  unit: string;
+  onChange: (value: PortionInput) => void;
+}
+
+// A child's own portion of a shared item, typed inside the child selector
+export default function ChildPortionInput({ value, unit, onChange }: ChildPortionInputProps) {
+  const input = value ?? { value: "", mode: "fraction" as const };
+
+  return (
+    // Clicks here shouldn't toggle the child row this sits in
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <Input
+        type="number"
+        min="0"
+        step={input.mode === "fraction" ? "0.05" : "any"}
+        placeholder={input.mode === "fraction" ? "e.g. 0.5" : "Full"}
+        className="h-7 w-20 text-xs"
+        value={input.value}
+        onChange={(e) => onChange({ ...input, value: e.target.value })}
+        aria-label="Portion"
+      />
+      <Select value={input.mode} onValueChange={(mode) => onChange({ ...input, mode: mode as PortionInput["mode"] })}>
+        <SelectTrigger className="h-7 w-24 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="fraction">of shared</SelectItem>
+          <SelectItem value="amount">{unit}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
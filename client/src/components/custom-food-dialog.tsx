@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { CustomFood } from "@shared/schema";
+import { NUTRIENT_INFO, type NutrientKey } from "@shared/nutrient-database";
+import { LABEL_NUTRIENTS, OPTIONAL_LABEL_NUTRIENTS } from "@shared/custom-foods";
+import { saveCustomFood } from "@/lib/storage";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+const customFoodFormSchema = z.object({
+  name: z.string().trim().min(1, "Food name is required"),
+  brand: z.string().optional(),
+  servingLabel: z.string().optional(),
+  servingSize: z.coerce.number().positive("Serving size must be more than 0"),
+  servingUnit: z.enum(["g", "ml"]),
+  // Kept as typed; blank means the label doesn't list the nutrient
+  nutrients: z.record(z.string(), z.string()),
+});
+
+type CustomFoodFormValues = z.infer<typeof customFoodFormSchema>;
+
+interface CustomFoodDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  food?: CustomFood | null; // Food to edit; a new food is created when absent
+  initialName?: string;
+  onSaved: (food: CustomFood) => void;
+}
+
+function toFormValues(food: CustomFood | null | undefined, initialName?: string): CustomFoodFormValues {
+  return {
+    name: food?.name ?? initialName ?? "",
+    brand: food?.brand ?? "",
+    servingLabel: food?.servingLabel ?? "",
+    servingSize: food?.servingSize ?? 100,
+    servingUnit: food?.servingUnit ?? "g",
+    nutrients: Object.fromEntries(
+      Object.entries(food?.nutrients ?? {}).map(([key, value]) => [key, String(value)])
+    ),
+  };
+}
+
+// Nutrition facts label entry for a custom food
+export default function CustomFoodDialog({ isOpen, onClose, food, initialName, onSaved }: CustomFoodDialogProps) {
+  const [showMoreNutrients, setShowMoreNutrients] = useState(false);
+
+  const form = useForm<CustomFoodFormValues>({
+    resolver: zodResolver(customFoodFormSchema),
+    defaultValues: toFormValues(food, initialName),
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(toFormValues(food, initialName));
+      setShowMoreNutrients(OPTIONAL_LABEL_NUTRIENTS.some(key => food?.nutrients[key] !== undefined));
+    }
+  }, [isOpen, food, initialName, form]);
+
+  const handleSave = async (values: CustomFoodFormValues) => {
+    const nutrients: Record<string, number> = {};
+    for (const [key, text] of Object.entries(values.nutrients)) {
+      const amount = parseFloat(text);
+      if (text.trim() !== "" && !isNaN(amount) && amount >= 0) nutrients[key] = amount;
+    }
+
+    const saved: CustomFood = {
+      id: food?.id ?? crypto.randomUUID(),
+      name: values.name.trim(),
+      brand: values.brand?.trim() || undefined,
+      servingSize: values.servingSize,
+      servingUnit: values.servingUnit,
+      servingLabel: values.servingLabel?.trim() || undefined,
+      nutrients,
+      createdAt: food?.createdAt ?? Date.now(),
+    };
+    await saveCustomFood(saved);
+    onSaved(saved);
+    onClose();
+  };
+
+  const renderNutrientField = (key: NutrientKey) => (
+    <FormField
+      key={key}
+      control={form.control}
+      name={`nutrients.${key}`}
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          <FormLabel className="text-xs">{NUTRIENT_INFO[key].name} ({NUTRIENT_INFO[key].unit})</FormLabel>
+          <FormControl>
+            <Input type="number" min="0" step="any" className="h-8" {...field} value={field.value ?? ""} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{food ? "Edit Custom Food" : "New Custom Food"}</DialogTitle>
+          <DialogDescription>
+            Copy the amounts per serving from the Nutrition Facts label. Leave blank anything the label doesn't list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          {/* Keep the submit from reaching a form this dialog is opened from */}
+          <form
+            onSubmit={(e) => {
+              e.stopPropagation();
+              form.handleSubmit(handleSave)(e);
+            }}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Food Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Whole grain crackers" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="brand"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Brand (optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div>
+              <FormLabel className="block mb-1">Serving Size</FormLabel>
+              <div className="flex gap-2">
+                <FormField
+                  control={form.control}
+                  name="servingLabel"
+                  render={({ field }) => (
+                    <FormItem className="w-1/2">
+                      <FormControl>
+                        <Input placeholder="e.g., 5 crackers" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="servingSize"
+                  render={({ field }) => (
+                    <FormItem className="w-1/4">
+                      <FormControl>
+                        <Input type="number" min="0" step="any" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="servingUnit"
+                  render={({ field }) => (
+                    <FormItem className="w-1/4">
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="g">g</SelectItem>
+                          <SelectItem value="ml">ml</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {form.formState.errors.servingSize?.message ?? "The weight or volume in brackets on the label"}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {LABEL_NUTRIENTS.map(renderNutrientField)}
+            </div>
+
+            <button
+              type="button"
+              className="text-sm text-primary flex items-center gap-1"
+              onClick={() => setShowMoreNutrients(!showMoreNutrients)}
+            >
+              {showMoreNutrients ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              More vitamins and minerals
+            </button>
+            {showMoreNutrients && (
+              <div className="grid grid-cols-2 gap-3">
+                {OPTIONAL_LABEL_NUTRIENTS.map(renderNutrientField)}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit">Save Food</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
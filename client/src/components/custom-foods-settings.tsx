@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { CustomFood } from "@shared/schema";
+import { getCustomFoodDisplayName } from "@shared/custom-foods";
+import { getCustomFoods, deleteCustomFood } from "@/lib/storage";
+import CustomFoodDialog from "@/components/custom-food-dialog";
+import { Button } from "@/components/ui/button";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+// List, add, edit and delete the foods entered from nutrition facts labels
+export default function CustomFoodsSettings() {
+  const [foods, setFoods] = useState<CustomFood[]>([]);
+  const [editingFood, setEditingFood] = useState<CustomFood | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadFoods = async () => {
+    const loaded = await getCustomFoods();
+    setFoods([...loaded].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  useEffect(() => {
+    loadFoods();
+  }, []);
+
+  const handleDelete = async (food: CustomFood) => {
+    await deleteCustomFood(food.id);
+    await loadFoods();
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border p-4">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="font-semibold text-lg">Custom Foods</h3>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="flex items-center gap-1"
+          onClick={() => {
+            setEditingFood(null);
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4" /> Add
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        Foods entered from their Nutrition Facts label. Reports use the label values instead of estimates.
+      </p>
+
+      {foods.length === 0 ? (
+        <p className="text-sm text-gray-500">No custom foods yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {foods.map(food => (
+            <li key={food.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium">{getCustomFoodDisplayName(food)}</p>
+                <p className="text-xs text-gray-500">
+                  {food.nutrients.calories !== undefined ? `${food.nutrients.calories} kcal per ` : "Per "}
+                  {food.servingLabel ? `${food.servingLabel} (${food.servingSize} ${food.servingUnit})` : `${food.servingSize} ${food.servingUnit}`}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  className="text-gray-500 hover:bg-gray-100 rounded-full p-1"
+                  onClick={() => {
+                    setEditingFood(food);
+                    setIsDialogOpen(true);
+                  }}
+                  aria-label={`Edit ${food.name}`}
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  className="text-red-500 hover:bg-red-100 rounded-full p-1"
+                  onClick={() => handleDelete(food)}
+                  aria-label={`Delete ${food.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CustomFoodDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        food={editingFood}
+        onSaved={loadFoods}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,21 @@
 import { useState, useEffect } from "react";
-import { FoodItem, ChildInfo } from "@shared/schema";
+import { FoodItem, ChildInfo, CustomFood, Recipe, FoodPlan } from "@shared/schema";
 import { FOOD_UNITS, DRINK_UNITS, SUPPLEMENT_UNITS, MEAL_TYPES } from "@/lib/constants";
-import { getChildInfo } from "@/lib/storage";
+import { getChildInfo, getCustomFoods, getRecipes, getFoodItems, getFoodPlans, saveMealPhoto } from "@/lib/storage";
+import { getProductDisplayName, toNutritionFacts, type ProductRecord } from "@shared/product-database";
+import { customFoodToNutritionFacts, findCustomFood, getCustomFoodDisplayName } from "@shared/custom-foods";
+import { findRecipe, toRecipeSnapshot } from "@shared/recipes";
+import type { ProposedFood } from "@shared/meal-photo";
+import type { QuickAddResult } from "@shared/quick-add";
+import type { FoodSuggestion } from "@shared/food-suggestions";
+import BarcodeLookup from "@/components/barcode-lookup";
+import NutritionFactsSummary, { type LabelSelection } from "@/components/nutrition-facts-summary";
+import FoodNameSuggestions from "@/components/food-name-suggestions";
+import CustomFoodDialog from "@/components/custom-food-dialog";
+import RecipeDialog from "@/components/recipe-dialog";
+import RecipePortionSummary from "@/components/recipe-portion-summary";
+import MealPhotoLogger from "@/components/meal-photo-logger";
+import VoiceLogger from "@/components/voice-logger";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -9,7 +23,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Plus, Apple, Coffee, Pill, Users } from "lucide-react";
+import { Plus, Apple, Coffee, Pill, Users, ScanBarcode, FilePlus, ChefHat, Camera, Mic } from "lucide-react";
 
 const foodEntrySchema = z.object({
   name: z.string().min(1, "Food name is required"),
@@ -29,6 +43,17 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
   const [entryType, setEntryType] = useState<"food" | "drink" | "supplement">("food");
   const [childInfo, setChildInfo] = useState<ChildInfo | null>(null);
   const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [showBarcodeLookup, setShowBarcodeLookup] = useState(false);
+  const [labelSelection, setLabelSelection] = useState<LabelSelection | null>(null);
+  const [customFoods, setCustomFoods] = useState<CustomFood[]>([]);
+  const [isCustomFoodDialogOpen, setIsCustomFoodDialogOpen] = useState(false);
+  const [recipeSelection, setRecipeSelection] = useState<Recipe | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isRecipeDialogOpen, setIsRecipeDialogOpen] = useState(false);
+  const [showPhotoLogger, setShowPhotoLogger] = useState(false);
+  const [showVoiceLogger, setShowVoiceLogger] = useState(false);
+  const [history, setHistory] = useState<FoodItem[]>([]);
+  const [plans, setPlans] = useState<FoodPlan[]>([]);
   
   // Load child information
   useEffect(() => {
@@ -43,6 +68,14 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
     };
     loadChildInfo();
   }, []);
+
+  // Custom foods, recipes and past foods offered as the food name is typed
+  useEffect(() => {
+    getCustomFoods().then(setCustomFoods);
+    getRecipes().then(setRecipes);
+    getFoodItems().then(setHistory);
+    getFoodPlans().then(setPlans);
+  }, []);
   
   // Get intelligent default meal type based on current time
   const getDefaultMealType = () => {
@@ -87,9 +120,107 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
     form.setValue("unit", defaultUnit);
   }, [entryType, form]);
 
+  // Fill in the form from a packaged product or custom food; its label nutrition is saved with the item
+  const applyLabelSelection = (selection: LabelSelection) => {
+    setLabelSelection(selection);
+    setRecipeSelection(null);
+    setShowBarcodeLookup(false);
+    if (selection.facts.servingUnit === "ml" && entryType === "food") setEntryType("drink");
+    form.setValue("name", selection.name);
+    form.setValue("quantity", 1);
+    form.setValue("unit", "serving");
+  };
+
+  const handleProductFound = (product: ProductRecord) => {
+    applyLabelSelection({ name: getProductDisplayName(product), barcode: product.barcode, facts: toNutritionFacts(product) });
+  };
+
+  const handleCustomFoodSelected = (food: CustomFood) => {
+    applyLabelSelection({ name: getCustomFoodDisplayName(food), facts: customFoodToNutritionFacts(food) });
+  };
+
+  // A portion of a recipe is logged as one item and counted from its ingredients
+  const handleRecipeSelected = (recipe: Recipe) => {
+    setRecipeSelection(recipe);
+    setLabelSelection(null);
+    if (entryType === "supplement") setEntryType("food");
+    form.setValue("name", recipe.name);
+    form.setValue("quantity", 1);
+    form.setValue("unit", "serving");
+  };
+
+  // A past food fills in the quantity and unit it was last logged with
+  const handleSuggestionSelected = (suggestion: FoodSuggestion) => {
+    form.setValue("name", suggestion.name);
+    const units = entryType === "drink" ? DRINK_UNITS : FOOD_UNITS;
+    if (suggestion.quantity !== undefined && suggestion.unit && units.some(unit => unit.value === suggestion.unit)) {
+      form.setValue("quantity", suggestion.quantity);
+      form.setValue("unit", suggestion.unit);
+    }
+  };
+
+  // Log the foods confirmed from a meal photo; each keeps the id of the stored photo
+  const handlePhotoConfirm = async (foods: ProposedFood[], photo: string) => {
+    const photoId = crypto.randomUUID();
+    await saveMealPhoto(photoId, photo);
+    const { mealType } = form.getValues();
+
+    for (const food of foods) {
+      const customFood = findCustomFood(customFoods, food.name);
+      const recipe = customFood ? undefined : findRecipe(recipes, food.name);
+      onAddFood({
+        id: crypto.randomUUID(),
+        name: food.name.trim(),
+        quantity: food.quantity,
+        unit: food.unit,
+        mealType,
+        type: food.type,
+        nutritionFacts: customFood ? customFoodToNutritionFacts(customFood) : undefined,
+        recipe: recipe ? toRecipeSnapshot(recipe) : undefined,
+        photoId,
+        createdAt: Date.now(),
+        date: selectedDate || new Date().toISOString().split('T')[0],
+        childId: selectedChildId || undefined,
+      } as FoodItem);
+    }
+    setShowPhotoLogger(false);
+  };
+
+  // Log the foods confirmed from what was said
+  const handleVoiceConfirm = (result: QuickAddResult, mealType: string) => {
+    // Children named while speaking take the place of the one selected in the form
+    const childIds = result.childIds.length > 0 ? result.childIds : selectedChildId ? [selectedChildId] : [];
+    for (const food of result.items) {
+      const customFood = findCustomFood(customFoods, food.name);
+      const recipe = customFood ? undefined : findRecipe(recipes, food.name);
+      onAddFood({
+        id: crypto.randomUUID(),
+        name: food.name,
+        quantity: food.quantity,
+        unit: food.unit,
+        mealType,
+        type: food.type,
+        nutritionFacts: customFood ? customFoodToNutritionFacts(customFood) : undefined,
+        recipe: recipe ? toRecipeSnapshot(recipe) : undefined,
+        createdAt: Date.now(),
+        date: selectedDate || new Date().toISOString().split('T')[0],
+        childIds: result.childIds.length > 0 ? childIds : undefined,
+        childId: childIds.length === 1 ? childIds[0] : undefined,
+      } as FoodItem);
+    }
+    setShowVoiceLogger(false);
+  };
+
   const onSubmit = (values: FoodEntryFormValues) => {
     const currentDate = selectedDate || new Date().toISOString().split('T')[0];
     
+    // A typed name that matches a custom food uses its label too
+    const matchedCustomFood = labelSelection ? undefined : findCustomFood(customFoods, values.name);
+    const label = labelSelection ?? (matchedCustomFood
+      ? { name: values.name, facts: customFoodToNutritionFacts(matchedCustomFood) }
+      : null);
+    const recipe = label ? null : recipeSelection ?? findRecipe(recipes, values.name);
+
     // Create a food item with the current date and selected type
     const newFood = {
       id: crypto.randomUUID(),
@@ -98,12 +229,17 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
       unit: values.unit,
       mealType: values.mealType,
       type: entryType, // Add the selected type
+      barcode: label?.barcode,
+      nutritionFacts: label?.facts,
+      recipe: recipe && entryType !== "supplement" ? toRecipeSnapshot(recipe) : undefined,
       createdAt: Date.now(),
       date: currentDate,
       childId: selectedChildId || undefined, // Associate with selected child
     } as FoodItem;
     
     onAddFood(newFood);
+    setLabelSelection(null);
+    setRecipeSelection(null);
     form.reset({
       name: "",
       quantity: 1,
@@ -150,7 +286,61 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
             name="name"
             render={({ field }) => (
               <FormItem>
-                <FormLabel className="font-medium">{getItemTypeLabel()}</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel className="font-medium">{getItemTypeLabel()}</FormLabel>
+                  {entryType !== "supplement" && (
+                    <div className="flex flex-wrap justify-end gap-x-3 gap-y-1">
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setIsCustomFoodDialogOpen(true)}
+                      >
+                        <FilePlus className="h-4 w-4" /> Custom food
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setIsRecipeDialogOpen(true)}
+                      >
+                        <ChefHat className="h-4 w-4" /> Recipe
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setShowBarcodeLookup(!showBarcodeLookup)}
+                      >
+                        <ScanBarcode className="h-4 w-4" /> Barcode
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setShowPhotoLogger(!showPhotoLogger)}
+                      >
+                        <Camera className="h-4 w-4" /> Photo
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setShowVoiceLogger(!showVoiceLogger)}
+                      >
+                        <Mic className="h-4 w-4" /> Voice
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {showBarcodeLookup && entryType !== "supplement" && (
+                  <BarcodeLookup onProductFound={handleProductFound} />
+                )}
+                {showPhotoLogger && entryType !== "supplement" && (
+                  <MealPhotoLogger onConfirm={handlePhotoConfirm} />
+                )}
+                {showVoiceLogger && entryType !== "supplement" && (
+                  <VoiceLogger
+                    children={childInfo?.children || []}
+                    defaultMealType={form.getValues("mealType")}
+                    onConfirm={handleVoiceConfirm}
+                  />
+                )}
                 <FormControl>
                   <Input 
                     placeholder={getItemPlaceholder()}
@@ -158,6 +348,25 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
                     {...field} 
                   />
                 </FormControl>
+                {labelSelection ? (
+                  <NutritionFactsSummary selection={labelSelection} onRemove={() => setLabelSelection(null)} />
+                ) : recipeSelection ? (
+                  <RecipePortionSummary recipe={recipeSelection} onRemove={() => setRecipeSelection(null)} />
+                ) : entryType !== "supplement" && (
+                  <FoodNameSuggestions
+                    query={field.value}
+                    customFoods={customFoods}
+                    recipes={recipes}
+                    history={history}
+                    plans={plans}
+                    type={entryType}
+                    mealType={form.watch("mealType")}
+                    childIds={selectedChildId ? [selectedChildId] : undefined}
+                    onSelectCustomFood={handleCustomFoodSelected}
+                    onSelectRecipe={handleRecipeSelected}
+                    onSelectSuggestion={handleSuggestionSelected}
+                  />
+                )}
               </FormItem>
             )}
           />
@@ -188,7 +397,7 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
                 name="unit"
                 render={({ field }) => (
                   <FormItem className="w-2/3">
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger className="p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent">
                           <SelectValue placeholder="Select unit" />
@@ -292,6 +501,26 @@ export default function FoodEntryForm({ onAddFood, selectedDate }: FoodEntryForm
           </Button>
         </form>
       </Form>
+
+      <CustomFoodDialog
+        isOpen={isCustomFoodDialogOpen}
+        onClose={() => setIsCustomFoodDialogOpen(false)}
+        initialName={form.getValues().name}
+        onSaved={(food) => {
+          setCustomFoods(foods => [...foods.filter(f => f.id !== food.id), food]);
+          handleCustomFoodSelected(food);
+        }}
+      />
+
+      <RecipeDialog
+        isOpen={isRecipeDialogOpen}
+        onClose={() => setIsRecipeDialogOpen(false)}
+        initialName={form.getValues().name}
+        onSaved={(recipe) => {
+          setRecipes(saved => [...saved.filter(r => r.id !== recipe.id), recipe]);
+          handleRecipeSelected(recipe);
+        }}
+      />
     </div>
   );
 }
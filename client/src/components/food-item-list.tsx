@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { FoodItem, ChildInfo } from "@shared/schema";
+import { useState, useEffect, useMemo } from "react";
+import { FoodItem, ChildInfo, CustomFood, Recipe, FoodPlan } from "@shared/schema";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -7,8 +7,29 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { FOOD_UNITS, DRINK_UNITS, SUPPLEMENT_UNITS, MEAL_TYPES, APP_IMAGES } from "@/lib/constants";
-import { getChildInfo } from "@/lib/storage";
-import { Edit, MinusCircle, Check, Apple, Coffee, Pill, ChevronDown, ChevronUp, Plus, Users } from "lucide-react";
+import { getChildInfo, getCustomFoods, getRecipes, getFoodItems, getFoodPlans, saveMealPhoto, deleteMealPhoto } from "@/lib/storage";
+import { calculateFluidIntake } from "@shared/nutrient-calculator";
+import { ML_PER_FLUID_OUNCE } from "@shared/units";
+import SupplementSafetyNotice from "@/components/supplement-safety-notice";
+import BarcodeLookup from "@/components/barcode-lookup";
+import NutritionFactsSummary, { type LabelSelection } from "@/components/nutrition-facts-summary";
+import FoodNameSuggestions from "@/components/food-name-suggestions";
+import CustomFoodDialog from "@/components/custom-food-dialog";
+import RecipeDialog from "@/components/recipe-dialog";
+import RecipePortionSummary from "@/components/recipe-portion-summary";
+import LeftoversDialog, { formatEaten } from "@/components/leftovers-dialog";
+import MealPhotoLogger from "@/components/meal-photo-logger";
+import VoiceLogger from "@/components/voice-logger";
+import MealPhotoDialog from "@/components/meal-photo-dialog";
+import ChildPortionInput, { toPortionInputs, toChildPortions, formatChildPortion, type PortionInput } from "@/components/child-portion-input";
+import { getProductDisplayName, toNutritionFacts, type ProductRecord } from "@shared/product-database";
+import { customFoodToNutritionFacts, findCustomFood, getCustomFoodDisplayName } from "@shared/custom-foods";
+import { findRecipe, toRecipeSnapshot } from "@shared/recipes";
+import type { ProposedFood } from "@shared/meal-photo";
+import type { QuickAddResult } from "@shared/quick-add";
+import type { FoodSuggestion } from "@shared/food-suggestions";
+import { findAllergenConflicts, describeConflict } from "@shared/allergens";
+import { Edit, MinusCircle, Check, Apple, Coffee, Pill, ChevronDown, ChevronUp, Plus, Users, AlertTriangle, ScanBarcode, FilePlus, ChefHat, Utensils, Camera, ImageIcon, Mic } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface FoodItemListProps {
@@ -39,7 +60,7 @@ const foodEntrySchema = z.object({
 type FoodEntryFormValues = z.infer<typeof foodEntrySchema>;
 
 // Get intelligent default meal type based on current time
-function getDefaultMealType() {
+export function getDefaultMealType() {
   const currentHour = new Date().getHours();
   
   // Morning hours: 4am to 10am -> breakfast
@@ -68,6 +89,45 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
   const [selectedChildIds, setSelectedChildIds] = useState<string[]>([]);
   const [isAddChildDropdownOpen, setIsAddChildDropdownOpen] = useState(false);
   const [isEditChildDropdownOpen, setIsEditChildDropdownOpen] = useState(false);
+  const [showBarcodeLookup, setShowBarcodeLookup] = useState(false);
+  const [labelSelection, setLabelSelection] = useState<LabelSelection | null>(null);
+  const [customFoods, setCustomFoods] = useState<CustomFood[]>([]);
+  const [isCustomFoodDialogOpen, setIsCustomFoodDialogOpen] = useState(false);
+  const [recipeSelection, setRecipeSelection] = useState<Recipe | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isRecipeDialogOpen, setIsRecipeDialogOpen] = useState(false);
+  // Own portions for the selected children of a shared item, by child id
+  const [portionInputs, setPortionInputs] = useState<Record<string, PortionInput>>({});
+  const [isLeftoversDialogOpen, setIsLeftoversDialogOpen] = useState(false);
+  const [showPhotoLogger, setShowPhotoLogger] = useState(false);
+  const [showVoiceLogger, setShowVoiceLogger] = useState(false);
+  const [viewingPhotoId, setViewingPhotoId] = useState<string | null>(null);
+  const [history, setHistory] = useState<FoodItem[]>([]);
+  const [plans, setPlans] = useState<FoodPlan[]>([]);
+  
+  // Daily fluid total from the logged drinks
+  const fluidTotal = useMemo(() => calculateFluidIntake(items), [items]);
+
+  // Allergy and dietary restriction conflicts for the children each item is assigned to
+  const allergenWarnings = useMemo(() => {
+    const warnings: Record<string, { message: string; severe: boolean }[]> = {};
+    const children = childInfo?.children || [];
+    for (const item of items) {
+      const assigned = item.childIds?.length
+        ? children.filter(child => item.childIds!.includes(child.id))
+        : item.childId
+          ? children.filter(child => child.id === item.childId)
+          : children;
+      const itemWarnings = assigned.flatMap(child =>
+        findAllergenConflicts(item, child).map(conflict => ({
+          message: describeConflict(conflict, child.name || `Child ${children.indexOf(child) + 1}`),
+          severe: conflict.severity === "severe",
+        }))
+      );
+      if (itemWarnings.length > 0) warnings[item.id] = itemWarnings;
+    }
+    return warnings;
+  }, [items, childInfo]);
   
   // Load child information
   useEffect(() => {
@@ -85,6 +145,18 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
     };
     loadChildInfo();
   }, []);
+
+  // Custom foods and recipes offered as the food name is typed
+  useEffect(() => {
+    getCustomFoods().then(setCustomFoods);
+    getRecipes().then(setRecipes);
+    getFoodPlans().then(setPlans);
+  }, []);
+
+  // Past foods for the name suggestions, reloaded as items are added
+  useEffect(() => {
+    getFoodItems().then(setHistory);
+  }, [items]);
   
   // Form for editing existing items
   const form = useForm<EditFoodFormValues>({
@@ -118,6 +190,30 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
     addForm.setValue("unit", defaultUnit);
   }, [entryType, addForm]);
 
+  // Supplement being typed into the add form, checked against the upper limits
+  const [addName, addQuantity, addUnit] = addForm.watch(["name", "quantity", "unit"]);
+  const itemDate = selectedDate || new Date().toISOString().split('T')[0];
+  const addMealType = addForm.watch("mealType");
+  const pendingSupplement = useMemo(() => {
+    if (entryType !== "supplement" || !addName || !(Number(addQuantity) > 0)) return null;
+    return {
+      id: "pending-supplement",
+      name: addName,
+      quantity: Number(addQuantity),
+      unit: addUnit,
+      mealType: "supplement",
+      type: "supplement",
+      createdAt: Date.now(),
+      date: itemDate,
+      childIds: selectedChildIds.length > 0 ? selectedChildIds : undefined,
+    } as FoodItem;
+  }, [entryType, addName, addQuantity, addUnit, itemDate, selectedChildIds]);
+  // Children the item being added is for; none selected means all of them
+  const addRecipients = useMemo(() => {
+    const children = childInfo?.children || [];
+    return selectedChildIds.length > 0 ? children.filter(child => selectedChildIds.includes(child.id)) : children;
+  }, [childInfo, selectedChildIds]);
+
   const handleEdit = (item: FoodItem) => {
     setEditingId(item.id);
     // Set selected child IDs based on item
@@ -128,6 +224,7 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
     } else {
       setSelectedChildIds([]);
     }
+    setPortionInputs(toPortionInputs(item.childPortions));
     
     form.reset({
       name: item.name,
@@ -137,6 +234,8 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
     });
   };
 
+  const editUnit = form.watch("unit");
+
   const handleSave = (id: string) => {
     const values = form.getValues();
     // Find the existing item to merge with updates
@@ -152,12 +251,21 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
       date: existingItem.date,
       // Update childIds - important to always set both childIds and childId
       childIds: selectedChildIds.length > 0 ? selectedChildIds : undefined,
+      childPortions: toChildPortions(portionInputs, selectedChildIds),
       // For backward compatibility
       childId: selectedChildIds.length === 1 ? selectedChildIds[0] : undefined
     });
     setEditingId(null);
   };
   
+  // Remove the item, and its meal photo once no other item uses it
+  const handleDelete = (item: FoodItem) => {
+    onDelete(item.id);
+    if (item.photoId && !items.some(other => other.id !== item.id && other.photoId === item.photoId)) {
+      deleteMealPhoto(item.photoId);
+    }
+  };
+  
   // Format meal type to display the proper label
   const formatMealType = (mealType: string) => {
     const mealTypeObj = MEAL_TYPES.find(meal => meal.value === mealType);
@@ -194,11 +302,112 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
     }
   };
   
+  // Fill in the form from a packaged product or custom food; its label nutrition is saved with the item
+  const applyLabelSelection = (selection: LabelSelection) => {
+    setLabelSelection(selection);
+    setRecipeSelection(null);
+    setShowBarcodeLookup(false);
+    if (selection.facts.servingUnit === "ml" && entryType === "food") setEntryType("drink");
+    addForm.setValue("name", selection.name);
+    addForm.setValue("quantity", 1);
+    addForm.setValue("unit", "serving");
+  };
+
+  const handleProductFound = (product: ProductRecord) => {
+    applyLabelSelection({ name: getProductDisplayName(product), barcode: product.barcode, facts: toNutritionFacts(product) });
+  };
+
+  const handleCustomFoodSelected = (food: CustomFood) => {
+    applyLabelSelection({ name: getCustomFoodDisplayName(food), facts: customFoodToNutritionFacts(food) });
+  };
+
+  // A portion of a recipe is logged as one item and counted from its ingredients
+  const handleRecipeSelected = (recipe: Recipe) => {
+    setRecipeSelection(recipe);
+    setLabelSelection(null);
+    if (entryType === "supplement") setEntryType("food");
+    addForm.setValue("name", recipe.name);
+    addForm.setValue("quantity", 1);
+    addForm.setValue("unit", "serving");
+  };
+
+  // A past food fills in the quantity and unit it was last logged with
+  const handleSuggestionSelected = (suggestion: FoodSuggestion) => {
+    addForm.setValue("name", suggestion.name);
+    const units = entryType === "drink" ? DRINK_UNITS : FOOD_UNITS;
+    if (suggestion.quantity !== undefined && suggestion.unit && units.some(unit => unit.value === suggestion.unit)) {
+      addForm.setValue("quantity", suggestion.quantity);
+      addForm.setValue("unit", suggestion.unit);
+    }
+  };
+
+  // Log the foods confirmed from a meal photo; each keeps the id of the stored photo
+  const handlePhotoConfirm = async (foods: ProposedFood[], photo: string) => {
+    if (!onAddFood) return;
+    const photoId = crypto.randomUUID();
+    await saveMealPhoto(photoId, photo);
+    const { mealType } = addForm.getValues();
+
+    for (const food of foods) {
+      const customFood = findCustomFood(customFoods, food.name);
+      const recipe = customFood ? undefined : findRecipe(recipes, food.name);
+      onAddFood({
+        id: crypto.randomUUID(),
+        name: food.name.trim(),
+        quantity: food.quantity,
+        unit: food.unit,
+        mealType,
+        type: food.type,
+        nutritionFacts: customFood ? customFoodToNutritionFacts(customFood) : undefined,
+        recipe: recipe ? toRecipeSnapshot(recipe) : undefined,
+        photoId,
+        createdAt: Date.now(),
+        date: itemDate,
+        childIds: selectedChildIds.length > 0 ? selectedChildIds : undefined,
+        childId: selectedChildIds.length === 1 ? selectedChildIds[0] : undefined,
+      } as FoodItem);
+    }
+    setShowPhotoLogger(false);
+  };
+
+  // Log the foods confirmed from what was said
+  const handleVoiceConfirm = (result: QuickAddResult, mealType: string) => {
+    if (!onAddFood) return;
+    // Children named while speaking take the place of the ones selected in the form
+    const childIds = result.childIds.length > 0 ? result.childIds : selectedChildIds;
+    for (const food of result.items) {
+      const customFood = findCustomFood(customFoods, food.name);
+      const recipe = customFood ? undefined : findRecipe(recipes, food.name);
+      onAddFood({
+        id: crypto.randomUUID(),
+        name: food.name,
+        quantity: food.quantity,
+        unit: food.unit,
+        mealType,
+        type: food.type,
+        nutritionFacts: customFood ? customFoodToNutritionFacts(customFood) : undefined,
+        recipe: recipe ? toRecipeSnapshot(recipe) : undefined,
+        createdAt: Date.now(),
+        date: itemDate,
+        childIds: childIds.length > 0 ? childIds : undefined,
+        childId: childIds.length === 1 ? childIds[0] : undefined,
+      } as FoodItem);
+    }
+    setShowVoiceLogger(false);
+  };
+
   // Handle submission of new item form
   const handleAddItem = (values: FoodEntryFormValues) => {
     if (onAddFood) {
       const currentDate = selectedDate || new Date().toISOString().split('T')[0];
       
+      // A typed name that matches a custom food uses its label too
+      const matchedCustomFood = labelSelection ? undefined : findCustomFood(customFoods, values.name);
+      const label = labelSelection ?? (matchedCustomFood
+        ? { name: values.name, facts: customFoodToNutritionFacts(matchedCustomFood) }
+        : null);
+      const recipe = label ? null : recipeSelection ?? findRecipe(recipes, values.name);
+
       // Create a food item with the current date
       const newItem = {
         id: crypto.randomUUID(),
@@ -207,6 +416,10 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
         unit: values.unit,
         mealType: values.mealType,
         type: entryType,
+        barcode: label?.barcode,
+        nutritionFacts: label?.facts,
+        recipe: recipe && entryType !== "supplement" ? toRecipeSnapshot(recipe) : undefined,
+        childPortions: toChildPortions(portionInputs, selectedChildIds),
         createdAt: Date.now(),
         date: currentDate,
         childIds: selectedChildIds.length > 0 ? selectedChildIds : undefined,
@@ -215,6 +428,9 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
       } as FoodItem;
       
       onAddFood(newItem);
+      setLabelSelection(null);
+      setRecipeSelection(null);
+      setPortionInputs({});
       
       // Reset form and keep the form open for further additions
       addForm.reset({
@@ -279,7 +495,61 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
             name="name"
             render={({ field }) => (
               <FormItem>
-                <FormLabel className="font-medium">{getItemTypeLabel()}</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel className="font-medium">{getItemTypeLabel()}</FormLabel>
+                  {entryType !== "supplement" && (
+                    <div className="flex flex-wrap justify-end gap-x-3 gap-y-1">
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setIsCustomFoodDialogOpen(true)}
+                      >
+                        <FilePlus className="h-4 w-4" /> Custom food
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setIsRecipeDialogOpen(true)}
+                      >
+                        <ChefHat className="h-4 w-4" /> Recipe
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setShowBarcodeLookup(!showBarcodeLookup)}
+                      >
+                        <ScanBarcode className="h-4 w-4" /> Barcode
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setShowPhotoLogger(!showPhotoLogger)}
+                      >
+                        <Camera className="h-4 w-4" /> Photo
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-primary flex items-center gap-1 hover:underline"
+                        onClick={() => setShowVoiceLogger(!showVoiceLogger)}
+                      >
+                        <Mic className="h-4 w-4" /> Voice
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {showBarcodeLookup && entryType !== "supplement" && (
+                  <BarcodeLookup onProductFound={handleProductFound} />
+                )}
+                {showPhotoLogger && entryType !== "supplement" && (
+                  <MealPhotoLogger onConfirm={handlePhotoConfirm} />
+                )}
+                {showVoiceLogger && entryType !== "supplement" && (
+                  <VoiceLogger
+                    children={childInfo?.children || []}
+                    defaultMealType={addForm.getValues("mealType")}
+                    onConfirm={handleVoiceConfirm}
+                  />
+                )}
                 <FormControl>
                   <Input 
                     placeholder={getItemPlaceholder()}
@@ -287,6 +557,25 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                     {...field} 
                   />
                 </FormControl>
+                {labelSelection ? (
+                  <NutritionFactsSummary selection={labelSelection} onRemove={() => setLabelSelection(null)} />
+                ) : recipeSelection ? (
+                  <RecipePortionSummary recipe={recipeSelection} onRemove={() => setRecipeSelection(null)} />
+                ) : entryType !== "supplement" && (
+                  <FoodNameSuggestions
+                    query={field.value}
+                    customFoods={customFoods}
+                    recipes={recipes}
+                    history={history}
+                    plans={plans}
+                    type={entryType}
+                    mealType={addMealType}
+                    childIds={selectedChildIds}
+                    onSelectCustomFood={handleCustomFoodSelected}
+                    onSelectRecipe={handleRecipeSelected}
+                    onSelectSuggestion={handleSuggestionSelected}
+                  />
+                )}
               </FormItem>
             )}
           />
@@ -317,7 +606,7 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                 name="unit"
                 render={({ field }) => (
                   <FormItem className="w-2/3">
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger className="p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent">
                           <SelectValue placeholder="Select unit" />
@@ -435,6 +724,13 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                             {isSelected && <Check className="h-3 w-3 text-white" />}
                           </div>
                           <span className="flex-1">{child.name || `Child ${childInfo.children.findIndex(c => c.id === child.id) + 1}`}</span>
+                          {isSelected && selectedChildIds.length > 1 && (
+                            <ChildPortionInput
+                              value={portionInputs[child.id]}
+                              unit={addUnit}
+                              onChange={(portion) => setPortionInputs({ ...portionInputs, [child.id]: portion })}
+                            />
+                          )}
                         </div>
                       );
                     })}
@@ -453,11 +749,20 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
               )}
               
               <p className="text-xs text-gray-500 mt-1">
-                Select one or more children or leave empty to add this item for all children
+                Select one or more children or leave empty to add this item for all children. With several selected, each can have their own portion.
               </p>
             </div>
           )}
 
+          {entryType === "supplement" && (
+            <SupplementSafetyNotice
+              supplement={pendingSupplement}
+              items={items}
+              recipients={addRecipients}
+              date={itemDate}
+            />
+          )}
+
           <Button 
             type="submit" 
             className="w-full bg-primary hover:bg-primary/90 text-white font-bold py-3 px-4 rounded-md transition transform hover:scale-[1.02]"
@@ -466,6 +771,26 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
           </Button>
         </form>
       </Form>
+
+      <CustomFoodDialog
+        isOpen={isCustomFoodDialogOpen}
+        onClose={() => setIsCustomFoodDialogOpen(false)}
+        initialName={addForm.getValues().name}
+        onSaved={(food) => {
+          setCustomFoods(foods => [...foods.filter(f => f.id !== food.id), food]);
+          handleCustomFoodSelected(food);
+        }}
+      />
+
+      <RecipeDialog
+        isOpen={isRecipeDialogOpen}
+        onClose={() => setIsRecipeDialogOpen(false)}
+        initialName={addForm.getValues().name}
+        onSaved={(recipe) => {
+          setRecipes(saved => [...saved.filter(r => r.id !== recipe.id), recipe]);
+          handleRecipeSelected(recipe);
+        }}
+      />
     </div>
   );
 
@@ -694,6 +1019,13 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                                         {isSelected && <Check className="h-3 w-3 text-white" />}
                                       </div>
                                       <span className="flex-1">{child.name || `Child ${childInfo.children.findIndex(c => c.id === child.id) + 1}`}</span>
+                                      {isSelected && selectedChildIds.length > 1 && (
+                                        <ChildPortionInput
+                                          value={portionInputs[child.id]}
+                                          unit={editUnit}
+                                          onChange={(portion) => setPortionInputs({ ...portionInputs, [child.id]: portion })}
+                                        />
+                                      )}
                                     </div>
                                   );
                                 })}
@@ -765,6 +1097,8 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                                     <span key={childId} className="px-2 py-0.5 text-xs bg-purple-100 text-purple-800 rounded-full flex items-center">
                                       <Users className="h-2.5 w-2.5 mr-1" />
                                       {childName}
+                                      {item.childPortions?.[childId] && ` (${formatChildPortion(item.childPortions[childId], item.unit)})`}
+                                      {item.eaten?.[childId] && `, ate ${formatEaten(item.eaten[childId], item.unit)}`}
                                     </span>
                                   );
                                 })}
@@ -778,9 +1112,39 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                           </>
                         )}
                       </div>
+                      
+                      {/* What was eaten of items shared by all children */}
+                      {!item.childIds?.length && item.eaten && childInfo?.children && (
+                        <div className="text-xs text-gray-500 mt-0.5">
+                          Ate: {childInfo.children
+                            .filter(child => item.eaten![child.id])
+                            .map(child => `${child.name || "Child"} ${formatEaten(item.eaten![child.id], item.unit)}`)
+                            .join(", ")}
+                        </div>
+                      )}
+
+                      {/* Allergy and restriction warnings */}
+                      {allergenWarnings[item.id]?.map((warning, index) => (
+                        <div
+                          key={index}
+                          className={`text-xs flex items-center mt-1 ${warning.severe ? "text-red-600 font-semibold" : "text-amber-600"}`}
+                        >
+                          <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                          {warning.message}
+                        </div>
+                      ))}
                     </div>
                   </div>
                   <div className="flex space-x-2">
+                    {item.photoId && (
+                      <button
+                        onClick={() => setViewingPhotoId(item.photoId!)}
+                        className="p-2 text-gray-600 hover:text-secondary"
+                        aria-label="Show meal photo"
+                      >
+                        <ImageIcon className="h-4 w-4" />
+                      </button>
+                    )}
                     <button 
                       onClick={() => handleEdit(item)}
                       className="edit-btn p-2 text-gray-600 hover:text-secondary"
@@ -789,7 +1153,7 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
                       <Edit className="h-4 w-4" />
                     </button>
                     <button 
-                      onClick={() => onDelete(item.id)}
+                      onClick={() => handleDelete(item)}
                       className="delete-btn p-2 text-gray-600 hover:text-danger"
                       aria-label="Delete food item"
                     >
@@ -802,6 +1166,43 @@ export default function FoodItemList({ items, onDelete, onUpdate, onAddFood, sel
           ))}
         </ul>
       </div>
+      
+      {/* Post-meal leftovers */}
+      {childInfo?.children && childInfo.children.length > 0 && items.some(item => item.type !== "supplement") && (
+        <button
+          type="button"
+          className="text-sm text-primary flex items-center gap-1 px-1 hover:underline"
+          onClick={() => setIsLeftoversDialogOpen(true)}
+        >
+          <Utensils className="h-4 w-4" /> Mark leftovers
+        </button>
+      )}
+
+      {/* Daily fluid total */}
+      {items.some(item => item.type === "drink") && (
+        <div className="flex items-center text-sm text-gray-600 px-1">
+          <Coffee className="h-4 w-4 text-purple-500 mr-2" />
+          <span>
+            Fluids: <span className="font-medium">{Math.round(fluidTotal.milliliters)} ml</span>
+            {" "}({Math.round(fluidTotal.milliliters / ML_PER_FLUID_OUNCE)} fl oz)
+          </span>
+          {fluidTotal.unconverted.length > 0 && (
+            <span className="ml-2 text-xs text-gray-400">
+              excludes {fluidTotal.unconverted.map(item => item.name).join(", ")}
+            </span>
+          )}
+        </div>
+      )}
+
+      <LeftoversDialog
+        isOpen={isLeftoversDialogOpen}
+        onClose={() => setIsLeftoversDialogOpen(false)}
+        items={items}
+        recipients={childInfo?.children ?? []}
+        onSave={(id, eaten) => onUpdate(id, { eaten })}
+      />
+
+      <MealPhotoDialog photoId={viewingPhotoId} onClose={() => setViewingPhotoId(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { useMemo } from "react";
+import { CustomFood, FoodItem, FoodPlan, Recipe } from "@shared/schema";
+import { searchCustomFoods, getCustomFoodDisplayName } from "@shared/custom-foods";
+import { searchRecipes } from "@shared/recipes";
+import { rankFoodSuggestions, type FoodSuggestion } from "@shared/food-suggestions";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+
+interface FoodNameSuggestionsProps {
+  query: string;
+  customFoods: CustomFood[];
+  recipes: Recipe[];
+  history: FoodItem[];
+  plans: FoodPlan[];
+  type: "food" | "drink";
+  mealType?: string;
+  childIds?: string[];
+  onSelectCustomFood: (food: CustomFood) => void;
+  onSelectRecipe: (recipe: Recipe) => void;
+  onSelectSuggestion: (suggestion: FoodSuggestion) => void;
+}
+
+function describeSuggestion(suggestion: FoodSuggestion): string {
+  const amount = suggestion.quantity !== undefined && suggestion.unit ? `${suggestion.quantity} ${suggestion.unit}` : "";
+  if (suggestion.source === "database") return "Food database";
+  if (suggestion.source === "plan") return amount ? `In a plan, ${amount}` : "In a plan";
+  const times = suggestion.timesLogged === 1 ? "once" : `${suggestion.timesLogged}×`;
+  return amount ? `Last ${amount}, logged ${times}` : `Logged ${times}`;
+}
+
+// Recipes, custom foods and past foods matching what has been typed into a
+// food name input
+export default function FoodNameSuggestions({
+  query,
+  customFoods,
+  recipes,
+  history,
+  plans,
+  type,
+  mealType,
+  childIds,
+  onSelectCustomFood,
+  onSelectRecipe,
+  onSelectSuggestion,
+}: FoodNameSuggestionsProps) {
+  const matchingRecipes = useMemo(() => searchRecipes(recipes, query, 3), [recipes, query]);
+  const matchingFoods = useMemo(() => searchCustomFoods(customFoods, query), [customFoods, query]);
+  const suggestions = useMemo(() => {
+    // Recipes and custom foods are listed with their own details
+    const listed = new Set([...recipes.map(recipe => recipe.name), ...customFoods.map(food => food.name)].map(name => name.toLowerCase()));
+    return rankFoodSuggestions(query, { history, plans, type, mealType, childIds })
+      .filter(suggestion => !listed.has(suggestion.name.toLowerCase()));
+  }, [query, history, plans, type, mealType, childIds, recipes, customFoods]);
+  if (matchingRecipes.length === 0 && matchingFoods.length === 0 && suggestions.length === 0) return null;
+
+  return (
+    <Command shouldFilter={false} className="border border-gray-200 h-auto">
+      <CommandList>
+        {suggestions.length > 0 && (
+          <CommandGroup heading="Suggestions">
+            {suggestions.map(suggestion => (
+              <CommandItem
+                key={suggestion.name}
+                value={`suggestion-${suggestion.name}`}
+                className="justify-between"
+                onSelect={() => onSelectSuggestion(suggestion)}
+              >
+                <span>{suggestion.name}</span>
+                <span className="text-xs text-gray-500">{describeSuggestion(suggestion)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {matchingRecipes.length > 0 && (
+          <CommandGroup heading="Recipes">
+            {matchingRecipes.map(recipe => (
+              <CommandItem
+                key={recipe.id}
+                value={`recipe-${recipe.id}`}
+                className="justify-between"
+                onSelect={() => onSelectRecipe(recipe)}
+              >
+                <span>{recipe.name}</span>
+                <span className="text-xs text-gray-500">Recipe, {recipe.servings} servings</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {matchingFoods.length > 0 && (
+          <CommandGroup heading="Custom foods">
+            {matchingFoods.map(food => (
+              <CommandItem
+                key={food.id}
+                value={`custom-${food.id}`}
+                className="justify-between"
+                onSelect={() => onSelectCustomFood(food)}
+              >
+                <span>{getCustomFoodDisplayName(food)}</span>
+                <span className="text-xs text-gray-500">
+                  {food.nutrients.calories !== undefined ? `${food.nutrients.calories} kcal / ` : ""}
+                  {food.servingLabel || `${food.servingSize} ${food.servingUnit}`}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </Command>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { PlannedItem } from "@shared/schema";
+import {
+  buildGroceryList,
+  formatGroceryAmount,
+  formatGroceryListCsv,
+  formatGroceryListText,
+  type GroceryList,
+} from "@shared/grocery-list";
+import { getPlannedItems } from "@/lib/storage";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Download, Printer } from "lucide-react";
+
+interface GroceryListDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The range and child the planner was showing
+  from: string;
+  to: string;
+  childIds: string[];
+  childId: string | null;
+}
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// A plain page with checkboxes, printed from its own window so the app's
+// layout doesn't end up on paper
+function printGroceryList(list: GroceryList) {
+  const page = window.open("", "_blank");
+  if (!page) return;
+  const recipes = list.recipes.length > 0
+    ? `<p>Recipes: ${list.recipes.map(recipe => `${escapeHtml(recipe.name)} &times;${recipe.batches}`).join(", ")}</p>`
+    : "";
+  const aisles = list.aisles.map(({ aisle, items }) => `
+    <h2>${escapeHtml(aisle)}</h2>
+    <ul>${items.map(item => `<li>&#9744; ${escapeHtml(item.name)} <span>${escapeHtml(item.amounts.map(formatGroceryAmount).join(" + "))}</span></li>`).join("")}</ul>
+  `).join("");
+  page.document.write(`<!DOCTYPE html><html><head><title>Grocery list</title><style>
+    body { font-family: sans-serif; margin: 24px; }
+    h1 { font-size: 18px; } h2 { font-size: 14px; margin: 16px 0 4px; text-transform: uppercase; }
+    ul { list-style: none; padding: 0; margin: 0; } li { padding: 2px 0; font-size: 13px; } span { color: #555; }
+  </style></head><body><h1>Grocery list, ${list.from} to ${list.to}</h1>${recipes}${aisles}</body></html>`);
+  page.document.close();
+  page.focus();
+  page.print();
+}
+
+// Everything needed for the meals planned over a range of days, by aisle
+export default function GroceryListDialog({ isOpen, onClose, from: initialFrom, to: initialTo, childIds, childId }: GroceryListDialogProps) {
+  const [plannedItems, setPlannedItems] = useState<PlannedItem[]>([]);
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFrom(initialFrom);
+    setTo(initialTo);
+    getPlannedItems().then(setPlannedItems);
+  }, [isOpen, initialFrom, initialTo]);
+
+  const list = buildGroceryList(plannedItems, from, to, childIds, childId);
+  const isEmpty = list.aisles.length === 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Grocery List</DialogTitle>
+          <DialogDescription>
+            Recipes are counted in whole batches, and the same food planned in different units is added up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="grocery-from" className="text-xs">From</Label>
+            <Input id="grocery-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-8" />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="grocery-to" className="text-xs">To</Label>
+            <Input id="grocery-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="h-8" />
+          </div>
+        </div>
+
+        {isEmpty ? (
+          <p className="text-sm text-gray-500">Nothing is planned in these days.</p>
+        ) : (
+          <div className="space-y-3">
+            {list.recipes.length > 0 && (
+              <p className="text-xs text-gray-600">
+                Recipes: {list.recipes.map(recipe => `${recipe.name} ×${recipe.batches}`).join(", ")}
+              </p>
+            )}
+            {list.aisles.map(({ aisle, items }) => (
+              <div key={aisle}>
+                <p className="text-xs font-medium text-gray-500 uppercase">{aisle}</p>
+                <ul className="text-sm">
+                  {items.map(item => (
+                    <li key={item.name} className="flex justify-between gap-2 border-b border-gray-100 py-0.5">
+                      <span>{item.name}</span>
+                      <span className="text-gray-600">{item.amounts.map(formatGroceryAmount).join(" + ")}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isEmpty}
+            onClick={() => downloadFile(`grocery-list-${from}.txt`, formatGroceryListText(list), "text/plain")}
+          >
+            <Download className="mr-1 h-4 w-4" /> Text
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isEmpty}
+            onClick={() => downloadFile(`grocery-list-${from}.csv`, formatGroceryListCsv(list), "text/csv")}
+          >
+            <Download className="mr-1 h-4 w-4" /> CSV
+          </Button>
+          <Button type="button" size="sm" disabled={isEmpty} onClick={() => printGroceryList(list)}>
+            <Printer className="mr-1 h-4 w-4" /> Print
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
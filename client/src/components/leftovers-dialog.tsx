@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Child, EatenAmount, FoodItem } from "@shared/schema";
+import { getChildQuantity, isItemForChild } from "@shared/nutrient-calculator";
+import { MEAL_TYPES } from "@/lib/constants";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+// One-tap choices for how much of their portion a child ate
+const QUICK_PERCENTS = [
+  { percent: 100, label: "All" },
+  { percent: 75, label: "¾" },
+  { percent: 50, label: "½" },
+  { percent: 25, label: "¼" },
+  { percent: 0, label: "None" },
+];
+
+type EatenByItem = Record<string, Record<string, EatenAmount | undefined>>;
+
+interface LeftoversDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: FoodItem[];
+  recipients: Child[];
+  onSave: (id: string, eaten: FoodItem["eaten"]) => void;
+}
+
+function formatAmount(amount: number): string {
+  return String(Math.round(amount * 100) / 100);
+}
+
+export function formatEaten(amount: EatenAmount, unit: string): string {
+  if ("leftover" in amount) return `all but ${formatAmount(amount.leftover)} ${unit}`;
+  return amount.percent === 100 ? "all" : amount.percent === 0 ? "none" : `${amount.percent}%`;
+}
+
+// Mark after a meal how much of each item every child actually ate
+export default function LeftoversDialog({ isOpen, onClose, items, recipients, onSave }: LeftoversDialogProps) {
+  const mealItems = items.filter(item => item.type !== "supplement");
+  const meals = MEAL_TYPES.filter(meal => mealItems.some(item => item.mealType === meal.value));
+  const [mealType, setMealType] = useState("");
+  const [eaten, setEaten] = useState<EatenByItem>({});
+
+  // Start on the meal logged last, with any leftovers already recorded
+  useEffect(() => {
+    if (!isOpen) return;
+    const latest = [...mealItems].sort((a, b) => b.createdAt - a.createdAt)[0];
+    setMealType(latest?.mealType ?? "");
+    setEaten(Object.fromEntries(mealItems.map(item => [item.id, { ...item.eaten }])));
+  }, [isOpen]);
+
+  const shownItems = mealItems.filter(item => item.mealType === mealType);
+
+  const setChildEaten = (itemId: string, childId: string, amount: EatenAmount | undefined) => {
+    setEaten(current => ({ ...current, [itemId]: { ...current[itemId], [childId]: amount } }));
+  };
+
+  const handleSave = () => {
+    for (const item of shownItems) {
+      const recorded = Object.fromEntries(
+        Object.entries(eaten[item.id] ?? {}).filter((entry): entry is [string, EatenAmount] => entry[1] !== undefined)
+      );
+      const next = Object.keys(recorded).length > 0 ? recorded : undefined;
+      if (JSON.stringify(next) !== JSON.stringify(item.eaten)) onSave(item.id, next);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mark Leftovers</DialogTitle>
+          <DialogDescription>
+            How much of their portion did each child eat? Reports count only what was eaten.
+          </DialogDescription>
+        </DialogHeader>
+
+        {meals.length > 1 && (
+          <Select value={mealType} onValueChange={setMealType}>
+            <SelectTrigger>
+              <SelectValue placeholder="Meal" />
+            </SelectTrigger>
+            <SelectContent>
+              {meals.map(meal => (
+                <SelectItem key={meal.value} value={meal.value}>{meal.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="space-y-4">
+          {shownItems.map(item => {
+            const itemRecipients = recipients.filter(child => isItemForChild(item, child.id));
+            return (
+              <div key={item.id} className="border border-gray-200 rounded-md p-3">
+                <p className="font-medium text-sm mb-2">{item.name}</p>
+                {itemRecipients.map(child => {
+                  const amount = eaten[item.id]?.[child.id];
+                  const served = getChildQuantity(item, child.id);
+                  return (
+                    <div key={child.id} className="flex flex-wrap items-center gap-1 py-1 text-xs">
+                      <span className="w-24 truncate">
+                        {child.name || `Child ${recipients.indexOf(child) + 1}`}
+                        <span className="block text-gray-500">{formatAmount(served)} {item.unit} served</span>
+                      </span>
+                      {QUICK_PERCENTS.map(({ percent, label }) => (
+                        <button
+                          key={percent}
+                          type="button"
+                          className={`px-2 py-1 rounded border ${
+                            amount && "percent" in amount && amount.percent === percent
+                              ? "bg-primary text-white border-primary"
+                              : "border-gray-300 hover:bg-gray-100"
+                          }`}
+                          onClick={() => setChildEaten(item.id, child.id, { percent })}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        placeholder="Left"
+                        className="h-7 w-16 text-xs"
+                        value={amount && "leftover" in amount ? amount.leftover : ""}
+                        onChange={(e) => {
+                          const leftover = parseFloat(e.target.value);
+                          setChildEaten(item.id, child.id, isNaN(leftover) || leftover < 0 ? undefined : { leftover });
+                        }}
+                        aria-label={`${item.unit} left over`}
+                      />
+                      <span className="text-gray-500">{item.unit} left</span>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+          {shownItems.length === 0 && (
+            <p className="text-sm text-gray-500">No foods or drinks logged for this meal</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="button" onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { getMealPhoto } from "@/lib/storage";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface MealPhotoDialogProps {
+  photoId: string | null;
+  onClose: () => void;
+}
+
+// The photo a logged item came from
+export default function MealPhotoDialog({ photoId, onClose }: MealPhotoDialogProps) {
+  const [photo, setPhoto] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPhoto(null);
+    if (photoId) getMealPhoto(photoId).then(setPhoto);
+  }, [photoId]);
+
+  return (
+    <Dialog open={!!photoId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Meal Photo</DialogTitle>
+        </DialogHeader>
+        {photo ? (
+          <img src={photo} alt="Meal" className="w-full rounded-md" />
+        ) : (
+          <p className="text-sm text-gray-500">This photo isn't stored on this device.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
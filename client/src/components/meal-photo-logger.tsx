@@ -0,0 +1,197 @@
+import { useRef, useState } from "react";
+import type { ProposedFood } from "@shared/meal-photo";
+import { analyzeMealPhoto } from "@/lib/ai";
+import { getBrowserApiKey } from "@/lib/ai-providers";
+import { getAppSettings } from "@/lib/storage";
+import { FOOD_UNITS, DRINK_UNITS } from "@/lib/constants";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Coffee, Apple, Loader2, Plus, X } from "lucide-react";
+
+// Photos are shrunk before they are sent and stored; this is plenty to recognise a plate
+const MAX_PHOTO_SIZE = 1024;
+const PHOTO_QUALITY = 0.8;
+
+// Read a picked photo as a downscaled JPEG data URL
+function loadPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", PHOTO_QUALITY));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("That file couldn't be opened as a photo."));
+    };
+    image.src = url;
+  });
+}
+
+interface MealPhotoLoggerProps {
+  // Called with the foods the parent confirmed and the photo they came from
+  onConfirm: (foods: ProposedFood[], photo: string) => Promise<void>;
+}
+
+// Take or pick a meal photo, let the AI model propose what's on the plate, and
+// confirm or correct the proposals before they are logged
+export default function MealPhotoLogger({ onConfirm }: MealPhotoLoggerProps) {
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<ProposedFood[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePhotoPicked = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setProposals([]);
+    setIsAnalyzing(true);
+    try {
+      const dataUrl = await loadPhoto(file);
+      setPhoto(dataUrl);
+      const settings = await getAppSettings();
+      const foods = await analyzeMealPhoto({
+        image: { mimeType: "image/jpeg", data: dataUrl.split(",")[1] },
+        apiKey: getBrowserApiKey(settings),
+        model: settings.selectedModel,
+        provider: settings.aiProvider,
+        baseUrl: settings.aiBaseUrl,
+      });
+      setProposals(foods);
+      if (foods.length === 0) setError("No foods were recognised. Add them below or try another photo.");
+    } catch (photoError) {
+      setError(photoError instanceof Error ? photoError.message : "The photo couldn't be analyzed.");
+    } finally {
+      setIsAnalyzing(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const updateProposal = (index: number, changes: Partial<ProposedFood>) => {
+    setProposals(current => current.map((food, i) => (i === index ? { ...food, ...changes } : food)));
+  };
+
+  const handleConfirm = async () => {
+    if (!photo) return;
+    const foods = proposals.filter(food => food.name.trim() && food.quantity > 0);
+    try {
+      await onConfirm(foods, photo);
+      setPhoto(null);
+      setProposals([]);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "The foods couldn't be added.");
+    }
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={(e) => handlePhotoPicked(e.target.files?.[0])}
+      />
+
+      <div className="flex items-center gap-3">
+        {photo && <img src={photo} alt="Meal" className="h-16 w-16 object-cover rounded-md" />}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isAnalyzing}
+        >
+          <Camera className="mr-1 h-4 w-4" /> {photo ? "Use another photo" : "Take or choose a photo"}
+        </Button>
+        {isAnalyzing && (
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" /> Looking at the meal...
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {photo && !isAnalyzing && (
+        <div className="space-y-2">
+          {proposals.map((food, index) => {
+            const units = food.type === "drink" ? DRINK_UNITS : FOOD_UNITS;
+            return (
+              <div key={index} className="flex items-center gap-1">
+                <button
+                  type="button"
+                  className="p-1 rounded hover:bg-gray-200"
+                  onClick={() => updateProposal(index, { type: food.type === "drink" ? "food" : "drink", unit: "serving" })}
+                  aria-label={food.type === "drink" ? "Drink; switch to food" : "Food; switch to drink"}
+                >
+                  {food.type === "drink"
+                    ? <Coffee className="h-4 w-4 text-purple-500" />
+                    : <Apple className="h-4 w-4 text-green-500" />}
+                </button>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  className="h-8 w-16 text-xs"
+                  value={food.quantity}
+                  onChange={(e) => updateProposal(index, { quantity: parseFloat(e.target.value) || 0 })}
+                />
+                <Select value={food.unit} onValueChange={(unit) => updateProposal(index, { unit })}>
+                  <SelectTrigger className="h-8 w-24 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {units.map(unit => (
+                      <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className={`h-8 flex-1 text-xs ${food.confidence === "low" ? "border-amber-400" : ""}`}
+                  value={food.name}
+                  onChange={(e) => updateProposal(index, { name: e.target.value })}
+                  title={food.confidence === "low" ? "The model wasn't sure about this one" : undefined}
+                />
+                <button
+                  type="button"
+                  className="text-red-500 hover:bg-red-100 rounded-full p-1"
+                  onClick={() => setProposals(current => current.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${food.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            );
+          })}
+          {proposals.some(food => food.confidence === "low") && (
+            <p className="text-xs text-amber-600">Items outlined in amber are uncertain guesses; check them.</p>
+          )}
+
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setProposals([...proposals, { name: "", quantity: 1, unit: "serving", type: "food" }])}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add item
+            </Button>
+            <Button type="button" size="sm" onClick={handleConfirm} disabled={proposals.length === 0}>
+              Log {proposals.length} {proposals.length === 1 ? "item" : "items"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChildInfo, FoodItem, FoodPlan, PlannedItem } from "@shared/schema";
+import {
+  comparePlannedToLogged,
+  isPlannedForChild,
+  schedulePlan,
+  scheduleItem,
+  toLoggedItems,
+} from "@shared/meal-planner";
+import { getChildInfo, getFoodPlans, getPlannedItems, savePlannedItems } from "@/lib/storage";
+import { MEAL_TYPES } from "@/lib/constants";
+import GroceryListDialog from "@/components/grocery-list-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, ShoppingCart, X } from "lucide-react";
+
+// Something being dragged, or tapped and waiting to be placed on a slot
+type Placeable =
+  | { kind: "plan"; plan: FoodPlan }
+  | { kind: "food"; item: FoodItem; planId: string }
+  | { kind: "planned"; item: PlannedItem };
+
+interface PlanTarget {
+  date: string;
+  mealType?: string; // Without one, plans keep the meals their items were saved with
+}
+
+interface MealPlannerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  loggedItems: FoodItem[];
+  onApplyToLog: (items: FoodItem[]) => void;
+}
+
+const ALL_CHILDREN = "all";
+
+function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function formatAmount(amount: number): string {
+  return amount >= 10 ? String(Math.round(amount)) : String(Math.round(amount * 10) / 10);
+}
+
+// Schedule saved plans and single foods onto the days and meals ahead, per
+// child, and compare a day's plan with what was logged
+export default function MealPlannerDialog({ isOpen, onClose, loggedItems, onApplyToLog }: MealPlannerDialogProps) {
+  const today = toDateString(new Date());
+  const [view, setView] = useState<"week" | "month">("week");
+  const [anchor, setAnchor] = useState(new Date());
+  const [childFilter, setChildFilter] = useState<string | null>(null);
+  const [plans, setPlans] = useState<FoodPlan[]>([]);
+  const [plannedItems, setPlannedItems] = useState<PlannedItem[]>([]);
+  const [childInfo, setChildInfo] = useState<ChildInfo | null>(null);
+  const [picked, setPicked] = useState<Placeable | null>(null);
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
+  const [focusDate, setFocusDate] = useState(today);
+  const [isGroceryListOpen, setIsGroceryListOpen] = useState(false);
+  const draggingRef = useRef<Placeable | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getFoodPlans().then(setPlans);
+    getPlannedItems().then(setPlannedItems);
+    getChildInfo().then(info => {
+      setChildInfo(info);
+      setChildFilter(info.selectedChildId || null);
+    });
+  }, [isOpen]);
+
+  const children = childInfo?.children || [];
+  const getChildName = (childId: string) => {
+    const index = children.findIndex(child => child.id === childId);
+    return children[index]?.name || `Child ${index + 1}`;
+  };
+
+  const dates = useMemo(() => {
+    const start = view === "week" ? anchor : startOfMonth(anchor);
+    const end = view === "week" ? anchor : endOfMonth(anchor);
+    return eachDayOfInterval({
+      start: startOfWeek(start, { weekStartsOn: 1 }),
+      end: endOfWeek(end, { weekStartsOn: 1 }),
+    });
+  }, [view, anchor]);
+
+  const shownItems = plannedItems.filter(item => isPlannedForChild(item, childFilter));
+  const itemsOn = (date: string, mealType?: string) =>
+    shownItems.filter(item => item.date === date && (!mealType || item.mealType === mealType));
+
+  const updatePlannedItems = async (items: PlannedItem[]) => {
+    setPlannedItems(items);
+    await savePlannedItems(items);
+  };
+
+  const place = (target: PlanTarget, placeable: Placeable | null) => {
+    if (!placeable) return;
+    if (placeable.kind === "plan") {
+      updatePlannedItems([...plannedItems, ...schedulePlan(placeable.plan, target.date, childFilter, target.mealType)]);
+    } else if (placeable.kind === "food") {
+      const item = scheduleItem(placeable.item, target.date, target.mealType ?? placeable.item.mealType, childFilter, placeable.planId);
+      updatePlannedItems([...plannedItems, item]);
+    } else {
+      updatePlannedItems(plannedItems.map(item => item.id === placeable.item.id
+        ? { ...item, date: target.date, mealType: target.mealType ?? item.mealType, appliedAt: undefined }
+        : item));
+    }
+    setPicked(null);
+  };
+
+  // Drop targets also take a tapped item, for touch screens without drag and drop
+  const dropTarget = (target: PlanTarget) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      place(target, draggingRef.current);
+      draggingRef.current = null;
+    },
+    onClick: () => {
+      if (picked) place(target, picked);
+      else setFocusDate(target.date);
+    },
+  });
+
+  const draggable = (placeable: Placeable) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData("text/plain", placeable.kind);
+      draggingRef.current = placeable;
+    },
+    onClick: (e: React.MouseEvent) => {
+      e.stopPropagation();
+      setPicked(isPicked(placeable) ? null : placeable);
+    },
+  });
+
+  const isPicked = (placeable: Placeable) => {
+    if (!picked || picked.kind !== placeable.kind) return false;
+    if (picked.kind === "plan" && placeable.kind === "plan") return picked.plan.id === placeable.plan.id;
+    if (picked.kind !== "plan" && placeable.kind !== "plan") return picked.item.id === placeable.item.id;
+    return false;
+  };
+
+  const renderPlannedItem = (item: PlannedItem) => (
+    <div
+      key={item.id}
+      {...draggable({ kind: "planned", item })}
+      className={`flex items-center gap-1 rounded px-1 py-0.5 text-[11px] cursor-grab bg-purple-50 border ${
+        isPicked({ kind: "planned", item }) ? "border-primary ring-1 ring-primary" : "border-purple-100"
+      } ${item.appliedAt ? "opacity-60" : ""}`}
+      title={item.childIds?.length === 1 ? `For ${getChildName(item.childIds[0])}` : "For every child"}
+    >
+      <span className="flex-1 truncate">{item.quantity} {item.unit} {item.name}</span>
+      <button
+        type="button"
+        className="text-red-500 hover:bg-red-100 rounded-full"
+        onClick={(e) => {
+          e.stopPropagation();
+          updatePlannedItems(plannedItems.filter(planned => planned.id !== item.id));
+        }}
+        aria-label={`Remove ${item.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+
+  // The day being compared
+  const focusPlanned = itemsOn(focusDate);
+  const comparison = comparePlannedToLogged(
+    focusPlanned,
+    loggedItems.filter(item => item.date === focusDate),
+    childFilter
+  );
+  const unappliedToday = itemsOn(today).filter(item => !item.appliedAt);
+
+  const handleApply = async () => {
+    onApplyToLog(toLoggedItems(unappliedToday));
+    const appliedIds = new Set(unappliedToday.map(item => item.id));
+    await updatePlannedItems(plannedItems.map(item => appliedIds.has(item.id) ? { ...item, appliedAt: Date.now() } : item));
+  };
+
+  // The month itself, without the neighbouring days that fill out its weeks
+  const shownRange = view === "week"
+    ? { from: toDateString(dates[0]), to: toDateString(dates[dates.length - 1]) }
+    : { from: toDateString(startOfMonth(anchor)), to: toDateString(endOfMonth(anchor)) };
+
+  const rangeLabel = view === "week"
+    ? `${format(dates[0], "MMM d")} – ${format(dates[dates.length - 1], "MMM d, yyyy")}`
+    : format(anchor, "MMMM yyyy");
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Meal Planner</DialogTitle>
+          <DialogDescription>
+            Drag a plan or a single food onto a day or meal, or tap it and then tap where it goes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-md border border-gray-200 overflow-hidden">
+            {(["week", "month"] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                className={`px-3 py-1 text-sm ${view === option ? "bg-primary text-white" : "hover:bg-gray-50"}`}
+                onClick={() => setView(option)}
+              >
+                {option === "week" ? "Week" : "Month"}
+              </button>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setAnchor(view === "week" ? addWeeks(anchor, -1) : addMonths(anchor, -1))}
+            aria-label="Previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setAnchor(new Date())}>Today</Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setAnchor(view === "week" ? addWeeks(anchor, 1) : addMonths(anchor, 1))}
+            aria-label="Next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium">{rangeLabel}</span>
+          <Button type="button" variant="outline" size="sm" onClick={() => setIsGroceryListOpen(true)}>
+            <ShoppingCart className="mr-1 h-4 w-4" /> Grocery list
+          </Button>
+          {children.length > 1 && (
+            <Select value={childFilter ?? ALL_CHILDREN} onValueChange={(value) => setChildFilter(value === ALL_CHILDREN ? null : value)}>
+              <SelectTrigger className="h-8 w-40 ml-auto text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CHILDREN}>All children</SelectItem>
+                {children.map(child => (
+                  <SelectItem key={child.id} value={child.id}>{getChildName(child.id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          {/* Saved plans and their foods, to drag onto the calendar */}
+          <div className="md:w-48 shrink-0 space-y-1">
+            <p className="text-xs font-medium text-gray-500">Plans</p>
+            {plans.length === 0 && <p className="text-xs text-gray-500">Save a food plan to schedule it here.</p>}
+            {plans.map(plan => (
+              <div key={plan.id}>
+                <div
+                  {...draggable({ kind: "plan", plan })}
+                  className={`flex items-center gap-1 rounded border px-2 py-1 text-sm cursor-grab ${
+                    isPicked({ kind: "plan", plan }) ? "border-primary ring-1 ring-primary" : "border-gray-200 hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="flex-1 truncate">{plan.name}</span>
+                  <button
+                    type="button"
+                    className="text-gray-500"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setExpandedPlanId(expandedPlanId === plan.id ? null : plan.id);
+                    }}
+                    aria-label={expandedPlanId === plan.id ? "Hide foods" : "Show foods"}
+                  >
+                    {expandedPlanId === plan.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </button>
+                </div>
+                {expandedPlanId === plan.id && (
+                  <div className="ml-2 mt-1 space-y-1">
+                    {plan.items.filter(item => item.type !== "supplement").map(item => (
+                      <div
+                        key={item.id}
+                        {...draggable({ kind: "food", item, planId: plan.id })}
+                        className={`rounded border px-2 py-0.5 text-xs cursor-grab truncate ${
+                          isPicked({ kind: "food", item, planId: plan.id }) ? "border-primary ring-1 ring-primary" : "border-gray-200 hover:bg-gray-50"
+                        }`}
+                      >
+                        {item.quantity} {item.unit} {item.name}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Calendar */}
+          <div className="flex-1 overflow-x-auto">
+            {view === "week" ? (
+              <table className="w-full min-w-[640px] table-fixed text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="w-24" />
+                    {dates.map(date => {
+                      const dateString = toDateString(date);
+                      return (
+                        <th
+                          key={dateString}
+                          {...dropTarget({ date: dateString })}
+                          className={`p-1 font-medium cursor-pointer rounded ${
+                            dateString === focusDate ? "bg-primary/10 text-primary" : ""
+                          } ${dateString === today ? "underline" : ""}`}
+                        >
+                          {format(date, "EEE d")}
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {MEAL_TYPES.map(meal => (
+                    <tr key={meal.value}>
+                      <td className="p-1 text-gray-500 align-top">{meal.label}</td>
+                      {dates.map(date => {
+                        const dateString = toDateString(date);
+                        return (
+                          <td
+                            key={dateString}
+                            {...dropTarget({ date: dateString, mealType: meal.value })}
+                            className={`p-1 align-top border border-gray-100 h-10 ${picked ? "hover:bg-primary/5 cursor-pointer" : ""}`}
+                          >
+                            <div className="space-y-0.5">
+                              {itemsOn(dateString, meal.value).map(renderPlannedItem)}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="grid grid-cols-7 gap-1 min-w-[560px] text-xs">
+                {dates.slice(0, 7).map(date => (
+                  <div key={date.toISOString()} className="text-center font-medium text-gray-500">{format(date, "EEE")}</div>
+                ))}
+                {dates.map(date => {
+                  const dateString = toDateString(date);
+                  const dayItems = itemsOn(dateString);
+                  return (
+                    <div
+                      key={dateString}
+                      {...dropTarget({ date: dateString })}
+                      className={`min-h-20 p-1 border rounded cursor-pointer ${
+                        dateString === focusDate ? "border-primary" : "border-gray-100"
+                      } ${isSameMonth(date, anchor) ? "" : "opacity-50"}`}
+                    >
+                      <div className={`text-right ${dateString === today ? "font-bold text-primary" : ""}`}>{format(date, "d")}</div>
+                      {dayItems.slice(0, 3).map(item => (
+                        <div key={item.id} className="truncate text-[11px]">{item.name}</div>
+                      ))}
+                      {dayItems.length > 3 && <div className="text-[11px] text-gray-500">+{dayItems.length - 3} more</div>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* The selected day's plan against its log */}
+        <div className="border-t border-gray-200 pt-3 space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="font-semibold text-sm">
+              Planned vs. logged, {focusDate === today ? "today" : format(parseISO(focusDate), "EEE, MMM d")}
+              {childFilter && ` for ${getChildName(childFilter)}`}
+            </h4>
+            {focusDate === today && unappliedToday.length > 0 && (
+              <Button type="button" size="sm" onClick={handleApply}>
+                Add {unappliedToday.length} planned {unappliedToday.length === 1 ? "item" : "items"} to today's log
+              </Button>
+            )}
+          </div>
+          {focusPlanned.length === 0 ? (
+            <p className="text-xs text-gray-500">Nothing planned for this day.</p>
+          ) : (
+            <>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-medium">Nutrient</th>
+                    <th className="font-medium">Planned</th>
+                    <th className="font-medium">Logged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.nutrients.map(row => (
+                    <tr key={row.key} className="border-t border-gray-100">
+                      <td className="py-0.5">{row.name}</td>
+                      <td className="py-0.5">{formatAmount(row.planned)} {row.unit}</td>
+                      <td className={`py-0.5 ${row.logged < row.planned * 0.8 ? "text-amber-700" : ""}`}>
+                        {formatAmount(row.logged)} {row.unit}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {comparison.missed.length > 0 && (
+                <p className="text-xs text-amber-700">Planned but not logged: {comparison.missed.join(", ")}</p>
+              )}
+              {comparison.extra.length > 0 && (
+                <p className="text-xs text-gray-600">Logged but not planned: {comparison.extra.join(", ")}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <GroceryListDialog
+          isOpen={isGroceryListOpen}
+          onClose={() => setIsGroceryListOpen(false)}
+          from={shownRange.from}
+          to={shownRange.to}
+          childIds={children.map(child => child.id)}
+          childId={childFilter}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import { NutritionFacts } from "@shared/schema";
+import { X } from "lucide-react";
+
+// Label nutrition picked for the item being entered, from a barcode or a custom food
+export interface LabelSelection {
+  name: string;
+  barcode?: string;
+  facts: NutritionFacts;
+}
+
+interface NutritionFactsSummaryProps {
+  selection: LabelSelection;
+  onRemove: () => void;
+}
+
+// The label values that will be saved with the item
+export default function NutritionFactsSummary({ selection, onRemove }: NutritionFactsSummaryProps) {
+  const { facts } = selection;
+  const calories = facts.nutrients.calories;
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 bg-green-50 border border-green-200 rounded-md text-xs text-green-800">
+      <span>
+        {facts.source === "custom" ? "Custom food" : "Label nutrition"} for {selection.name}
+        {calories !== undefined ? `: ${Math.round(calories)} kcal` : ""} per {facts.servingLabel ?? `${facts.servingSize} ${facts.servingUnit}`}
+      </span>
+      <button
+        type="button"
+        className="text-green-700 hover:bg-green-100 rounded-full p-1"
+        onClick={onRemove}
+        aria-label="Don't use label nutrition"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
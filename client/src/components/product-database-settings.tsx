@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from "react";
+import { parseProductDump, mergeProducts } from "@shared/product-database";
+import { getProducts, saveProducts, clearProducts } from "@/lib/storage";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Upload, Trash2 } from "lucide-react";
+
+// Import and clear the local packaged-food database used for barcode lookups
+export default function ProductDatabaseSettings() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [productCount, setProductCount] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    getProducts().then(products => setProductCount(products.length));
+  }, []);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const { products, skipped } = parseProductDump(await file.text());
+      if (products.length === 0) {
+        toast({
+          title: "No Products Found",
+          description: "The file has no products with a barcode, name and nutrition values.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const merged = mergeProducts(await getProducts(), products);
+      await saveProducts(merged);
+      setProductCount(merged.length);
+      toast({
+        title: "Products Imported",
+        description: `Imported ${products.length} products${skipped > 0 ? ` (${skipped} entries skipped)` : ""}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The file could not be imported.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleClear = async () => {
+    await clearProducts();
+    setProductCount(0);
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border p-4">
+      <h3 className="font-semibold text-lg mb-1">Product Database</h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Import an Open Food Facts product export (JSON, JSON Lines or CSV) to look up packaged foods by barcode.
+        Products are stored on this device only.
+      </p>
+      <div className="flex items-center justify-between">
+        <span className="text-sm">{productCount} products</span>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.jsonl,.ndjson,.csv,.tsv,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+          <Button type="button" variant="outline" size="sm" disabled={isImporting} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-1 h-4 w-4" /> {isImporting ? "Importing..." : "Import"}
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={productCount === 0} onClick={handleClear}>
+            <Trash2 className="mr-1 h-4 w-4" /> Clear
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
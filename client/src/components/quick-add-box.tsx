@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { ChildInfo, CustomFood, FoodItem, Recipe } from "@shared/schema";
+import { parseQuickAdd, type QuickAddResult, type QuickAddVocabulary } from "@shared/quick-add";
+import { customFoodToNutritionFacts, findCustomFood } from "@shared/custom-foods";
+import { findRecipe, toRecipeSnapshot } from "@shared/recipes";
+import { parseQuickAddWithAI } from "@/lib/ai";
+import { getBrowserApiKey } from "@/lib/ai-providers";
+import { getAppSettings, getChildInfo, getCustomFoods, getRecipes } from "@/lib/storage";
+import { FOOD_UNITS, DRINK_UNITS, MEAL_TYPES } from "@/lib/constants";
+import { getDefaultMealType } from "@/components/food-item-list";
+import QuickAddReview from "@/components/quick-add-review";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2, Sparkles, Zap } from "lucide-react";
+
+interface QuickAddBoxProps {
+  onAddFood: (food: FoodItem) => void;
+  selectedDate?: string;
+}
+
+// Type what was eaten in a sentence, check what was understood, then add it
+// all at once
+export default function QuickAddBox({ onAddFood, selectedDate }: QuickAddBoxProps) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<QuickAddResult | null>(null);
+  const [mealType, setMealType] = useState(getDefaultMealType());
+  const [childInfo, setChildInfo] = useState<ChildInfo | null>(null);
+  const [customFoods, setCustomFoods] = useState<CustomFood[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isAskingAI, setIsAskingAI] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getChildInfo().then(setChildInfo);
+    getCustomFoods().then(setCustomFoods);
+    getRecipes().then(setRecipes);
+  }, []);
+
+  const children = childInfo?.children || [];
+  const vocabulary: QuickAddVocabulary = {
+    foodUnits: FOOD_UNITS,
+    drinkUnits: DRINK_UNITS,
+    mealTypes: MEAL_TYPES,
+    children: children.map(child => ({ id: child.id, name: child.name ?? "" })),
+  };
+
+  const showResult = (parsed: QuickAddResult) => {
+    setResult(parsed);
+    setMealType(parsed.mealType ?? getDefaultMealType());
+  };
+
+  const handleParse = () => {
+    setError(null);
+    if (!text.trim()) return;
+    const parsed = parseQuickAdd(text, vocabulary);
+    showResult(parsed);
+    if (parsed.items.length === 0) setError("No foods were recognised. Try \"2 eggs and a glass of milk\".");
+  };
+
+  const handleAskAI = async () => {
+    setError(null);
+    setIsAskingAI(true);
+    try {
+      const settings = await getAppSettings();
+      const parsed = await parseQuickAddWithAI({
+        text,
+        vocabulary,
+        apiKey: getBrowserApiKey(settings),
+        model: settings.selectedModel,
+        provider: settings.aiProvider,
+        baseUrl: settings.aiBaseUrl,
+      });
+      showResult(parsed);
+      if (parsed.items.length === 0) setError("The AI model didn't find any foods in the note either.");
+    } catch (aiError) {
+      setError(aiError instanceof Error ? aiError.message : "The note couldn't be read with AI.");
+    } finally {
+      setIsAskingAI(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!result) return;
+    const childIds = result.childIds;
+    for (const item of result.items) {
+      const customFood = findCustomFood(customFoods, item.name);
+      const recipe = customFood ? undefined : findRecipe(recipes, item.name);
+      onAddFood({
+        id: crypto.randomUUID(),
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        mealType,
+        type: item.type,
+        nutritionFacts: customFood ? customFoodToNutritionFacts(customFood) : undefined,
+        recipe: recipe ? toRecipeSnapshot(recipe) : undefined,
+        createdAt: Date.now(),
+        date: selectedDate || new Date().toISOString().split('T')[0],
+        childIds: childIds.length > 0 ? childIds : undefined,
+        childId: childIds.length === 1 ? childIds[0] : undefined,
+      } as FoodItem);
+    }
+    setText("");
+    setResult(null);
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setResult(null);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleParse();
+            }
+          }}
+          placeholder="Quick add, e.g. 2 scrambled eggs and half a cup of milk for breakfast"
+          className="text-sm"
+          aria-label="Quick add"
+        />
+        <Button type="button" variant="outline" size="sm" className="h-10" onClick={handleParse} disabled={!text.trim()}>
+          <Zap className="mr-1 h-4 w-4" /> Read
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <QuickAddReview
+          result={result}
+          onResultChange={setResult}
+          mealType={mealType}
+          onMealTypeChange={setMealType}
+          children={children}
+          onConfirm={handleAdd}
+          actions={
+            <Button type="button" variant="ghost" size="sm" onClick={handleAskAI} disabled={isAskingAI}>
+              {isAskingAI
+                ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                : <Sparkles className="mr-1 h-4 w-4" />}
+              Read with AI
+            </Button>
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import type { ReactNode } from "react";
+import { Child } from "@shared/schema";
+import type { QuickAddResult } from "@shared/quick-add";
+import { MEAL_TYPES } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Apple, Coffee, X } from "lucide-react";
+
+interface QuickAddReviewProps {
+  result: QuickAddResult;
+  onResultChange: (result: QuickAddResult) => void;
+  mealType: string;
+  onMealTypeChange: (mealType: string) => void;
+  children: Child[];
+  onConfirm: () => void;
+  // Extra buttons shown next to the add button
+  actions?: ReactNode;
+}
+
+function formatQuantity(quantity: number): string {
+  return String(Math.round(quantity * 100) / 100);
+}
+
+// What was understood from typed or spoken text, to check before it is added
+export default function QuickAddReview({
+  result,
+  onResultChange,
+  mealType,
+  onMealTypeChange,
+  children,
+  onConfirm,
+  actions,
+}: QuickAddReviewProps) {
+  const mentionedChildren = children.filter(child => result.childIds.includes(child.id));
+
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+      {result.items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          {item.type === "drink"
+            ? <Coffee className="h-4 w-4 text-purple-500" />
+            : <Apple className="h-4 w-4 text-green-500" />}
+          <span className="flex-1">
+            {formatQuantity(item.quantity)} {item.unit} <span className="font-medium">{item.name}</span>
+          </span>
+          <button
+            type="button"
+            className="text-red-500 hover:bg-red-100 rounded-full p-1"
+            onClick={() => onResultChange({ ...result, items: result.items.filter((_, i) => i !== index) })}
+            aria-label={`Remove ${item.name}`}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      {result.unparsed.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Not understood: {result.unparsed.map(part => `"${part}"`).join(", ")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={mealType} onValueChange={onMealTypeChange}>
+          <SelectTrigger className="h-8 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MEAL_TYPES.map(meal => (
+              <SelectItem key={meal.value} value={meal.value}>{meal.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {mentionedChildren.length > 0 && (
+          <span className="text-xs text-gray-600">
+            For {mentionedChildren.map(child => child.name).join(", ")}
+          </span>
+        )}
+      </div>
+
+      <div className="flex justify-between">
+        <div>{actions}</div>
+        <Button type="button" size="sm" onClick={onConfirm} disabled={result.items.length === 0}>
+          Add {result.items.length} {result.items.length === 1 ? "item" : "items"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Recipe } from "@shared/schema";
+import { findCustomFood, customFoodToNutritionFacts } from "@shared/custom-foods";
+import { FOOD_UNITS, DRINK_UNITS } from "@/lib/constants";
+import { getCustomFoods, saveRecipe } from "@/lib/storage";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Plus, X } from "lucide-react";
+
+// Units for ingredients: everything offered for foods and drinks
+const INGREDIENT_UNITS = [...FOOD_UNITS, ...DRINK_UNITS].filter(
+  (unit, index, units) => units.findIndex(u => u.value === unit.value) === index
+);
+
+const recipeFormSchema = z.object({
+  name: z.string().trim().min(1, "Recipe name is required"),
+  servings: z.coerce.number().positive("Servings must be more than 0"),
+  // Optional total amount the recipe makes; blank when unknown
+  yieldAmount: z.string().optional(),
+  yieldUnit: z.enum(["g", "ml", "cup"]),
+  notes: z.string().optional(),
+  ingredients: z.array(z.object({
+    name: z.string().trim().min(1, "Ingredient name is required"),
+    quantity: z.coerce.number().positive("Quantity must be more than 0"),
+    unit: z.string().min(1),
+  })).min(1, "Add at least one ingredient"),
+});
+
+type RecipeFormValues = z.infer<typeof recipeFormSchema>;
+
+interface RecipeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  recipe?: Recipe | null; // Recipe to edit; a new recipe is created when absent
+  initialName?: string;
+  onSaved: (recipe: Recipe) => void;
+}
+
+const EMPTY_INGREDIENT = { name: "", quantity: 1, unit: "cup" };
+
+function toFormValues(recipe: Recipe | null | undefined, initialName?: string): RecipeFormValues {
+  return {
+    name: recipe?.name ?? initialName ?? "",
+    servings: recipe?.servings ?? 4,
+    yieldAmount: recipe?.yieldAmount !== undefined ? String(recipe.yieldAmount) : "",
+    yieldUnit: recipe?.yieldUnit ?? "g",
+    notes: recipe?.notes ?? "",
+    ingredients: recipe?.ingredients.map(({ name, quantity, unit }) => ({ name, quantity, unit })) ?? [EMPTY_INGREDIENT],
+  };
+}
+
+// Create or edit a homemade recipe from its ingredients
+export default function RecipeDialog({ isOpen, onClose, recipe, initialName, onSaved }: RecipeDialogProps) {
+  const form = useForm<RecipeFormValues>({
+    resolver: zodResolver(recipeFormSchema),
+    defaultValues: toFormValues(recipe, initialName),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "ingredients" });
+
+  useEffect(() => {
+    if (isOpen) form.reset(toFormValues(recipe, initialName));
+  }, [isOpen, recipe, initialName, form]);
+
+  const handleSave = async (values: RecipeFormValues) => {
+    // Ingredients named like a custom food use its label
+    const customFoods = await getCustomFoods();
+    const yieldAmount = parseFloat(values.yieldAmount ?? "");
+
+    const saved: Recipe = {
+      id: recipe?.id ?? crypto.randomUUID(),
+      name: values.name.trim(),
+      servings: values.servings,
+      yieldAmount: yieldAmount > 0 ? yieldAmount : undefined,
+      yieldUnit: yieldAmount > 0 ? values.yieldUnit : undefined,
+      notes: values.notes?.trim() || undefined,
+      ingredients: values.ingredients.map(ingredient => {
+        const customFood = findCustomFood(customFoods, ingredient.name);
+        return {
+          name: ingredient.name.trim(),
+          quantity: ingredient.quantity,
+          unit: ingredient.unit,
+          nutritionFacts: customFood ? customFoodToNutritionFacts(customFood) : undefined,
+        };
+      }),
+      createdAt: recipe?.createdAt ?? Date.now(),
+    };
+    await saveRecipe(saved);
+    onSaved(saved);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recipe ? "Edit Recipe" : "New Recipe"}</DialogTitle>
+          <DialogDescription>
+            List the ingredients for the whole recipe. Logged portions are counted as their share of it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          {/* Keep the submit from reaching a form this dialog is opened from */}
+          <form
+            onSubmit={(e) => {
+              e.stopPropagation();
+              form.handleSubmit(handleSave)(e);
+            }}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Recipe Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Lasagna" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2">
+              <FormField
+                control={form.control}
+                name="servings"
+                render={({ field }) => (
+                  <FormItem className="w-1/3">
+                    <FormLabel>Servings</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="yieldAmount"
+                render={({ field }) => (
+                  <FormItem className="w-1/3">
+                    <FormLabel>Yield (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" placeholder="Total" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="yieldUnit"
+                render={({ field }) => (
+                  <FormItem className="w-1/3">
+                    <FormLabel>&nbsp;</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="g">gram(s)</SelectItem>
+                        <SelectItem value="ml">milliliter(s)</SelectItem>
+                        <SelectItem value="cup">cup(s)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">
+              With a yield, portions can also be logged by weight or volume.
+            </p>
+
+            <div className="space-y-2">
+              <FormLabel>Ingredients</FormLabel>
+              {fields.map((ingredient, index) => (
+                <div key={ingredient.id} className="flex gap-2 items-start">
+                  <FormField
+                    control={form.control}
+                    name={`ingredients.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input type="number" min="0" step="any" className="h-9" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`ingredients.${index}.unit`}
+                    render={({ field }) => (
+                      <FormItem className="w-28">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {INGREDIENT_UNITS.map(unit => (
+                              <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`ingredients.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input placeholder="e.g., Ricotta cheese" className="h-9" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <button
+                    type="button"
+                    className="text-red-500 hover:bg-red-100 rounded-full p-1 mt-1.5"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                    aria-label="Remove ingredient"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => append(EMPTY_INGREDIENT)}>
+                <Plus className="mr-1 h-4 w-4" /> Add Ingredient
+              </Button>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-[60px]" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit">Save Recipe</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
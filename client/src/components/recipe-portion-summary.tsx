@@ -0,0 +1,26 @@
+import { Recipe } from "@shared/schema";
+import { X } from "lucide-react";
+
+interface RecipePortionSummaryProps {
+  recipe: Recipe;
+  onRemove: () => void;
+}
+
+// The recipe a portion is being logged from
+export default function RecipePortionSummary({ recipe, onRemove }: RecipePortionSummaryProps) {
+  return (
+    <div className="p-2 bg-amber-50 border border-amber-200 rounded-md text-xs text-amber-900 flex items-center justify-between gap-2">
+      <span>
+        Recipe: {recipe.name} - {recipe.servings} servings from {recipe.ingredients.length} ingredients
+      </span>
+      <button
+        type="button"
+        className="text-amber-700 hover:bg-amber-100 rounded-full p-1"
+        onClick={onRemove}
+        aria-label="Don't use recipe"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
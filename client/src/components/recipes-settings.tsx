@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Recipe } from "@shared/schema";
+import { getRecipes, deleteRecipe } from "@/lib/storage";
+import RecipeDialog from "@/components/recipe-dialog";
+import { Button } from "@/components/ui/button";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+// List, add, edit and delete homemade recipes
+export default function RecipesSettings() {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadRecipes = async () => {
+    const loaded = await getRecipes();
+    setRecipes([...loaded].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  useEffect(() => {
+    loadRecipes();
+  }, []);
+
+  const handleDelete = async (recipe: Recipe) => {
+    await deleteRecipe(recipe.id);
+    await loadRecipes();
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border p-4">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="font-semibold text-lg">Recipes</h3>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="flex items-center gap-1"
+          onClick={() => {
+            setEditingRecipe(null);
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4" /> Add
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        Homemade dishes are logged as one item and counted from their ingredients.
+      </p>
+
+      {recipes.length === 0 ? (
+        <p className="text-sm text-gray-500">No recipes yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {recipes.map(recipe => (
+            <li key={recipe.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium">{recipe.name}</p>
+                <p className="text-xs text-gray-500">
+                  {recipe.ingredients.length} ingredients, {recipe.servings} servings
+                  {recipe.yieldAmount ? `, makes ${recipe.yieldAmount} ${recipe.yieldUnit}` : ""}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  className="text-gray-500 hover:bg-gray-100 rounded-full p-1"
+                  onClick={() => {
+                    setEditingRecipe(recipe);
+                    setIsDialogOpen(true);
+                  }}
+                  aria-label={`Edit ${recipe.name}`}
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  className="text-red-500 hover:bg-red-100 rounded-full p-1"
+                  onClick={() => handleDelete(recipe)}
+                  aria-label={`Delete ${recipe.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <RecipeDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        recipe={editingRecipe}
+        onSaved={loadRecipes}
+      />
+    </div>
+  );
+}
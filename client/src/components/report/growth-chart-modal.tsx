@@ -0,0 +1,377 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { format } from "date-fns";
+import Chart from "chart.js/auto";
+import { ChildInfo, Child, GrowthMeasurement } from "@shared/schema";
+import { toDriSex } from "@shared/dietary-reference-intakes";
+import {
+  GROWTH_INDICATORS,
+  assessMeasurement,
+  getMeasurementHistory,
+  getPercentileCurves,
+  saveMeasurement,
+  deleteMeasurement,
+  type GrowthIndicator,
+  type GrowthAssessment,
+} from "@shared/growth-standards";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getChildInfo, saveChildInfo } from "@/lib/storage";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+
+interface GrowthChartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChildInfoChange?: (info: ChildInfo) => void;
+}
+
+const CURVE_COLORS: Record<number, string> = {
+  5: "rgba(239, 68, 68, 0.5)",
+  25: "rgba(42, 147, 213, 0.4)",
+  50: "rgba(42, 147, 213, 0.8)",
+  75: "rgba(42, 147, 213, 0.4)",
+  95: "rgba(239, 68, 68, 0.5)",
+};
+
+function formatAge(ageInMonths: number): string {
+  if (ageInMonths < 24) return `${Math.floor(ageInMonths)} mo`;
+  const years = Math.floor(ageInMonths / 12);
+  const months = Math.floor(ageInMonths % 12);
+  return months > 0 ? `${years} y ${months} mo` : `${years} y`;
+}
+
+function formatPercentile(percentile: number): string {
+  if (percentile < 1) return "<1st";
+  if (percentile > 99) return ">99th";
+  const rounded = Math.round(percentile);
+  const suffix = rounded % 10 === 1 && rounded !== 11 ? "st"
+    : rounded % 10 === 2 && rounded !== 12 ? "nd"
+    : rounded % 10 === 3 && rounded !== 13 ? "rd"
+    : "th";
+  return `${rounded}${suffix}`;
+}
+
+export default function GrowthChartModal({ isOpen, onClose, onChildInfoChange }: GrowthChartModalProps) {
+  const [childInfo, setChildInfo] = useState<ChildInfo | null>(null);
+  const [childId, setChildId] = useState<string | null>(null);
+  const [indicator, setIndicator] = useState<GrowthIndicator>("weight-for-age");
+  const [newDate, setNewDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [newWeight, setNewWeight] = useState("");
+  const [newHeight, setNewHeight] = useState("");
+  const chartRef = useRef<HTMLCanvasElement | null>(null);
+  const chartInstance = useRef<Chart | null>(null);
+  const { toast } = useToast();
+
+  // Load child information when the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    getChildInfo().then(info => {
+      setChildInfo(info);
+      setChildId(info.selectedChildId || info.children[0]?.id || null);
+    });
+  }, [isOpen]);
+
+  const child = childInfo?.children.find(c => c.id === childId);
+  const sex = toDriSex(child?.gender);
+
+  const assessments = useMemo(() => {
+    if (!child) return [];
+    return getMeasurementHistory(child)
+      .map(measurement => assessMeasurement(child, measurement))
+      .filter((assessment): assessment is GrowthAssessment => assessment !== null);
+  }, [child]);
+
+  const latest = assessments[assessments.length - 1];
+
+  // Draw the reference curves with the child's measurements on top
+  useEffect(() => {
+    if (!chartRef.current || !sex || assessments.length === 0) return;
+
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    const points = assessments
+      .filter(assessment => assessment.results[indicator])
+      .map(assessment => ({ x: assessment.ageInMonths / 12, y: assessment.results[indicator]!.value }));
+
+    // Show a year either side of the measurements
+    const fromMonths = Math.max(0, assessments[0].ageInMonths - 12);
+    const toMonths = assessments[assessments.length - 1].ageInMonths + 12;
+    const curves = getPercentileCurves(indicator, sex, fromMonths, toMonths);
+    const unit = GROWTH_INDICATORS.find(i => i.value === indicator)?.unit;
+
+    const ctx = chartRef.current.getContext("2d");
+    if (ctx) {
+      chartInstance.current = new Chart(ctx, {
+        type: "line",
+        data: {
+          datasets: [
+            ...curves.map(curve => ({
+              label: `${formatPercentile(curve.percentile)} percentile`,
+              data: curve.points.map(point => ({ x: point.ageInMonths / 12, y: point.value })),
+              borderColor: CURVE_COLORS[curve.percentile] || "rgba(0, 0, 0, 0.3)",
+              borderWidth: curve.percentile === 50 ? 2 : 1,
+              borderDash: curve.percentile === 50 ? [] : [5, 5],
+              pointRadius: 0,
+              fill: false,
+            })),
+            {
+              label: child?.name || "Child",
+              data: points,
+              borderColor: "rgba(107, 70, 193, 1)",
+              backgroundColor: "rgba(107, 70, 193, 1)",
+              borderWidth: 2,
+              pointRadius: 4,
+              fill: false,
+            },
+          ],
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          scales: {
+            x: {
+              type: "linear",
+              title: { display: true, text: "Age (years)" },
+            },
+            y: {
+              title: { display: true, text: unit },
+            },
+          },
+          plugins: {
+            legend: {
+              labels: { boxWidth: 12, font: { size: 10 } },
+            },
+          },
+        },
+      });
+    }
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy();
+        chartInstance.current = null;
+      }
+    };
+  }, [assessments, indicator, sex, child?.name]);
+
+  const updateChild = async (updated: Child) => {
+    if (!childInfo) return;
+    const info = {
+      ...childInfo,
+      children: childInfo.children.map(c => (c.id === updated.id ? updated : c)),
+    };
+    try {
+      await saveChildInfo(info);
+      setChildInfo(info);
+      onChildInfoChange?.(info);
+    } catch (error) {
+      console.error("Error saving measurements:", error);
+      toast({
+        title: "Error Saving Measurement",
+        description: "There was a problem saving the measurement. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddMeasurement = async () => {
+    if (!child) return;
+    const weight = newWeight ? parseFloat(newWeight) : null;
+    const height = newHeight ? parseFloat(newHeight) : null;
+    if ((weight === null || isNaN(weight)) && (height === null || isNaN(height))) {
+      toast({
+        title: "Missing Measurement",
+        description: "Enter a weight, a height or both.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const measurement: GrowthMeasurement = {
+      id: crypto.randomUUID(),
+      date: newDate,
+      weight: weight !== null && !isNaN(weight) ? weight : null,
+      height: height !== null && !isNaN(height) ? height : null,
+      weightUnit: child.weightUnit,
+      heightUnit: child.heightUnit,
+    };
+    await updateChild(saveMeasurement(child, measurement));
+    setNewWeight("");
+    setNewHeight("");
+  };
+
+  const handleDeleteMeasurement = async (measurementId: string) => {
+    if (!child) return;
+    await updateChild(deleteMeasurement(child, measurementId));
+  };
+
+  const history = child ? getMeasurementHistory(child).reverse() : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Growth Chart</DialogTitle>
+          <DialogDescription>
+            Weight, height and BMI percentiles from the WHO standards (under 2) and CDC charts (2-20 years)
+          </DialogDescription>
+        </DialogHeader>
+
+        {childInfo && childInfo.children.length > 1 && (
+          <Select value={childId || undefined} onValueChange={setChildId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a child" />
+            </SelectTrigger>
+            <SelectContent>
+              {childInfo.children.map((c, index) => (
+                <SelectItem key={c.id} value={c.id}>{c.name || `Child ${index + 1}`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {child && (!child.dateOfBirth || !sex) && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+            Add a date of birth and gender in the settings to see percentiles for {child.name || "this child"}.
+          </div>
+        )}
+
+        {latest && (
+          <div className="grid grid-cols-3 gap-2">
+            {GROWTH_INDICATORS.map(({ value, label }) => {
+              const result = latest.results[value];
+              return (
+                <div key={value} className="bg-gradient-to-br from-primary/10 to-primary/20 rounded-lg p-3 shadow-sm">
+                  <h4 className="text-primary text-xs font-semibold">{label}</h4>
+                  <p className="text-xl font-bold">{result ? formatPercentile(result.percentile) : "-"}</p>
+                  <p className="text-xs text-gray-600">
+                    {result ? `z = ${result.zScore.toFixed(2)}` : "Not measured"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {assessments.length > 0 && (
+          <div>
+            <Tabs value={indicator} onValueChange={(value) => setIndicator(value as GrowthIndicator)}>
+              <TabsList className="w-full">
+                {GROWTH_INDICATORS.map(({ value, label }) => (
+                  <TabsTrigger key={value} value={value} className="flex-1 text-xs">{label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <div className="h-64 mt-3">
+              <canvas ref={chartRef}></canvas>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Latest measurement uses the {latest.standard} reference at age {formatAge(latest.ageInMonths)}.
+              Percentiles are for following growth over time, not a diagnosis.
+            </p>
+          </div>
+        )}
+
+        {child && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm">Add Measurement</h4>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="measurementDate" className="text-xs">Date</Label>
+                <Input
+                  id="measurementDate"
+                  type="date"
+                  value={newDate}
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  onChange={(e) => setNewDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="measurementWeight" className="text-xs">Weight ({child.weightUnit})</Label>
+                <Input
+                  id="measurementWeight"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={newWeight}
+                  onChange={(e) => setNewWeight(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="measurementHeight" className="text-xs">Height ({child.heightUnit})</Label>
+                <Input
+                  id="measurementHeight"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={newHeight}
+                  onChange={(e) => setNewHeight(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button onClick={handleAddMeasurement} size="sm" className="w-full">
+              <Plus className="mr-1 h-4 w-4" /> Add Measurement
+            </Button>
+          </div>
+        )}
+
+        {history.length > 0 ? (
+          <ScrollArea className="max-h-48">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-1">Date</th>
+                  <th className="py-1">Weight</th>
+                  <th className="py-1">Height</th>
+                  <th className="py-1">BMI</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(measurement => {
+                  const assessment = assessments.find(a => a.measurement.id === measurement.id);
+                  const percentile = (key: GrowthIndicator) => {
+                    const result = assessment?.results[key];
+                    return result ? ` (${formatPercentile(result.percentile)})` : "";
+                  };
+                  return (
+                    <tr key={measurement.id} className="border-b last:border-0">
+                      <td className="py-1">{measurement.date}</td>
+                      <td className="py-1">
+                        {measurement.weight !== null ? `${measurement.weight} ${measurement.weightUnit}${percentile("weight-for-age")}` : "-"}
+                      </td>
+                      <td className="py-1">
+                        {measurement.height !== null ? `${measurement.height} ${measurement.heightUnit}${percentile("height-for-age")}` : "-"}
+                      </td>
+                      <td className="py-1">
+                        {assessment?.bmi ? `${assessment.bmi.toFixed(1)}${percentile("bmi-for-age")}` : "-"}
+                      </td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => handleDeleteMeasurement(measurement.id)}
+                          className="p-1 text-gray-400 hover:text-red-500"
+                          aria-label="Delete measurement"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </ScrollArea>
+        ) : (
+          child && <p className="text-sm text-gray-500 text-center">No measurements recorded yet.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
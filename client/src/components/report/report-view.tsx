@@ -1,21 +1,30 @@
 import { useState, useEffect } from "react";
 import { NutritionReport } from "@shared/schema";
-import { ArrowLeft } from "lucide-react";
+import { ReportParseError } from "@shared/nutrition-analysis";
+import { ArrowLeft, AlertTriangle, Utensils } from "lucide-react";
 import MacronutrientsTab from "./macronutrients-tab";
 import VitaminsTab from "./vitamins-tab";
 import MineralsTab from "./minerals-tab";
 import RecommendationsTab from "./recommendations-tab";
+import TomorrowPlanCard from "./tomorrow-plan-card";
 
 interface NutritionReportViewProps {
   report: NutritionReport | null;
   isLoading: boolean;
   onBack: () => void;
-  error?: string | null;
+  error?: string | ReportParseError | null;
+}
+
+function formatAmount(amount: number): string {
+  return String(Math.round(amount * 100) / 100);
 }
 
 export default function NutritionReportView({ report, isLoading, onBack, error }: NutritionReportViewProps) {
   const [activeTab, setActiveTab] = useState("macronutrients");
-  const [errorMessage, setErrorMessage] = useState<string | null>(error || null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(
+    error instanceof ReportParseError ? error.message : error || null
+  );
+  const parseError = error instanceof ReportParseError ? error : null;
 
   const tabs = [
     { id: "macronutrients", label: "Macronutrients" },
@@ -28,7 +37,7 @@ export default function NutritionReportView({ report, isLoading, onBack, error }
   useEffect(() => {
     // Update from error prop
     if (error) {
-      setErrorMessage(error);
+      setErrorMessage(error instanceof ReportParseError ? error.message : error);
     } else {
       // Check for error in URL params
       const urlParams = new URLSearchParams(window.location.search);
@@ -48,6 +57,25 @@ export default function NutritionReportView({ report, isLoading, onBack, error }
             <h3 className="text-red-600 font-semibold text-lg mb-2">Error Generating Report</h3>
             <p className="text-red-700">{errorMessage}</p>
             
+            {parseError && (
+              <div className="mt-3 text-sm text-gray-700 text-left">
+                <p className="font-semibold">
+                  {parseError.kind === "invalid-json"
+                    ? "The model did not return readable JSON, even after being asked to correct it:"
+                    : "The model's report still had these problems after being asked to correct it:"}
+                </p>
+                <ul className="list-disc list-inside mt-2 space-y-1">
+                  {parseError.issues.slice(0, 8).map((issue, index) => (
+                    <li key={index} className="font-mono text-xs break-words">{issue}</li>
+                  ))}
+                </ul>
+                {parseError.issues.length > 8 && (
+                  <p className="text-xs text-gray-500 mt-1">and {parseError.issues.length - 8} more</p>
+                )}
+                <p className="mt-3">Try generating the report again, or select a different model in the settings.</p>
+              </div>
+            )}
+            
             {errorMessage.includes("API key") && (
               <div className="mt-3 text-sm text-gray-700">
                 <p className="font-semibold">To fix this issue:</p>
@@ -110,6 +138,65 @@ export default function NutritionReportView({ report, isLoading, onBack, error }
             </div>
           </div>
 
+          {/* Upper-limit alerts from food plus supplements */}
+          {report.safetyAlerts && report.safetyAlerts.length > 0 && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <h4 className="text-red-600 font-semibold flex items-center mb-2">
+                <AlertTriangle className="h-5 w-5 mr-2" /> Upper Limit Warnings
+              </h4>
+              <ul className="space-y-2 text-sm">
+                {report.safetyAlerts.map((alert) => (
+                  <li key={alert.nutrient} className={alert.level === "over" ? "text-red-700" : "text-amber-700"}>
+                    {alert.message}
+                    {alert.sources.length > 0 && (
+                      <span className="block text-xs text-gray-600">From: {alert.sources.join(", ")}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-gray-600 mt-2">
+                Regularly going over an upper limit can be harmful. Check supplement doses with your pediatrician.
+              </p>
+            </div>
+          )}
+
+          {/* Offered vs eaten for the items with leftovers recorded */}
+          {report.plateWaste && report.plateWaste.length > 0 && (
+            <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <h4 className="font-semibold flex items-center mb-2">
+                <Utensils className="h-5 w-5 mr-2 text-primary" /> Offered vs. Eaten
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="font-medium pb-1">Item</th>
+                    <th className="font-medium pb-1">Offered</th>
+                    <th className="font-medium pb-1">Eaten</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.plateWaste.map((entry) => (
+                    <tr key={entry.itemId} className="border-t border-gray-200">
+                      <td className="py-1">{entry.name}</td>
+                      <td className="py-1">
+                        {formatAmount(entry.offered)} {entry.unit}
+                        <span className="block text-xs text-gray-500">{entry.offeredCalories} kcal</span>
+                      </td>
+                      <td className="py-1">
+                        {formatAmount(entry.eaten)} {entry.unit}
+                        <span className="block text-xs text-gray-500">{entry.eatenCalories} kcal</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-600 mt-2">
+                The report counts only what was eaten. Left over:{" "}
+                {report.plateWaste.reduce((sum, entry) => sum + entry.offeredCalories - entry.eatenCalories, 0)} kcal.
+              </p>
+            </div>
+          )}
+
           {/* Tabs for Different Visualizations */}
           <div className="mb-4 border-b border-gray-200">
             <ul className="flex flex-wrap -mb-px text-sm font-medium text-center" role="tablist">
@@ -138,12 +225,15 @@ export default function NutritionReportView({ report, isLoading, onBack, error }
             {activeTab === "vitamins" && <VitaminsTab vitamins={report.vitamins} />}
             {activeTab === "minerals" && <MineralsTab minerals={report.minerals} />}
             {activeTab === "recommendations" && (
-              <RecommendationsTab
-                recommendations={report.recommendations}
-                foodSuggestions={report.foodSuggestions}
-                supplementRecommendations={report.supplementRecommendations}
-                supplementCautions={report.supplementCautions}
-              />
+              <>
+                <RecommendationsTab
+                  recommendations={report.recommendations}
+                  foodSuggestions={report.foodSuggestions}
+                  supplementRecommendations={report.supplementRecommendations}
+                  supplementCautions={report.supplementCautions}
+                />
+                <TomorrowPlanCard report={report} />
+              </>
             )}
           </div>
         </div>
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { NutritionReport } from "@shared/schema";
+import { planTomorrowFromDatabase, type TomorrowPlan } from "@shared/tomorrow-plan";
+import { schedulePlan } from "@shared/meal-planner";
+import { getAppSettings, getChildInfo, getFoodItems, saveFoodPlan, getPlannedItems, savePlannedItems } from "@/lib/storage";
+import { planTomorrowWithAI } from "@/lib/ai";
+import { getBrowserApiKey } from "@/lib/ai-providers";
+import { MEAL_TYPES } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { CalendarPlus, Loader2 } from "lucide-react";
+
+interface TomorrowPlanCardProps {
+  report: NutritionReport;
+}
+
+// Turn the report's low nutrients into a plan of foods for tomorrow that can
+// be saved with the other food plans or put straight on the planner
+export default function TomorrowPlanCard({ report }: TomorrowPlanCardProps) {
+  const [result, setResult] = useState<TomorrowPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // The day after the report's own day, which is not always today
+  const tomorrow = format(addDays(report.reportDate ? parseISO(report.reportDate) : new Date(), 1), "yyyy-MM-dd");
+
+  const handlePlan = async () => {
+    setIsPlanning(true);
+    setMessage(null);
+    try {
+      const [childInfo, history, settings] = await Promise.all([getChildInfo(), getFoodItems(), getAppSettings()]);
+      const childId = report.childId ?? childInfo.selectedChildId;
+      const child = childInfo.children.find(candidate => candidate.id === childId) ?? childInfo.children[0];
+
+      let planned: TomorrowPlan | null;
+      try {
+        planned = await planTomorrowWithAI({
+          report,
+          child,
+          history,
+          date: tomorrow,
+          apiKey: getBrowserApiKey(settings),
+          model: settings.selectedModel,
+          provider: settings.aiProvider,
+          baseUrl: settings.aiBaseUrl,
+        });
+      } catch (error) {
+        // Offline, or no model anywhere: pick from the food database instead
+        console.warn("Could not plan with the AI model, using the food database:", error);
+        planned = planTomorrowFromDatabase(report, child, history, tomorrow);
+      }
+
+      setResult(planned);
+      if (!planned) setMessage("Nothing in this report was low enough to plan around, or the child is still an infant.");
+      else if (planned.source === "database") setMessage("The AI model couldn't be reached, so this plan was picked from the food database.");
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleSave = async (schedule: boolean) => {
+    if (!result) return;
+    await saveFoodPlan(result.plan);
+    if (schedule) {
+      const plannedItems = await getPlannedItems();
+      await savePlannedItems([...plannedItems, ...schedulePlan(result.plan, tomorrow, result.plan.childId)]);
+    }
+    setMessage(schedule
+      ? `Saved and put on the planner for ${tomorrow}. Add it to the log from the planner on the day.`
+      : "Saved. Load it from Food Plans with one click.");
+    setResult(null);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 mb-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-inter font-bold text-lg">Plan Tomorrow</h3>
+        {!result && (
+          <Button type="button" variant="outline" size="sm" onClick={handlePlan} disabled={isPlanning}>
+            {isPlanning
+              ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              : <CalendarPlus className="mr-1 h-4 w-4" />}
+            Plan tomorrow
+          </Button>
+        )}
+      </div>
+      <p className="text-gray-600 text-sm mt-1">
+        Foods for {tomorrow} aimed at what was low in this report, leaving out allergens and restricted foods.
+      </p>
+
+      {message && <p className="text-sm text-gray-700 mt-3">{message}</p>}
+
+      {result && (
+        <div className="mt-3 space-y-3">
+          <p className="text-sm">{result.plan.description}</p>
+          {MEAL_TYPES.filter(meal => result.plan.items.some(item => item.mealType === meal.value)).map(meal => (
+            <div key={meal.value}>
+              <p className="text-xs font-medium text-gray-500">{meal.label}</p>
+              <ul className="text-sm space-y-1">
+                {result.plan.items.filter(item => item.mealType === meal.value).map(item => (
+                  <li key={item.id} className="flex justify-between gap-2">
+                    <span>{item.quantity} {item.unit} {item.name}</span>
+                    <span className="text-xs text-gray-500">{result.reasons[item.id]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setResult(null)}>Discard</Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => handleSave(false)}>Save as food plan</Button>
+            <Button type="button" size="sm" onClick={() => handleSave(true)}>Save and schedule for tomorrow</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { useEffect, useState } from "react";
 import { AppSettings, ChildInfo, Child, childInfoSchema, appSettingsSchema, childSchema } from "@shared/schema";
-import { DEFAULT_APP_SETTINGS, DEFAULT_CHILD_INFO, DEFAULT_CHILD, GEMINI_MODELS, DIETARY_RESTRICTIONS } from "@/lib/constants";
+import { DEFAULT_APP_SETTINGS, DEFAULT_CHILD_INFO, DEFAULT_CHILD, GEMINI_MODELS, DIETARY_RESTRICTIONS, ACTIVITY_LEVELS, AI_PROVIDERS, DEFAULT_OPENAI_BASE_URL } from "@/lib/constants";
 import { getAppSettings, saveAppSettings, getChildInfo, saveChildInfo } from "@/lib/storage";
 import { X, Check, Shield, Save, Loader2, Calendar as CalendarIcon, Plus, Trash } from "lucide-react";
-import { fetchAvailableGeminiModels, GeminiModel } from "@/lib/ai";
+import { fetchAvailableModels, validateProviderKey } from "@/lib/ai";
+import { getAIProvider, type AIModel } from "@/lib/ai-providers";
+import { recordCurrentMeasurement } from "@shared/growth-standards";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { format, parseISO } from "date-fns";
@@ -16,6 +18,10 @@ import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { DateOfBirthPicker } from "@/components/date-of-birth-picker";
+import AllergyEditor from "@/components/allergy-editor";
+import ProductDatabaseSettings from "@/components/product-database-settings";
+import CustomFoodsSettings from "@/components/custom-foods-settings";
+import RecipesSettings from "@/components/recipes-settings";
 import { cn } from "@/lib/utils";
 
 interface SettingsPanelProps {
@@ -26,7 +32,7 @@ interface SettingsPanelProps {
 export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
   const [childInfo, setChildInfo] = useState<ChildInfo>(DEFAULT_CHILD_INFO);
-  const [availableModels, setAvailableModels] = useState<GeminiModel[]>(GEMINI_MODELS);
+  const [availableModels, setAvailableModels] = useState<AIModel[]>(GEMINI_MODELS);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const { toast } = useToast();
 
@@ -54,9 +60,11 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
           settingsForm.reset(storedSettings);
           childInfoForm.reset(storedChildInfo);
           
-          // If API key is present, fetch available models
-          if (storedSettings.apiKey) {
-            fetchModels(storedSettings.apiKey);
+          // Fetch available models once the provider can be reached
+          if (storedSettings.apiKey || !getAIProvider(storedSettings.aiProvider).requiresApiKey) {
+            fetchModels(storedSettings);
+          } else {
+            setAvailableModels(GEMINI_MODELS);
           }
         } catch (error) {
           console.error("Error loading settings:", error);
@@ -72,12 +80,14 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
     }
   }, [isOpen, settingsForm, childInfoForm, toast]);
   
-  // Function to fetch available models when API key is provided
-  const fetchModels = async (apiKey: string) => {
-    if (!apiKey) {
+  // Function to fetch the models offered by the selected provider
+  const fetchModels = async ({ aiProvider, apiKey = "", aiBaseUrl }: Pick<AppSettings, "aiProvider" | "apiKey" | "aiBaseUrl">) => {
+    const provider = getAIProvider(aiProvider);
+    
+    if (provider.requiresApiKey && !apiKey) {
       toast({
         title: "API Key Required",
-        description: "Please enter a Google Gemini API key to fetch available models.",
+        description: `Please enter a ${provider.name} API key to fetch available models.`,
         variant: "destructive",
       });
       return;
@@ -85,7 +95,19 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
     
     setIsLoadingModels(true);
     try {
-      const models = await fetchAvailableGeminiModels(apiKey);
+      const isValid = await validateProviderKey({ provider: aiProvider, apiKey, baseUrl: aiBaseUrl });
+      if (!isValid) {
+        toast({
+          title: "Connection Failed",
+          description: provider.requiresApiKey
+            ? `The ${provider.name} API key was rejected. Please check it and try again.`
+            : `Could not reach the ${provider.name} server. Please check the server URL.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      const models = await fetchAvailableModels({ provider: aiProvider, apiKey, baseUrl: aiBaseUrl });
       if (models && models.length > 0) {
         setAvailableModels(models);
         
@@ -158,8 +180,14 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
     }
   };
 
-  const handleSaveChildInfo = async (data: ChildInfo) => {
+  const handleSaveChildInfo = async (formData: ChildInfo) => {
     try {
+      // Keep a dated record of weight and height changes for the growth chart
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const data = {
+        ...formData,
+        children: formData.children.map(child => recordCurrentMeasurement(child, today)),
+      };
       await saveChildInfo(data);
       setChildInfo(data);
       
@@ -219,14 +247,95 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* API Key Section */}
             <div className="bg-card rounded-lg shadow-sm border border-border p-4">
-              <h3 className="font-semibold text-lg mb-3">Google Gemini API Settings</h3>
+              <h3 className="font-semibold text-lg mb-3">AI Provider Settings</h3>
               <div className="space-y-4">
                 <Form {...settingsForm}>
                   <FormField
                     control={settingsForm.control}
-                    name="apiKey"
+                    name="aiProvider"
                     render={({ field }) => (
                       <FormItem>
+                        <FormLabel className="font-medium">Provider</FormLabel>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            // Each provider has its own model list
+                            if (value === "gemini") {
+                              setAvailableModels(GEMINI_MODELS);
+                              settingsForm.setValue("selectedModel", GEMINI_MODELS[0].id);
+                            } else {
+                              setAvailableModels([]);
+                              settingsForm.setValue("selectedModel", "");
+                              if (!settingsForm.getValues().aiBaseUrl) {
+                                settingsForm.setValue("aiBaseUrl", DEFAULT_OPENAI_BASE_URL);
+                              }
+                            }
+                          }}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent">
+                              <SelectValue placeholder="Select a provider" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {AI_PROVIDERS.map((provider) => (
+                              <SelectItem key={provider.value} value={provider.value}>
+                                {provider.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {settingsForm.watch("aiProvider") === "openai-compatible" && (
+                    <FormField
+                      control={settingsForm.control}
+                      name="aiBaseUrl"
+                      render={({ field }) => (
+                        <FormItem className="mt-4">
+                          <FormLabel className="font-medium">Server URL</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder={DEFAULT_OPENAI_BASE_URL}
+                              className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent"
+                              {...field} 
+                            />
+                          </FormControl>
+                          <p className="text-xs text-gray-500 mt-1">Base URL of an OpenAI-compatible API, such as a local llama.cpp or Ollama server.</p>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  
+                  {settingsForm.watch("aiProvider") === "gemini" && (
+                    <FormField
+                      control={settingsForm.control}
+                      name="useBrowserApiKey"
+                      render={({ field }) => (
+                        <FormItem className="mt-4">
+                          <div className="flex justify-between items-center">
+                            <FormLabel className="font-medium">Use my own API key</FormLabel>
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Off: reports are generated on the server with its own key. Turn it on to call Gemini from this browser with your key, which photo analysis and reading notes with AI need.
+                          </p>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  
+                  {(settingsForm.watch("useBrowserApiKey") || settingsForm.watch("aiProvider") === "openai-compatible") && (
+                  <FormField
+                    control={settingsForm.control}
+                    name="apiKey"
+                    render={({ field }) => (
+                      <FormItem className="mt-4">
                         <div className="flex justify-between items-center">
                           <FormLabel className="font-medium">API Key</FormLabel>
                           {field.value ? (
@@ -239,17 +348,18 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                           <FormControl>
                             <Input 
                               type="password" 
-                              placeholder="Enter your Gemini API key"
+                              placeholder={settingsForm.watch("aiProvider") === "openai-compatible" ? "Optional for local servers" : "Enter your Gemini API key"}
                               className="w-full p-3 pl-8 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent"
                               {...field} 
                             />
                           </FormControl>
                           <Shield className="h-4 w-4 text-gray-400 absolute left-2.5 top-1/2 transform -translate-y-1/2" />
                         </div>
-                        <p className="text-xs text-gray-500 mt-1">Your API key is encrypted and stored securely in your local session</p>
+                        <p className="text-xs text-amber-700 mt-1">The key is kept in this browser's storage. It is only obfuscated, so scripts on the page, browser extensions and anyone using this device can read it. It is cleared after a year.</p>
                       </FormItem>
                     )}
                   />
+                  )}
                   
                   <FormField
                     control={settingsForm.control}
@@ -264,7 +374,7 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                             </Badge>
                           )}
                         </div>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent">
                               <SelectValue placeholder="Select a model" />
@@ -280,10 +390,10 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                         </Select>
                         <div className="flex justify-between mt-1">
                           <p className="text-xs text-gray-500">Select the model to use for nutrition analysis</p>
-                          {settingsForm.getValues().apiKey && (
+                          {(settingsForm.watch("apiKey") || settingsForm.watch("aiProvider") === "openai-compatible") && (
                             <button 
                               type="button" 
-                              onClick={() => fetchModels(settingsForm.getValues().apiKey || "")}
+                              onClick={() => fetchModels(settingsForm.getValues())}
                               className="text-xs text-primary hover:text-primary/80 flex items-center"
                               disabled={isLoadingModels}
                             >
@@ -536,6 +646,36 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                                         </div>
                                       </div>
                                       
+                                      {/* Activity level - used for the calorie target */}
+                                      <div className="mt-4">
+                                        <FormLabel className="font-medium block mb-2">Activity Level</FormLabel>
+                                        <Select 
+                                          value={child.activityLevel || "low-active"}
+                                          onValueChange={(value: Child["activityLevel"]) => {
+                                            const newChildren = [...field.value];
+                                            newChildren[index] = {
+                                              ...newChildren[index],
+                                              activityLevel: value
+                                            };
+                                            childInfoForm.setValue('children', newChildren);
+                                          }}
+                                        >
+                                          <SelectTrigger className="w-full h-10 p-2 px-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent">
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {ACTIVITY_LEVELS.map((level) => (
+                                              <SelectItem key={level.value} value={level.value}>
+                                                {level.label}
+                                              </SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                          {ACTIVITY_LEVELS.find(level => level.value === (child.activityLevel || "low-active"))?.description}
+                                        </p>
+                                      </div>
+                                      
                                       {/* Dietary Restrictions */}
                                       <div className="mt-4">
                                         <FormLabel className="font-medium block mb-2">Dietary Restrictions</FormLabel>
@@ -567,6 +707,23 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                                           ))}
                                         </div>
                                       </div>
+                                      
+                                      {/* Food Allergies */}
+                                      <div className="mt-4">
+                                        <FormLabel className="font-medium block mb-2">Food Allergies</FormLabel>
+                                        <AllergyEditor
+                                          id={child.id}
+                                          allergies={child.allergies || []}
+                                          onChange={(allergies) => {
+                                            const newChildren = [...field.value];
+                                            newChildren[index] = {
+                                              ...newChildren[index],
+                                              allergies
+                                            };
+                                            childInfoForm.setValue('children', newChildren);
+                                          }}
+                                        />
+                                      </div>
                                     </div>
                                   );
                                 })}
@@ -596,6 +753,15 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
               </div>
             </div>
 
+            {/* Foods entered from nutrition facts labels */}
+            <CustomFoodsSettings />
+
+            {/* Homemade dishes */}
+            <RecipesSettings />
+
+            {/* Packaged foods for barcode lookup */}
+            <ProductDatabaseSettings />
+
             {/* App Settings section removed as requested */}
           </form>
           
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { FoodItem } from "@shared/schema";
+import { useMemo } from "react";
+import { FoodItem, Child } from "@shared/schema";
 import { SUPPLEMENT_UNITS, SUPPLEMENT_FREQUENCIES } from "@/lib/constants";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -10,11 +10,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus } from "lucide-react";
+import SupplementSafetyNotice from "@/components/supplement-safety-notice";
 
 const supplementEntrySchema = z.object({
   name: z.string().min(1, "Supplement name is required"),
   quantity: z.coerce.number().min(0.25, "Quantity must be at least 0.25"),
   unit: z.string().min(1, "Unit is required"),
+  strength: z.string().optional(),
   frequency: z.string().min(1, "Frequency is required"),
   purpose: z.string().optional(),
   warnings: z.string().optional(),
@@ -25,47 +27,65 @@ type SupplementEntryFormValues = z.infer<typeof supplementEntrySchema>;
 interface SupplementEntryFormProps {
   onAddSupplement: (supplement: FoodItem) => void;
   selectedDate?: string; // Optional selected date to associate with new supplement items
+  items?: FoodItem[]; // Items already logged, for the upper-limit check
+  child?: Child; // Child the supplement is for
 }
 
-export default function SupplementEntryForm({ onAddSupplement, selectedDate }: SupplementEntryFormProps) {
+// Build the supplement item from the form values
+function toSupplementItem(values: SupplementEntryFormValues, date: string, child?: Child): FoodItem {
+  const dosage = `${values.quantity} ${values.unit}`;
+  return {
+    id: crypto.randomUUID(),
+    name: values.name,
+    quantity: values.quantity,
+    unit: values.unit,
+    mealType: "supplement", // Using mealType to categorize supplements
+    type: "supplement" as const,
+    supplementInfo: {
+      dosage: values.strength ? `${dosage}, ${values.strength} per ${values.unit}` : dosage,
+      frequency: values.frequency,
+      purpose: values.purpose || "",
+      warnings: values.warnings || "",
+    },
+    createdAt: Date.now(),
+    date,
+    childId: child?.id,
+  } as FoodItem;
+}
+
+export default function SupplementEntryForm({ onAddSupplement, selectedDate, items = [], child }: SupplementEntryFormProps) {
   const form = useForm<SupplementEntryFormValues>({
     resolver: zodResolver(supplementEntrySchema),
     defaultValues: {
       name: "",
       quantity: 1,
       unit: "pill",
+      strength: "",
       frequency: "daily",
       purpose: "",
       warnings: "",
     },
   });
 
+  const currentDate = selectedDate || new Date().toISOString().split('T')[0];
+
+  // The supplement as it would be added, for checking against the upper limits while typing
+  const watched = form.watch();
+  const pendingSupplement = useMemo(
+    () => (watched.name && Number(watched.quantity) > 0
+      ? toSupplementItem({ ...watched, quantity: Number(watched.quantity) }, currentDate, child)
+      : null),
+    [watched.name, watched.quantity, watched.unit, watched.strength, watched.frequency, currentDate, child]
+  );
+
   const onSubmit = (values: SupplementEntryFormValues) => {
-    const currentDate = selectedDate || new Date().toISOString().split('T')[0];
-    
     // Create a supplement item with the current date
-    const newSupplement = {
-      id: crypto.randomUUID(),
-      name: values.name,
-      quantity: values.quantity,
-      unit: values.unit,
-      mealType: "supplement", // Using mealType to categorize supplements
-      type: "supplement" as const,
-      supplementInfo: {
-        dosage: `${values.quantity} ${values.unit}`,
-        frequency: values.frequency,
-        purpose: values.purpose || "",
-        warnings: values.warnings || "",
-      },
-      createdAt: Date.now(),
-      date: currentDate,
-    } as FoodItem;
-    
-    onAddSupplement(newSupplement);
+    onAddSupplement(toSupplementItem(values, currentDate, child));
     form.reset({
       name: "",
       quantity: 1,
       unit: "pill",
+      strength: "",
       frequency: form.getValues().frequency,
       purpose: "",
       warnings: "",
@@ -165,6 +185,31 @@ export default function SupplementEntryForm({ onAddSupplement, selectedDate }: S
             />
           </div>
 
+          <FormField
+            control={form.control}
+            name="strength"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="font-medium">Amount per {form.watch("unit") || "unit"} (optional)</FormLabel>
+                <FormControl>
+                  <Input 
+                    placeholder="From the label, e.g., 400 IU vitamin D, 10 mg iron"
+                    className="p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-accent focus:border-accent"
+                    {...field} 
+                  />
+                </FormControl>
+                <FormDescription>Used to check the total against the safe upper limits</FormDescription>
+              </FormItem>
+            )}
+          />
+
+          <SupplementSafetyNotice
+            supplement={pendingSupplement}
+            items={items}
+            recipients={child ? [child] : []}
+            date={currentDate}
+          />
+
           <FormField
             control={form.control}
             name="purpose"
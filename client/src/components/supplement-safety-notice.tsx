@@ -0,0 +1,59 @@
+import { useMemo } from "react";
+import { FoodItem, Child } from "@shared/schema";
+import { checkUpperLimits, parseSupplementDose } from "@shared/supplement-safety";
+import { AlertTriangle, Info } from "lucide-react";
+
+interface SupplementSafetyNoticeProps {
+  supplement: FoodItem | null; // The supplement being entered
+  items: FoodItem[];           // Items already logged
+  recipients: Child[];         // Children the supplement is for
+  date: string;
+}
+
+// Upper-limit warnings for a supplement before it is added
+export default function SupplementSafetyNotice({ supplement, items, recipients, date }: SupplementSafetyNoticeProps) {
+  const dose = useMemo(() => (supplement ? parseSupplementDose(supplement) : null), [supplement]);
+
+  const warnings = useMemo(() => {
+    if (!supplement || !dose) return [];
+    const withSupplement = [...items.filter(item => item.id !== supplement.id), supplement];
+    const targets: (Child | undefined)[] = recipients.length > 0 ? recipients : [undefined];
+
+    return targets.flatMap(child =>
+      checkUpperLimits(withSupplement, child, date).alerts
+        // Only what this supplement contributes to
+        .filter(alert => (dose.nutrients[alert.nutrient as keyof typeof dose.nutrients] ?? 0) > 0)
+        .map(alert => ({
+          key: `${child?.id ?? "all"}-${alert.nutrient}`,
+          level: alert.level,
+          message: recipients.length > 1 && child?.name ? `${child.name} - ${alert.message}` : alert.message,
+        }))
+    );
+  }, [supplement, dose, items, recipients, date]);
+
+  if (!dose) return null;
+
+  if (warnings.length > 0) {
+    return (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm space-y-1">
+        {warnings.map(warning => (
+          <p key={warning.key} className={`flex items-start gap-2 ${warning.level === "over" ? "text-red-700" : "text-amber-700"}`}>
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{warning.message}</span>
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  if (dose.unknownAmounts.length > 0) {
+    return (
+      <p className="flex items-start gap-2 text-xs text-gray-500">
+        <Info className="h-4 w-4 flex-shrink-0" />
+        <span>Add the amount per unit from the label (e.g. "400 IU" or "10 mg") to check it against the upper limits.</span>
+      </p>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import { Child } from "@shared/schema";
+import { parseQuickAdd, type QuickAddResult } from "@shared/quick-add";
+import { useSpeechRecognition } from "@/hooks/use-speech-recognition";
+import { FOOD_UNITS, DRINK_UNITS, MEAL_TYPES } from "@/lib/constants";
+import QuickAddReview from "@/components/quick-add-review";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Mic, Square } from "lucide-react";
+
+interface VoiceLoggerProps {
+  children: Child[];
+  // Meal used when none was said
+  defaultMealType: string;
+  onConfirm: (result: QuickAddResult, mealType: string) => void;
+}
+
+// Say what was eaten, e.g. "half a banana and a cup of milk for Emma's
+// breakfast", check what was understood, then add it
+export default function VoiceLogger({ children, defaultMealType, onConfirm }: VoiceLoggerProps) {
+  const { isSupported, isListening, transcript, setTranscript, error, start, stop } = useSpeechRecognition();
+  const [result, setResult] = useState<QuickAddResult | null>(null);
+  const [mealType, setMealType] = useState(defaultMealType);
+  const wasListening = useRef(false);
+
+  const readTranscript = (text: string) => {
+    if (!text.trim()) return;
+    const parsed = parseQuickAdd(text, {
+      foodUnits: FOOD_UNITS,
+      drinkUnits: DRINK_UNITS,
+      mealTypes: MEAL_TYPES,
+      children: children.map(child => ({ id: child.id, name: child.name ?? "" })),
+    });
+    setResult(parsed);
+    setMealType(parsed.mealType ?? defaultMealType);
+  };
+
+  // Read what was said as soon as the parent stops talking
+  useEffect(() => {
+    if (wasListening.current && !isListening) readTranscript(transcript);
+    wasListening.current = isListening;
+  }, [isListening]);
+
+  const handleConfirm = () => {
+    if (!result) return;
+    onConfirm(result, mealType);
+    setResult(null);
+    setTranscript("");
+  };
+
+  if (!isSupported) {
+    return (
+      <p className="p-3 bg-gray-50 border border-gray-200 rounded-md text-xs text-gray-600">
+        This browser can't transcribe speech. Try Chrome or Safari, or use the quick-add box.
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant={isListening ? "destructive" : "outline"}
+          size="sm"
+          onClick={() => {
+            if (isListening) {
+              stop();
+            } else {
+              setResult(null);
+              start();
+            }
+          }}
+        >
+          {isListening
+            ? <><Square className="mr-1 h-4 w-4" /> Done</>
+            : <><Mic className="mr-1 h-4 w-4" /> {transcript ? "Speak again" : "Start speaking"}</>}
+        </Button>
+        {isListening && (
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" /> Listening...
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {(transcript || result) && !isListening && (
+        <div className="flex gap-2">
+          <Input
+            value={transcript}
+            onChange={(e) => {
+              setTranscript(e.target.value);
+              setResult(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                readTranscript(transcript);
+              }
+            }}
+            className="h-8 text-xs"
+            aria-label="What was heard"
+          />
+          {!result && (
+            <Button type="button" variant="outline" size="sm" className="h-8" onClick={() => readTranscript(transcript)}>
+              Read
+            </Button>
+          )}
+        </div>
+      )}
+      {isListening && transcript && <p className="text-sm text-gray-600 italic">{transcript}</p>}
+
+      {result && !isListening && (
+        <QuickAddReview
+          result={result}
+          onResultChange={setResult}
+          mealType={mealType}
+          onMealTypeChange={setMealType}
+          children={children}
+          onConfirm={handleConfirm}
+        />
+      )}
+    </div>
+  );
+}
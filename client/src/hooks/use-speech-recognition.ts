@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+
+// The Web Speech API isn't in the DOM typings; these are the parts used here
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | undefined {
+  if (typeof window === "undefined") return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  "not-allowed": "Microphone access was blocked. Allow it in the browser to log by voice.",
+  "service-not-allowed": "Microphone access was blocked. Allow it in the browser to log by voice.",
+  "no-speech": "Nothing was heard. Tap the microphone and try again.",
+  "audio-capture": "No microphone was found.",
+  "network": "Speech recognition needs a network connection in this browser.",
+};
+
+// Transcribe speech in the browser; the transcript builds up while listening
+export function useSpeechRecognition() {
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const isSupported = getSpeechRecognition() !== undefined;
+
+  // Stop listening if the component goes away mid-sentence
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  const start = () => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition || isListening) return;
+
+    const recognition = new SpeechRecognition();
+    recognition.lang = navigator.language || "en-US";
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.onresult = (event) => {
+      let text = "";
+      for (let i = 0; i < event.results.length; i++) {
+        text += event.results[i][0].transcript;
+      }
+      setTranscript(text.trim());
+    };
+    recognition.onerror = (event) => {
+      if (event.error !== "aborted") {
+        setError(ERROR_MESSAGES[event.error] ?? "Speech recognition stopped unexpectedly.");
+      }
+    };
+    recognition.onend = () => {
+      setIsListening(false);
+      recognitionRef.current = null;
+    };
+
+    setTranscript("");
+    setError(null);
+    recognitionRef.current = recognition;
+    recognition.start();
+    setIsListening(true);
+  };
+
+  const stop = () => {
+    recognitionRef.current?.stop();
+  };
+
+  return { isSupported, isListening, transcript, setTranscript, error, start, stop };
+}
@@ -0,0 +1,335 @@
+import type { AppSettings } from "@shared/schema";
+import { nutritionReportResponseSchema, supportsStructuredOutput, type GeminiResponseSchema } from "@shared/nutrition-analysis";
+import { GEMINI_MODELS } from "./constants";
+
+// Model entry shown in the settings model picker
+export interface AIModel {
+  id: string;
+  name: string;
+  version?: string;
+}
+
+export type AIProviderId = NonNullable<AppSettings["aiProvider"]>;
+
+// Connection details for a provider, taken from AppSettings
+export interface AIProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+}
+
+// A photo sent along with a prompt, base64-encoded without the data: URL prefix
+export interface AIImage {
+  mimeType: string;
+  data: string;
+}
+
+// A language model backend that can produce nutrition reports.
+// generateReport, generateJson and describeImage return the raw model text; parsing happens in ai.ts.
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  generateReport(prompt: string, config: AIProviderConfig): Promise<string>;
+  // Any other JSON answer; providers that support it hold the reply to the schema
+  generateJson(prompt: string, config: AIProviderConfig, schema?: GeminiResponseSchema): Promise<string>;
+  // Needs a multimodal model
+  describeImage(prompt: string, image: AIImage, config: AIProviderConfig): Promise<string>;
+  listModels(config: AIProviderConfig): Promise<AIModel[]>;
+  validateKey(config: AIProviderConfig): Promise<boolean>;
+}
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+function requestGeminiContent(prompt: string, apiKey: string, model: string, responseSchema: GeminiResponseSchema | null) {
+  const requestBody = {
+    contents: [{
+      parts: [{
+        text: prompt
+      }]
+    }],
+    generationConfig: {
+      temperature: 0.2,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: 8192,
+      // Ask for JSON matching the schema instead of relying on the prompt alone
+      ...(responseSchema && {
+        responseMimeType: "application/json",
+        responseSchema,
+      }),
+    }
+  };
+
+  // We use fetch directly since the Google Generative AI SDK TypeScript support is problematic
+  return fetch(`${GEMINI_API_URL}/models/${model}:generateContent`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+    },
+    body: JSON.stringify(requestBody)
+  });
+}
+
+async function throwGeminiError(response: Response, model: string): Promise<never> {
+  const errorData = await response.json().catch(() => ({}));
+  console.error(`API Error: ${response.status}`, errorData);
+
+  if (response.status === 400) {
+    throw new Error("Invalid request to Gemini API. Please check your API key and try again.");
+  } else if (response.status === 401) {
+    throw new Error("Authentication failed. Please check your Gemini API key and try again.");
+  } else if (response.status === 403) {
+    throw new Error("API key doesn't have access to the Gemini model. Please check your permissions.");
+  } else if (response.status === 404) {
+    throw new Error(`Model '${model}' not found. Please select a different model.`);
+  } else if (response.status === 429) {
+    throw new Error("Quota exceeded. Please try again later or check your API usage limits.");
+  } else {
+    throw new Error(`Error from Gemini API: ${response.status} - ${errorData.error?.message || "Unknown error"}`);
+  }
+}
+
+async function readGeminiText(response: Response): Promise<string> {
+  const data = await response.json();
+
+  if (!data.candidates || data.candidates.length === 0 || !data.candidates[0].content) {
+    throw new Error("No response generated from the API. Please try again.");
+  }
+
+  const textResponse = data.candidates[0].content.parts?.[0]?.text;
+  if (!textResponse) {
+    throw new Error("Empty response from Gemini API. Please try again.");
+  }
+
+  return textResponse;
+}
+
+async function generateGeminiText(prompt: string, { apiKey, model }: AIProviderConfig, schema?: GeminiResponseSchema): Promise<string> {
+  console.log(`Making API request to Gemini API with model: ${model}`);
+
+  const responseSchema = schema && supportsStructuredOutput(model) ? schema : null;
+  let response = await requestGeminiContent(prompt, apiKey, model, responseSchema);
+
+  // Some model versions reject responseSchema; retry with plain text output,
+  // which ai.ts strips of code fences before parsing
+  if (responseSchema && response.status === 400) {
+    console.warn(`Model ${model} rejected structured output, retrying without a response schema`);
+    response = await requestGeminiContent(prompt, apiKey, model, null);
+  }
+
+  // Handle error responses
+  if (!response.ok) {
+    await throwGeminiError(response, model);
+  }
+
+  return readGeminiText(response);
+}
+
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  name: "Google Gemini",
+  requiresApiKey: true,
+
+  async generateReport(prompt, config) {
+    return generateGeminiText(prompt, config, nutritionReportResponseSchema);
+  },
+
+  async generateJson(prompt, config, schema) {
+    return generateGeminiText(prompt, config, schema);
+  },
+
+  async describeImage(prompt, image, { apiKey, model }) {
+    console.log(`Making image request to Gemini API with model: ${model}`);
+
+    const response = await fetch(`${GEMINI_API_URL}/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [
+            { inline_data: { mime_type: image.mimeType, data: image.data } },
+            { text: prompt },
+          ]
+        }],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: 2048,
+          responseMimeType: "application/json",
+        }
+      })
+    });
+
+    if (!response.ok) {
+      await throwGeminiError(response, model);
+    }
+
+    return readGeminiText(response);
+  },
+
+  // The app only offers the Gemini 2.5 models it has been tuned for
+  async listModels() {
+    return GEMINI_MODELS;
+  },
+
+  async validateKey({ apiKey }) {
+    if (!apiKey) return false;
+
+    const response = await fetch(`${GEMINI_API_URL}/models?pageSize=1`, {
+      headers: { 'x-goog-api-key': apiKey },
+    });
+    return response.ok;
+  },
+};
+
+// Trim trailing slashes so paths can be appended safely
+function normalizeBaseUrl(baseUrl?: string): string {
+  if (!baseUrl) {
+    throw new Error("A server URL is required for the OpenAI-compatible provider. Please add it in the settings.");
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function openAIHeaders(apiKey: string): Record<string, string> {
+  // Local servers such as llama.cpp or Ollama usually don't need a key
+  return apiKey
+    ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` }
+    : { 'Content-Type': 'application/json' };
+}
+
+async function throwOpenAIError(response: Response, model: string): Promise<never> {
+  const errorData = await response.json().catch(() => ({}));
+  console.error(`API Error: ${response.status}`, errorData);
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error("Authentication failed. Please check your API key and try again.");
+  } else if (response.status === 404) {
+    throw new Error(`Model '${model}' not found. Please select a different model.`);
+  } else if (response.status === 429) {
+    throw new Error("Quota exceeded. Please try again later or check your API usage limits.");
+  } else {
+    throw new Error(`Error from AI server: ${response.status} - ${errorData.error?.message || "Unknown error"}`);
+  }
+}
+
+async function readOpenAIText(response: Response): Promise<string> {
+  const data = await response.json();
+  const textResponse = data.choices?.[0]?.message?.content;
+  if (!textResponse) {
+    throw new Error("Empty response from the AI server. Please try again.");
+  }
+
+  return textResponse;
+}
+
+// A plain chat completion; the prompt asks for JSON, and ai.ts strips any
+// code fences around it
+async function generateOpenAIText(prompt: string, { apiKey, model, baseUrl }: AIProviderConfig): Promise<string> {
+  const url = `${normalizeBaseUrl(baseUrl)}/chat/completions`;
+  console.log(`Making API request to ${url} with model: ${model}`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: openAIHeaders(apiKey),
+    body: JSON.stringify({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.2,
+      max_tokens: 8192,
+    }),
+  });
+
+  if (!response.ok) {
+    await throwOpenAIError(response, model);
+  }
+
+  return readOpenAIText(response);
+}
+
+export const openAICompatibleProvider: AIProvider = {
+  id: "openai-compatible",
+  name: "OpenAI-compatible",
+  requiresApiKey: false,
+
+  async generateReport(prompt, config) {
+    return generateOpenAIText(prompt, config);
+  },
+
+  // Response schemas differ too much between local servers to rely on
+  async generateJson(prompt, config) {
+    return generateOpenAIText(prompt, config);
+  },
+
+  async describeImage(prompt, image, { apiKey, model, baseUrl }) {
+    const url = `${normalizeBaseUrl(baseUrl)}/chat/completions`;
+    console.log(`Making image request to ${url} with model: ${model}`);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: openAIHeaders(apiKey),
+      body: JSON.stringify({
+        model,
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+          ],
+        }],
+        temperature: 0.2,
+        max_tokens: 2048,
+      }),
+    });
+
+    if (!response.ok) {
+      await throwOpenAIError(response, model);
+    }
+
+    return readOpenAIText(response);
+  },
+
+  async listModels({ apiKey, baseUrl }) {
+    const response = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+      headers: openAIHeaders(apiKey),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Could not list models: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((model: { id: string }) => ({ id: model.id, name: model.id }));
+  },
+
+  async validateKey({ apiKey, baseUrl }) {
+    const response = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+      headers: openAIHeaders(apiKey),
+    });
+    return response.ok;
+  },
+};
+
+const AI_PROVIDERS_BY_ID: Record<AIProviderId, AIProvider> = {
+  "gemini": geminiProvider,
+  "openai-compatible": openAICompatibleProvider,
+};
+
+export function getAIProvider(id: AIProviderId | undefined): AIProvider {
+  return AI_PROVIDERS_BY_ID[id || "gemini"] || geminiProvider;
+}
+
+// Gemini goes through the server, which holds its own key, unless the user
+// chose to call it from the browser with theirs. OpenAI-compatible servers are
+// usually local, so the browser always calls them.
+export function usesBrowserApiKey(settings: Pick<AppSettings, "aiProvider" | "useBrowserApiKey">): boolean {
+  return getAIProvider(settings.aiProvider).id !== "gemini" || Boolean(settings.useBrowserApiKey);
+}
+
+// The key the browser calls the provider with, or "" to go through the server
+export function getBrowserApiKey(settings: Pick<AppSettings, "aiProvider" | "apiKey" | "useBrowserApiKey">): string {
+  return usesBrowserApiKey(settings) ? settings.apiKey || "" : "";
+}
@@ -1,12 +1,32 @@
 import { GoogleGenAI } from "@google/genai";
 import type { NutritionReport, FoodItem, ChildInfo, MultiChildReport, Child } from "@shared/schema";
-
-// Define model interface
-export interface GeminiModel {
-  id: string;
-  name: string;
-  version?: string;
-}
+import { createAnalysisPrompt, requestNutritionReport, ReportParseError } from "@shared/nutrition-analysis";
+import { applyDietaryReferenceIntakes } from "@shared/dietary-reference-intakes";
+import {
+  calculateLocalNutritionReport,
+  crossCheckReport,
+  isItemForChild,
+  getItemForChild,
+  applyLabelNutrition,
+} from "@shared/nutrient-calculator";
+import { applySupplementSafetyCheck } from "@shared/supplement-safety";
+import { applyPlateWaste } from "@shared/plate-waste";
+import { createMealPhotoPrompt, parseMealPhotoResponse, type ProposedFood } from "@shared/meal-photo";
+import {
+  createQuickAddPrompt,
+  parseQuickAddResponse,
+  quickAddResponseSchema,
+  type QuickAddResult,
+  type QuickAddVocabulary,
+} from "@shared/quick-add";
+import {
+  requestTomorrowPlan,
+  selectPlanHistory,
+  tomorrowPlanResponseSchema,
+  type TomorrowPlan,
+} from "@shared/tomorrow-plan";
+import { getAIProvider, type AIModel, type AIProviderId, type AIImage } from "./ai-providers";
+import { FOOD_UNITS, DRINK_UNITS } from "./constants";
 
 interface GenerateReportParams {
   foodItems: FoodItem[];      // Current day's food items 
@@ -14,6 +34,8 @@ interface GenerateReportParams {
   childInfo: ChildInfo;
   apiKey: string;
   model: string;
+  provider?: AIProviderId;    // Defaults to Gemini
+  baseUrl?: string;           // Server URL for OpenAI-compatible providers
 }
 
 export async function generateNutritionReport({
@@ -22,6 +44,8 @@ export async function generateNutritionReport({
   childInfo,
   apiKey,
   model,
+  provider,
+  baseUrl,
 }: GenerateReportParams): Promise<NutritionReport> {
   try {
     // Validate inputs
@@ -29,14 +53,18 @@ export async function generateNutritionReport({
       throw new Error("No food items to analyze. Please add at least one food item.");
     }
     
-    if (!apiKey) {
-      throw new Error("Google Gemini API key is required. Please add it in the settings.");
-    }
-    
     if (!model) {
       throw new Error("No AI model selected. Please select a model in the settings.");
     }
 
+    const aiProvider = getAIProvider(provider);
+
+    // Gemini reports go through the server, which calls the model with its own
+    // key, unless the user chose to use theirs from the browser
+    if (!apiKey && aiProvider.requiresApiKey) {
+      return await generateNutritionReportOnServer({ foodItems, historyItems, childInfo, model });
+    }
+
     // For testing and development purposes
     // Return mock data for local development or when a test key is used
     if (apiKey === 'test123' || apiKey === 'test' || apiKey === 'development') {
@@ -49,100 +77,46 @@ export async function generateNutritionReport({
       const prompt = createAnalysisPrompt(foodItems, childInfo, historyItems);
       console.log("Using model:", model);
       
-      // Create a safer way to access the API
-      // We'll use fetch directly since the Google Generative AI SDK TypeScript support is problematic
-      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-      console.log(`Making API request to Gemini API with model: ${model}`);
-      
-      const requestBody = {
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.2,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 8192
-          // Removed responseFormat which was causing errors
-        }
-      };
-      
-      // Make the API request
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      // Handle error responses
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error(`API Error: ${response.status}`, errorData);
-        
-        if (response.status === 400) {
-          throw new Error("Invalid request to Gemini API. Please check your API key and try again.");
-        } else if (response.status === 401) {
-          throw new Error("Authentication failed. Please check your Gemini API key and try again.");
-        } else if (response.status === 403) {
-          throw new Error("API key doesn't have access to the Gemini model. Please check your permissions.");
-        } else if (response.status === 404) {
-          throw new Error(`Model '${model}' not found. Please select a different model.`);
-        } else if (response.status === 429) {
-          throw new Error("Quota exceeded. Please try again later or check your API usage limits.");
-        } else {
-          throw new Error(`Error from Gemini API: ${response.status} - ${errorData.error?.message || "Unknown error"}`);
-        }
-      }
-      
-      // Process successful response
-      const data = await response.json();
+      // Validated against the report schema, with one re-ask if the answer is unusable
+      const modelReport = await requestNutritionReport(
+        (reportPrompt) => aiProvider.generateReport(reportPrompt, { apiKey, model, baseUrl }),
+        prompt
+      );
+      const selectedChild = childInfo.children?.find(child => child.id === childInfo.selectedChildId)
+        || childInfo.children?.[0];
+      // Shared items count at the child's own portion, less what they left
+      const childItems = selectedChild ? foodItems.map(item => getItemForChild(item, selectedChild.id)) : foodItems;
+
+      // The model leaves out foods with label nutrition; add them from their labels
+      const report = applyLabelNutrition(modelReport, childItems);
       
-      if (!data.candidates || data.candidates.length === 0 || !data.candidates[0].content) {
-        throw new Error("No response generated from the API. Please try again.");
+      // Compare the model's numbers with the local food database where every food is known
+      const discrepancies = crossCheckReport(report, childItems);
+      if (discrepancies.length > 0) {
+        console.warn("AI report differs from the local nutrient calculation:", discrepancies);
       }
       
-      const content = data.candidates[0].content;
-      const parts = content.parts || [];
-      const textResponse = parts[0]?.text;
-      
-      if (!textResponse) {
-        throw new Error("Empty response from Gemini API. Please try again.");
+      // Measure against the DRI tables rather than the model's own targets, and
+      // check the upper limits ourselves instead of relying on the model's cautions
+      const reportDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
+      return applyPlateWaste(
+        applySupplementSafetyCheck(
+          applyDietaryReferenceIntakes(report, selectedChild, reportDate),
+          foodItems,
+          selectedChild,
+          reportDate
+        ),
+        foodItems,
+        selectedChild,
+        reportDate
+      );
+    } catch (apiError: any) {
+      // Keep the structured details so the report view can list them
+      if (apiError instanceof ReportParseError) {
+        console.error(`Failed to parse ${aiProvider.name} response:`, apiError.issues);
+        throw apiError;
       }
       
-      try {
-        // First, try to clean up the response if it contains markdown code blocks
-        let jsonText = textResponse;
-        
-        // Extract JSON content from any markdown code blocks
-        const jsonRegex = /```(?:json)?\s*([\s\S]*?)```/;
-        const match = jsonText.match(jsonRegex);
-        
-        if (match && match[1]) {
-          // If we found JSON in code blocks, use that content
-          jsonText = match[1].trim();
-        } else {
-          // Otherwise, try to clean up the text by removing markdown markers
-          jsonText = jsonText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-        }
-        
-        console.log("Cleaned JSON text:", jsonText.substring(0, 100) + "...");
-        
-        // Attempt to parse the cleaned JSON
-        const parsedReport = JSON.parse(jsonText);
-        return parsedReport as NutritionReport;
-      } catch (jsonError) {
-        console.error("Failed to parse Gemini response as JSON:", jsonError);
-        console.log("Raw response:", textResponse);
-        
-        // Since this is a detailed error, provide more helpful guidance
-        const errorMsg = "There was a problem with the AI response format. Please try again or try a different model.";
-        throw new Error(errorMsg);
-      }
-    } catch (apiError: any) {
       // Specific error handling for API issues
       if (apiError.message.includes("API key")) {
         throw new Error("Invalid or expired API key. Please check your API key in settings.");
@@ -158,6 +132,52 @@ export async function generateNutritionReport({
   }
 }
 
+/**
+ * Generates a report through the server-side proxy, which holds the model API key
+ */
+async function generateNutritionReportOnServer({
+  foodItems,
+  historyItems,
+  childInfo,
+  model,
+}: Omit<GenerateReportParams, "apiKey">): Promise<NutritionReport> {
+  const response = await fetch("/api/reports/generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ foodItems, historyItems, childInfo, model }),
+    credentials: "include",
+  });
+  
+  // No model on the server either - calculate what we can from the bundled food database
+  if (response.status === 503) {
+    console.log("No AI model configured - calculating the report from the local food database");
+    const selectedChild = childInfo.children?.find(child => child.id === childInfo.selectedChildId)
+      || childInfo.children?.[0];
+    const reportDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
+    return applyPlateWaste(
+      applySupplementSafetyCheck(
+        calculateLocalNutritionReport(foodItems, selectedChild, reportDate),
+        foodItems,
+        selectedChild,
+        reportDate
+      ),
+      foodItems,
+      selectedChild,
+      reportDate
+    );
+  }
+  
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    if (data.kind && Array.isArray(data.issues)) {
+      throw new ReportParseError(data.message, data.kind, data.issues);
+    }
+    throw new Error(data.message || `Report service error: ${response.status}`);
+  }
+  
+  return data as NutritionReport;
+}
+
 // Mock report function for testing - only used when test API keys are provided
 function getMockNutritionReport(foodItems: FoodItem[], childInfo: ChildInfo): NutritionReport {
   // Find the selected child
@@ -292,219 +312,6 @@ function getMockNutritionReport(foodItems: FoodItem[], childInfo: ChildInfo): Nu
   };
 }
 
-function createAnalysisPrompt(foodItems: FoodItem[], childInfo: ChildInfo, historyItems?: FoodItem[]): string {
-  // Find the selected child from the childInfo
-  const selectedChild = childInfo.children?.find(child => child.id === childInfo.selectedChildId) 
-    || childInfo.children?.[0] 
-    || { 
-      id: "",
-      name: "", 
-      dateOfBirth: null, 
-      gender: "", 
-      weight: null, 
-      height: null,
-      weightUnit: "lb",
-      heightUnit: "in",
-      restrictions: []
-    };
-  
-  // Calculate age from date of birth if available
-  let age: number | null = null;
-  if (selectedChild.dateOfBirth) {
-    const birthDate = new Date(selectedChild.dateOfBirth);
-    const today = new Date();
-    age = today.getFullYear() - birthDate.getFullYear();
-    const m = today.getMonth() - birthDate.getMonth();
-    if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
-      age--;
-    }
-  }
-  
-  // Determine the age group for nutritional guidance
-  const ageGroup = getAgeGroup(age);
-  
-  // Items to use for history analysis
-  const itemsForHistory = historyItems || foodItems;
-  
-  // Get current date
-  const currentDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
-  const currentDateObj = new Date(currentDate);
-  
-  // Calculate date 5 days ago for filtering history
-  const fiveDaysAgo = new Date(currentDateObj);
-  fiveDaysAgo.setDate(fiveDaysAgo.getDate() - 5);
-  const fiveDaysAgoStr = fiveDaysAgo.toISOString().split('T')[0];
-  
-  // Filter history items to only include those from the last 5 days and for the selected child
-  const recentHistoryItems = itemsForHistory.filter(item => {
-    const itemDate = item.date || new Date(item.createdAt).toISOString().split('T')[0];
-    const matchesChild = !selectedChild.id || !item.childId || item.childId === selectedChild.id;
-    // Include if date is between 5 days ago and current date, but not the current date itself
-    // And only include items for the selected child if childId is present
-    return itemDate >= fiveDaysAgoStr && itemDate < currentDate && matchesChild;
-  });
-  
-  console.log(`Including ${recentHistoryItems.length} items from the previous 5 days in nutrition analysis for child: ${selectedChild.name || 'Unknown'}`);
-  
-  // Group food items by date
-  const foodItemsByDate = recentHistoryItems.reduce((acc: {[key: string]: FoodItem[]}, item) => {
-    const date = item.date || new Date(item.createdAt).toISOString().split('T')[0];
-    if (!acc[date]) {
-      acc[date] = [];
-    }
-    acc[date].push(item);
-    return acc;
-  }, {});
-
-  // Create current day food items list, separating food and supplements
-  const selectedDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
-  
-  const regularFoodItems = foodItems.filter(item => item.type === 'food' || !item.type);
-  const supplementItems = foodItems.filter(item => item.type === 'supplement');
-  
-  const foodItemsList = regularFoodItems
-    .map((item) => `${item.quantity} ${item.unit} of ${item.name} (${item.mealType})`)
-    .join("\n");
-    
-  const supplementsList = supplementItems.length > 0 
-    ? supplementItems.map((item) => {
-        const dosageInfo = item.supplementInfo?.dosage ? ` - Dosage: ${item.supplementInfo.dosage}` : '';
-        const frequencyInfo = item.supplementInfo?.frequency ? ` - Frequency: ${item.supplementInfo.frequency}` : '';
-        const purposeInfo = item.supplementInfo?.purpose ? ` - Purpose: ${item.supplementInfo.purpose}` : '';
-        return `${item.quantity} ${item.unit} of ${item.name}${dosageInfo}${frequencyInfo}${purposeInfo}`;
-      }).join("\n")
-    : "None recorded";
-
-  // Create historical food data as JSON
-  // Format the history data in a more readable way for the AI
-  const historyJson = Object.keys(foodItemsByDate).length > 0 
-    ? JSON.stringify(foodItemsByDate, null, 2)
-    : "No historical data available from previous 5 days";
-
-  const restrictionsText = selectedChild.restrictions?.length > 0 && !selectedChild.restrictions.includes("none")
-    ? `The child has the following dietary restrictions: ${selectedChild.restrictions.join(", ")}.`
-    : "The child has no specific dietary restrictions.";
-    
-  // Format weight with appropriate unit
-  const weightText = selectedChild.weight !== null 
-    ? `Weight: ${selectedChild.weight} ${selectedChild.weightUnit || 'lb'}${selectedChild.weightUnit === 'lb' ? ' (convert to kg for analysis)' : ''}`
-    : "Weight: Not provided";
-    
-  // Format height with appropriate unit
-  const heightText = selectedChild.height !== null
-    ? `Height: ${selectedChild.height} ${selectedChild.heightUnit || 'in'}${selectedChild.heightUnit === 'in' ? ' (convert to cm for analysis)' : ''}`
-    : "Height: Not provided";
-
-  // Format age or date of birth for display
-  const ageText = selectedChild.dateOfBirth
-    ? `Date of Birth: ${selectedChild.dateOfBirth} (Age: ${age} years)`
-    : "Age: Not provided";
-
-  const prompt = `
-You are a pediatric nutritionist with expertise in child nutrition. Your task is to analyze the following food intake for a child and provide a comprehensive nutritional analysis.
-
-CHILD INFORMATION:
-${selectedChild.name ? `Name: ${selectedChild.name}` : ""}
-${ageText}
-${selectedChild.gender ? `Gender: ${selectedChild.gender}` : "Gender: Not provided"}
-${weightText}
-${heightText}
-${restrictionsText}
-
-CURRENT DAY FOOD INTAKE (${selectedDate}):
-${foodItemsList}
-
-CURRENT SUPPLEMENTS:
-${supplementsList}
-
-HISTORICAL FOOD DATA BY DATE (PREVIOUS 5 DAYS):
-${historyJson}
-
-ANALYSIS INSTRUCTIONS:
-1. IMPORTANT: The nutrition analysis (calories, macros, vitamins, minerals, nutrition score) is ONLY based on the CURRENT DAY's food intake.
-2. Determine the approximate caloric content and macronutrient breakdown (proteins, carbohydrates, fats, fiber) based on standard nutritional databases.
-3. Estimate the vitamin content (focusing on vitamins A, C, D, E, B vitamins).
-4. Estimate the mineral content (focusing on calcium, iron, zinc, potassium, sodium, magnesium).
-5. Compare the intake to age-appropriate recommended daily allowances for ${ageGroup}.
-6. Calculate a "nutrition score" as a percentage representing how well the current day's diet meets the child's nutritional needs.
-7. While the nutrition analysis is for the current day only, use the historical data (previous 5 days) to inform your recommendations and tips.
-8. Thoroughly review the historical data to identify patterns, trends, or recurring nutritional gaps across the 5-day history.
-9. Your recommendations and tips should specifically reference patterns observed in the historical data.
-10. Suggest 4-5 specific foods that would complement the current intake to improve nutritional balance, considering historical preferences.
-11. Provide 2-3 specific supplement recommendations if appropriate based on consistent nutritional gaps observed over time.
-12. Include 2-3 cautions about supplement usage, potential interactions, or considerations.
-
-IMPORTANT: Format your response as a valid JSON object using the schema below. Do not include any explanations, markdown formatting, or text outside the JSON object. The response must be directly parseable as JSON:
-
-{
-  "calories": number,
-  "caloriesTarget": number,
-  "nutritionScore": number,
-  "macronutrients": [
-    {
-      "name": string,
-      "value": string,
-      "unit": string,
-      "percentOfDaily": number,
-      "recommendedRange": string
-    }
-  ],
-  "vitamins": [
-    {
-      "name": string,
-      "value": string,
-      "unit": string, 
-      "percentOfDaily": number,
-      "recommendedRange": string
-    }
-  ],
-  "minerals": [
-    {
-      "name": string,
-      "value": string,
-      "unit": string,
-      "percentOfDaily": number,
-      "recommendedRange": string
-    }
-  ],
-  "recommendations": [
-    string
-  ],
-  "foodSuggestions": [
-    string
-  ],
-  "supplementRecommendations": [
-    string
-  ],
-  "supplementCautions": [
-    string
-  ]
-}
-
-Ensure the percentOfDaily values are between 0 and 100, representing the percentage of the daily recommended intake. The nutritionScore should be a number between 0 and 100.
-`;
-
-  return prompt;
-}
-
-function getAgeGroup(age: number | null): string {
-  if (age === null) {
-    return "children";
-  }
-  
-  if (age <= 1) {
-    return "infants (0-1 years)";
-  } else if (age <= 3) {
-    return "toddlers (1-3 years)";
-  } else if (age <= 8) {
-    return "young children (4-8 years)";
-  } else if (age <= 13) {
-    return "older children (9-13 years)";
-  } else {
-    return "adolescents (14-18 years)";
-  }
-}
-
 /**
  * Generates nutrition reports for multiple children in parallel
  * This function processes reports for multiple children at once
@@ -515,6 +322,8 @@ export async function generateMultiChildReport({
   childInfo,
   apiKey,
   model,
+  provider,
+  baseUrl,
 }: GenerateReportParams): Promise<MultiChildReport> {
   try {
     // Validate inputs
@@ -522,10 +331,6 @@ export async function generateMultiChildReport({
       throw new Error("No food items to analyze. Please add at least one food item.");
     }
     
-    if (!apiKey) {
-      throw new Error("Google Gemini API key is required. Please add it in the settings.");
-    }
-    
     if (!model) {
       throw new Error("No AI model selected. Please select a model in the settings.");
     }
@@ -577,16 +382,9 @@ export async function generateMultiChildReport({
         // Get food items for this child from the current day
         const currentDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
         
-        // Filter food items that are associated with this child
-        const childFoodItems = foodItems.filter(item => {
-          // Include item if:
-          // 1. The item's childIds array includes this child's id (primary check)
-          // 2. Or if childIds is not present, fallback to childId for backwards compatibility
-          // 3. Or if neither childIds nor childId is present, it applies to all children
-          return (item.childIds && item.childIds.includes(child.id)) || 
-                 (!item.childIds && item.childId === child.id) || 
-                 (!item.childIds && !item.childId);
-        });
+        // Filter food items that are associated with this child; their own portions
+        // and leftovers are applied when the report is generated
+        const childFoodItems = foodItems.filter(item => isItemForChild(item, child.id));
         
         if (childFoodItems.length === 0) {
           console.log(`No food items found for child ${child.name || child.id}`);
@@ -618,7 +416,9 @@ export async function generateMultiChildReport({
           historyItems,
           childInfo: singleChildInfo,
           apiKey,
-          model
+          model,
+          provider,
+          baseUrl
         });
         
         return [child.id, report];
@@ -667,31 +467,175 @@ export async function generateMultiChildReport({
 }
 
 /**
- * Returns the current list of Gemini models available for the nutrition analysis
- * This is a simplification since the API doesn't have a built-in way to list models
+ * Returns the models offered by the configured AI provider for the nutrition analysis
  */
-export async function fetchAvailableGeminiModels(apiKey: string): Promise<GeminiModel[]> {
+export async function fetchAvailableModels({
+  provider,
+  apiKey,
+  baseUrl,
+}: {
+  provider?: AIProviderId;
+  apiKey: string;
+  baseUrl?: string;
+}): Promise<AIModel[]> {
+  const aiProvider = getAIProvider(provider);
+  
+  if (aiProvider.requiresApiKey && !apiKey) {
+    throw new Error("API key is required to fetch available models");
+  }
+  
+  return aiProvider.listModels({ apiKey, model: "", baseUrl });
+}
+
+/**
+ * Checks that the configured provider accepts the API key (or is reachable, for local servers)
+ */
+export async function validateProviderKey({
+  provider,
+  apiKey,
+  baseUrl,
+}: {
+  provider?: AIProviderId;
+  apiKey: string;
+  baseUrl?: string;
+}): Promise<boolean> {
   try {
-    if (!apiKey) {
-      throw new Error("API key is required to fetch available models");
-    }
-    
-    // Only using Gemini 2.5 models as requested
-    const currentModels: GeminiModel[] = [
-      { id: "gemini-2.5-pro-preview-03-25", name: "Gemini 2.5 Pro Preview" },
-      { id: "gemini-2.5-flash-preview-04-17", name: "Gemini 2.5 Flash Preview" }
-    ];
-    
-    // Simulate a delay as if we're fetching from the API
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    return currentModels;
+    return await getAIProvider(provider).validateKey({ apiKey, model: "", baseUrl });
   } catch (error) {
-    console.error("Error preparing model list:", error);
-    
-    // Even in error case, only return Gemini 2.5 models
+    console.error("Error validating AI provider settings:", error);
+    return false;
+  }
+}
+
+interface AnalyzeMealPhotoParams {
+  image: AIImage;
+  apiKey: string;
+  model: string;
+  provider?: AIProviderId;
+  baseUrl?: string;
+}
+
+/**
+ * Asks a multimodal model which foods and drinks are in a meal photo, with estimated portions.
+ * The proposals are for the parent to confirm; nothing is logged here.
+ */
+export async function analyzeMealPhoto({
+  image,
+  apiKey,
+  model,
+  provider,
+  baseUrl,
+}: AnalyzeMealPhotoParams): Promise<ProposedFood[]> {
+  if (!model) {
+    throw new Error("No AI model selected. Please select a model in the settings.");
+  }
+
+  const aiProvider = getAIProvider(provider);
+  if (!apiKey && aiProvider.requiresApiKey) {
+    throw new Error("Photo analysis calls the model from this browser. Turn on \"Use my own API key\" in the settings and add a key.");
+  }
+
+  // Placeholder proposals for test keys, like the placeholder report
+  if (apiKey === 'test123' || apiKey === 'test' || apiKey === 'development') {
     return [
-      { id: "gemini-2.5-flash-preview-04-17", name: "Gemini 2.5 Flash Preview" }
+      { name: "Scrambled eggs", quantity: 0.5, unit: "cup", type: "food", confidence: "high" },
+      { name: "Whole wheat toast", quantity: 1, unit: "piece", type: "food", confidence: "medium" },
+      { name: "Orange juice", quantity: 1, unit: "glass", type: "drink", confidence: "low" },
     ];
   }
+
+  const units = {
+    food: FOOD_UNITS.map(unit => unit.value),
+    drink: DRINK_UNITS.map(unit => unit.value),
+  };
+  const textResponse = await aiProvider.describeImage(createMealPhotoPrompt(units), image, { apiKey, model, baseUrl });
+  return parseMealPhotoResponse(textResponse, units);
+}
+
+interface ParseQuickAddParams {
+  text: string;
+  vocabulary: QuickAddVocabulary;
+  apiKey: string;
+  model: string;
+  provider?: AIProviderId;
+  baseUrl?: string;
+}
+
+/**
+ * Asks the AI model to split a free-text note into foods and drinks, for text the local quick-add parser couldn't read.
+ * Units, meals and children are limited to the given vocabulary.
+ */
+export async function parseQuickAddWithAI({
+  text,
+  vocabulary,
+  apiKey,
+  model,
+  provider,
+  baseUrl,
+}: ParseQuickAddParams): Promise<QuickAddResult> {
+  if (!model) {
+    throw new Error("No AI model selected. Please select a model in the settings.");
+  }
+
+  const aiProvider = getAIProvider(provider);
+  if (!apiKey && aiProvider.requiresApiKey) {
+    throw new Error("Reading the note with AI calls the model from this browser. Turn on \"Use my own API key\" in the settings and add a key.");
+  }
+
+  const textResponse = await aiProvider.generateJson(createQuickAddPrompt(text, vocabulary), { apiKey, model, baseUrl }, quickAddResponseSchema);
+  return parseQuickAddResponse(textResponse, vocabulary);
+}
+
+interface PlanTomorrowParams {
+  report: NutritionReport;
+  child?: Child;
+  history: FoodItem[];
+  date: string;
+  apiKey: string;
+  model: string;
+  provider?: AIProviderId;
+  baseUrl?: string;
+}
+
+/**
+ * Asks the AI model for a day of foods aimed at the nutrients the report found low, leaving out the child's allergens and restricted foods.
+ * Without a key in the browser the server asks its own model. Resolves to null when there is nothing to plan for; throws when no model can be reached.
+ */
+export async function planTomorrowWithAI({
+  report,
+  child,
+  history,
+  date,
+  apiKey,
+  model,
+  provider,
+  baseUrl,
+}: PlanTomorrowParams): Promise<TomorrowPlan | null> {
+  const aiProvider = getAIProvider(provider);
+  const recentHistory = selectPlanHistory(history, child, date);
+
+  if (apiKey || !aiProvider.requiresApiKey) {
+    if (!model) {
+      throw new Error("No AI model selected. Please select a model in the settings.");
+    }
+    return requestTomorrowPlan(
+      (prompt) => aiProvider.generateJson(prompt, { apiKey, model, baseUrl }, tomorrowPlanResponseSchema),
+      report,
+      child,
+      recentHistory,
+      date
+    );
+  }
+
+  const response = await fetch("/api/plans/tomorrow", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ report, child, history: recentHistory, date, model: model || undefined }),
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Planning failed: ${response.status}`);
+  }
+  return response.json();
 }
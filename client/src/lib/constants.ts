@@ -4,6 +4,15 @@ export const GEMINI_MODELS = [
   { id: "gemini-2.5-flash-preview-04-17", name: "Gemini 2.5 Flash Preview" },
 ];
 
+// AI Providers
+export const AI_PROVIDERS = [
+  { value: "gemini", label: "Google Gemini" },
+  { value: "openai-compatible", label: "OpenAI-compatible (llama.cpp, Ollama, ...)" },
+] as const;
+
+// Default server URL for OpenAI-compatible providers (Ollama's local endpoint)
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
 // Food Units
 export const FOOD_UNITS = [
   { value: "piece", label: "piece(s)" },
@@ -67,6 +76,14 @@ export const SUPPLEMENT_FREQUENCIES = [
   { value: "after_food", label: "After food" },
 ];
 
+// Physical activity levels used by the energy requirement equations
+export const ACTIVITY_LEVELS = [
+  { value: "sedentary", label: "Sedentary", description: "Mostly sitting; little active play" },
+  { value: "low-active", label: "Low active", description: "About 30-60 minutes of active play a day" },
+  { value: "active", label: "Active", description: "At least 60 minutes of active play a day" },
+  { value: "very-active", label: "Very active", description: "Several hours of sport or active play a day" },
+] as const;
+
 // Dietary Restrictions
 export const DIETARY_RESTRICTIONS = [
   { value: "none", label: "None" },
@@ -86,6 +103,11 @@ export const STORAGE_KEYS = {
   MULTI_CHILD_REPORT: "nutrikids-multi-child-report",
   FOOD_PLANS: "nutrikids-food-plans",
   REPORT_HISTORY: "nutrikids-report-history",
+  PRODUCTS: "nutrikids-products",
+  CUSTOM_FOODS: "nutrikids-custom-foods",
+  RECIPES: "nutrikids-recipes",
+  MEAL_PHOTOS: "nutrikids-meal-photos",
+  PLANNED_ITEMS: "nutrikids-planned-items",
 };
 
 // Default Values
@@ -99,6 +121,9 @@ export const DEFAULT_CHILD = {
   weightUnit: "lb" as const,
   heightUnit: "in" as const,
   restrictions: [],
+  allergies: [],
+  activityLevel: "low-active" as const,
+  measurements: [],
   isSelected: true,
   createdAt: Date.now(),
 };
@@ -111,6 +136,9 @@ export const DEFAULT_CHILD_INFO = {
 export const DEFAULT_APP_SETTINGS = {
   apiKey: "",
   selectedModel: "gemini-2.5-flash-preview-04-17",
+  aiProvider: "gemini" as const,
+  aiBaseUrl: "",
+  useBrowserApiKey: false,
   darkMode: false,
 };
 
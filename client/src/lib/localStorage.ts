@@ -1,7 +1,10 @@
-import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem, MultiChildReport } from "@shared/schema";
+import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem, MultiChildReport, CustomFood, Recipe, PlannedItem } from "@shared/schema";
+import type { ProductRecord } from "@shared/product-database";
 import { DEFAULT_APP_SETTINGS, DEFAULT_CHILD_INFO, DEFAULT_CHILD, STORAGE_KEYS } from "./constants";
+import { getBrowserApiKey, usesBrowserApiKey } from "./ai-providers";
 
-// Simple encryption function for API keys
+// Obfuscation only: anything that can run script on the page can read the key.
+// That is why keys are only kept when the user chose to call Gemini from the browser.
 function encryptApiKey(key: string): string {
   // Basic encryption using Base64 and reversing the string for session storage
   if (!key) return '';
@@ -65,6 +68,12 @@ export function getChildInfo(): ChildInfo {
           if (!child.heightUnit) {
             child.heightUnit = DEFAULT_CHILD.heightUnit;
           }
+          if (!child.measurements) {
+            child.measurements = [];
+          }
+          if (!child.allergies) {
+            child.allergies = [];
+          }
         });
       }
       
@@ -103,8 +112,15 @@ export function getAppSettings(): AppSettings {
       const oneYearInMs = 365 * 24 * 60 * 60 * 1000;
       const currentTime = new Date().getTime();
       
-      if (currentTime - fullSettings.apiKeyTimestamp > oneYearInMs) {
-        // API key has expired, clear it
+      // Keys saved before reports could go through the server were used by
+      // the browser; keep doing that rather than dropping the user's key
+      if (parsedSettings.useBrowserApiKey === undefined) {
+        fullSettings.useBrowserApiKey = true;
+      }
+      
+      // Clear keys that have expired, and keys the browser no longer uses
+      if (currentTime - fullSettings.apiKeyTimestamp > oneYearInMs ||
+          !usesBrowserApiKey(fullSettings)) {
         fullSettings.apiKey = "";
         delete (fullSettings as any).encryptedApiKey;
         saveAppSettings(fullSettings);
@@ -126,8 +142,8 @@ export function saveAppSettings(settings: AppSettings): void {
     // Create a copy of settings that we can modify
     const settingsToSave = { ...settings } as any;
     
-    // If the API key is being updated, encrypt it and add a timestamp
-    if (settings.apiKey) {
+    // Only a key the browser will use is kept; encrypt it and add a timestamp
+    if (getBrowserApiKey(settings)) {
       settingsToSave.encryptedApiKey = encryptApiKey(settings.apiKey);
       settingsToSave.apiKeyTimestamp = new Date().getTime();
       
@@ -137,8 +153,9 @@ export function saveAppSettings(settings: AppSettings): void {
       
       localStorage.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(safeSettings));
     } else {
-      // Make sure apiKey is not undefined
-      settingsToSave.apiKey = settingsToSave.apiKey || "";
+      settingsToSave.apiKey = "";
+      delete settingsToSave.encryptedApiKey;
+      delete settingsToSave.apiKeyTimestamp;
       localStorage.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(settingsToSave));
     }
     
@@ -354,6 +371,95 @@ export function getDefaultFoodPlan(): FoodPlan | null {
   }
 }
 
+// Custom foods management
+export function getCustomFoods(): CustomFood[] {
+  try {
+    const foods = localStorage.getItem(STORAGE_KEYS.CUSTOM_FOODS);
+    return foods ? JSON.parse(foods) : [];
+  } catch (error) {
+    console.error("Error retrieving custom foods from localStorage:", error);
+    return [];
+  }
+}
+
+export function saveCustomFood(food: CustomFood): void {
+  try {
+    const foods = getCustomFoods();
+    const existingIndex = foods.findIndex(f => f.id === food.id);
+    if (existingIndex >= 0) {
+      foods[existingIndex] = food;
+    } else {
+      foods.push(food);
+    }
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_FOODS, JSON.stringify(foods));
+  } catch (error) {
+    console.error("Error saving custom food to localStorage:", error);
+  }
+}
+
+export function deleteCustomFood(foodId: string): void {
+  try {
+    const foods = getCustomFoods().filter(food => food.id !== foodId);
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_FOODS, JSON.stringify(foods));
+  } catch (error) {
+    console.error("Error deleting custom food from localStorage:", error);
+  }
+}
+
+// Recipes management
+export function getRecipes(): Recipe[] {
+  try {
+    const recipes = localStorage.getItem(STORAGE_KEYS.RECIPES);
+    return recipes ? JSON.parse(recipes) : [];
+  } catch (error) {
+    console.error("Error retrieving recipes from localStorage:", error);
+    return [];
+  }
+}
+
+export function saveRecipe(recipe: Recipe): void {
+  try {
+    const recipes = getRecipes();
+    const existingIndex = recipes.findIndex(r => r.id === recipe.id);
+    if (existingIndex >= 0) {
+      recipes[existingIndex] = recipe;
+    } else {
+      recipes.push(recipe);
+    }
+    localStorage.setItem(STORAGE_KEYS.RECIPES, JSON.stringify(recipes));
+  } catch (error) {
+    console.error("Error saving recipe to localStorage:", error);
+  }
+}
+
+export function deleteRecipe(recipeId: string): void {
+  try {
+    const recipes = getRecipes().filter(recipe => recipe.id !== recipeId);
+    localStorage.setItem(STORAGE_KEYS.RECIPES, JSON.stringify(recipes));
+  } catch (error) {
+    console.error("Error deleting recipe from localStorage:", error);
+  }
+}
+
+// Planned items management
+export function getPlannedItems(): PlannedItem[] {
+  try {
+    const items = localStorage.getItem(STORAGE_KEYS.PLANNED_ITEMS);
+    return items ? JSON.parse(items) : [];
+  } catch (error) {
+    console.error("Error retrieving planned items from localStorage:", error);
+    return [];
+  }
+}
+
+export function savePlannedItems(items: PlannedItem[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.PLANNED_ITEMS, JSON.stringify(items));
+  } catch (error) {
+    console.error("Error saving planned items to localStorage:", error);
+  }
+}
+
 // Multi-child report management
 export function getMultiChildReport(): MultiChildReport | null {
   try {
@@ -395,3 +501,69 @@ export function clearMultiChildReport(): void {
     console.error("Error clearing multi-child report from localStorage:", error);
   }
 }
+
+// Imported packaged-food products, looked up by barcode
+export function getProducts(): ProductRecord[] {
+  try {
+    const products = localStorage.getItem(STORAGE_KEYS.PRODUCTS);
+    return products ? JSON.parse(products) : [];
+  } catch (error) {
+    console.error("Error retrieving products from localStorage:", error);
+    return [];
+  }
+}
+
+// Throws when the browser's storage quota is exceeded, so imports can report it
+export function saveProducts(products: ProductRecord[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
+  } catch (error) {
+    console.error("Error saving products to localStorage:", error);
+    throw new Error("Not enough browser storage for this many products. Try importing a smaller file.");
+  }
+}
+
+export function clearProducts(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.PRODUCTS);
+  } catch (error) {
+    console.error("Error clearing products from localStorage:", error);
+  }
+}
+
+// Meal photos, as data URLs keyed by the photo id saved on food items
+function getMealPhotos(): Record<string, string> {
+  try {
+    const photos = localStorage.getItem(STORAGE_KEYS.MEAL_PHOTOS);
+    return photos ? JSON.parse(photos) : {};
+  } catch (error) {
+    console.error("Error retrieving meal photos from localStorage:", error);
+    return {};
+  }
+}
+
+export function getMealPhoto(photoId: string): string | null {
+  return getMealPhotos()[photoId] ?? null;
+}
+
+// Throws when the browser's storage quota is exceeded, so the photo form can report it
+export function saveMealPhoto(photoId: string, dataUrl: string): void {
+  try {
+    const photos = getMealPhotos();
+    photos[photoId] = dataUrl;
+    localStorage.setItem(STORAGE_KEYS.MEAL_PHOTOS, JSON.stringify(photos));
+  } catch (error) {
+    console.error("Error saving meal photo to localStorage:", error);
+    throw new Error("Not enough browser storage for this photo. Delete some older photos and try again.");
+  }
+}
+
+export function deleteMealPhoto(photoId: string): void {
+  try {
+    const photos = getMealPhotos();
+    delete photos[photoId];
+    localStorage.setItem(STORAGE_KEYS.MEAL_PHOTOS, JSON.stringify(photos));
+  } catch (error) {
+    console.error("Error deleting meal photo from localStorage:", error);
+  }
+}
@@ -1,4 +1,5 @@
-import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem, MultiChildReport } from '@shared/schema';
+import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem, MultiChildReport, CustomFood, Recipe, PlannedItem } from '@shared/schema';
+import type { ProductRecord } from '@shared/product-database';
 import { useLocalStorageFallback } from './env';
 
 // Import storage implementations
@@ -106,6 +107,49 @@ export async function getDefaultFoodPlan(): Promise<FoodPlan | null> {
   return storage.getDefaultFoodPlan();
 }
 
+// Custom Foods
+export async function getCustomFoods(): Promise<CustomFood[]> {
+  const storage = getStorage();
+  return storage.getCustomFoods();
+}
+
+export async function saveCustomFood(food: CustomFood): Promise<void> {
+  const storage = getStorage();
+  return storage.saveCustomFood(food);
+}
+
+export async function deleteCustomFood(foodId: string): Promise<void> {
+  const storage = getStorage();
+  return storage.deleteCustomFood(foodId);
+}
+
+// Recipes
+export async function getRecipes(): Promise<Recipe[]> {
+  const storage = getStorage();
+  return storage.getRecipes();
+}
+
+export async function saveRecipe(recipe: Recipe): Promise<void> {
+  const storage = getStorage();
+  return storage.saveRecipe(recipe);
+}
+
+export async function deleteRecipe(recipeId: string): Promise<void> {
+  const storage = getStorage();
+  return storage.deleteRecipe(recipeId);
+}
+
+// Planned Items
+export async function getPlannedItems(): Promise<PlannedItem[]> {
+  const storage = getStorage();
+  return storage.getPlannedItems();
+}
+
+export async function savePlannedItems(items: PlannedItem[]): Promise<void> {
+  const storage = getStorage();
+  return storage.savePlannedItems(items);
+}
+
 // Multi-Child Reports
 export async function getMultiChildReport(): Promise<MultiChildReport | null> {
   const storage = getStorage();
@@ -136,4 +180,32 @@ export async function clearMultiChildReport(): Promise<void> {
   } catch (error) {
     console.error("Error clearing multi-child report:", error);
   }
-}
\ No newline at end of file
+}
+
+// Product Database
+// Imported product dumps are reference data for this device, so they always stay in localStorage
+export async function getProducts(): Promise<ProductRecord[]> {
+  return localStorageImpl.getProducts();
+}
+
+export async function saveProducts(products: ProductRecord[]): Promise<void> {
+  return localStorageImpl.saveProducts(products);
+}
+
+export async function clearProducts(): Promise<void> {
+  return localStorageImpl.clearProducts();
+}
+
+// Meal Photos
+// Photos stay on this device; food items only keep the photo id
+export async function getMealPhoto(photoId: string): Promise<string | null> {
+  return localStorageImpl.getMealPhoto(photoId);
+}
+
+export async function saveMealPhoto(photoId: string, dataUrl: string): Promise<void> {
+  return localStorageImpl.saveMealPhoto(photoId, dataUrl);
+}
+
+export async function deleteMealPhoto(photoId: string): Promise<void> {
+  return localStorageImpl.deleteMealPhoto(photoId);
+}
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem } from '@shared/schema';
+import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem, CustomFood, Recipe, PlannedItem } from '@shared/schema';
 
 // Initialize Supabase client with environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || "https://mhueqqoewuxcylblvssu.supabase.co";
@@ -15,6 +15,10 @@ export type Tables = {
   nutrition_reports: NutritionReport;
   food_plans: FoodPlan;
   report_history: ReportHistoryItem;
+  // Defined in supabase/migrations
+  custom_foods: CustomFood;
+  recipes: Recipe;
+  planned_items: PlannedItem;
 };
 
 // Helper functions to interact with Supabase
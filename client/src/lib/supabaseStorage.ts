@@ -1,5 +1,5 @@
 import { supabase, handleSupabaseError } from './supabase';
-import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem } from '@shared/schema';
+import { FoodItem, ChildInfo, AppSettings, NutritionReport, FoodPlan, ReportHistoryItem, CustomFood, Recipe, PlannedItem } from '@shared/schema';
 import { STORAGE_KEYS, DEFAULT_CHILD_INFO, DEFAULT_APP_SETTINGS } from './constants';
 import { getFoodItems as getLocalFoodItems, 
   getChildInfo as getLocalChildInfo, 
@@ -13,6 +13,14 @@ import { getFoodItems as getLocalFoodItems,
   saveNutritionReport as saveLocalNutritionReport,
   saveFoodPlan as saveLocalFoodPlan,
   deleteFoodPlan as deleteLocalFoodPlan,
+  getCustomFoods as getLocalCustomFoods,
+  saveCustomFood as saveLocalCustomFood,
+  deleteCustomFood as deleteLocalCustomFood,
+  getRecipes as getLocalRecipes,
+  saveRecipe as saveLocalRecipe,
+  deleteRecipe as deleteLocalRecipe,
+  getPlannedItems as getLocalPlannedItems,
+  savePlannedItems as saveLocalPlannedItems,
   saveReportToHistory as saveLocalReportToHistory,
   deleteReportFromHistory as deleteLocalReportFromHistory,
   clearFoodItems as clearLocalFoodItems,
@@ -154,7 +162,9 @@ export async function getAppSettings(): Promise<AppSettings> {
       
     if (error) throw error;
     
-    return data as AppSettings || DEFAULT_APP_SETTINGS;
+    // The API key never leaves this browser; it is kept in localStorage
+    const { apiKey } = getLocalAppSettings();
+    return { ...(data as AppSettings || DEFAULT_APP_SETTINGS), apiKey };
   } catch (error) {
     handleSupabaseError(error, 'getAppSettings');
     // Fall back to localStorage
@@ -163,6 +173,9 @@ export async function getAppSettings(): Promise<AppSettings> {
 }
 
 export async function saveAppSettings(settings: AppSettings): Promise<void> {
+  // Keep the API key, if any, in this browser only
+  saveLocalAppSettings(settings);
+  
   try {
     const { data, error: checkError } = await supabase
       .from('app_settings')
@@ -172,8 +185,9 @@ export async function saveAppSettings(settings: AppSettings): Promise<void> {
       
     if (checkError) throw checkError;
     
+    const { apiKey, encryptedApiKey, apiKeyTimestamp, ...sharedSettings } = settings;
     const settingsWithUserId = {
-      ...settings,
+      ...sharedSettings,
       user_id: USER_ID
     };
     
@@ -195,8 +209,6 @@ export async function saveAppSettings(settings: AppSettings): Promise<void> {
     }
   } catch (error) {
     handleSupabaseError(error, 'saveAppSettings');
-    // Fall back to localStorage
-    saveLocalAppSettings(settings);
   }
 }
 
@@ -414,4 +426,142 @@ export async function getDefaultFoodPlan(): Promise<FoodPlan | null> {
     const plans = getLocalFoodPlans();
     return plans.find(plan => plan.isDefault) || null;
   }
+}
+
+// CUSTOM FOODS
+export async function getCustomFoods(): Promise<CustomFood[]> {
+  try {
+    const { data, error } = await supabase
+      .from('custom_foods')
+      .select('*')
+      .eq('user_id', USER_ID);
+      
+    if (error) throw error;
+    
+    return data as CustomFood[] || [];
+  } catch (error) {
+    handleSupabaseError(error, 'getCustomFoods');
+    // Fall back to localStorage
+    return getLocalCustomFoods();
+  }
+}
+
+export async function saveCustomFood(food: CustomFood): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('custom_foods')
+      .upsert({ ...food, user_id: USER_ID });
+      
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'saveCustomFood');
+    // Fall back to localStorage
+    saveLocalCustomFood(food);
+  }
+}
+
+export async function deleteCustomFood(foodId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('custom_foods')
+      .delete()
+      .eq('id', foodId)
+      .eq('user_id', USER_ID);
+      
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'deleteCustomFood');
+    // Fall back to localStorage
+    deleteLocalCustomFood(foodId);
+  }
+}
+
+// RECIPES
+export async function getRecipes(): Promise<Recipe[]> {
+  try {
+    const { data, error } = await supabase
+      .from('recipes')
+      .select('*')
+      .eq('user_id', USER_ID);
+      
+    if (error) throw error;
+    
+    return data as Recipe[] || [];
+  } catch (error) {
+    handleSupabaseError(error, 'getRecipes');
+    // Fall back to localStorage
+    return getLocalRecipes();
+  }
+}
+
+export async function saveRecipe(recipe: Recipe): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('recipes')
+      .upsert({ ...recipe, user_id: USER_ID });
+      
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'saveRecipe');
+    // Fall back to localStorage
+    saveLocalRecipe(recipe);
+  }
+}
+
+export async function deleteRecipe(recipeId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('recipes')
+      .delete()
+      .eq('id', recipeId)
+      .eq('user_id', USER_ID);
+      
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'deleteRecipe');
+    // Fall back to localStorage
+    deleteLocalRecipe(recipeId);
+  }
+}
+
+// PLANNED ITEMS
+export async function getPlannedItems(): Promise<PlannedItem[]> {
+  try {
+    const { data, error } = await supabase
+      .from('planned_items')
+      .select('*')
+      .eq('user_id', USER_ID);
+      
+    if (error) throw error;
+    
+    return data as PlannedItem[] || [];
+  } catch (error) {
+    handleSupabaseError(error, 'getPlannedItems');
+    // Fall back to localStorage
+    return getLocalPlannedItems();
+  }
+}
+
+export async function savePlannedItems(items: PlannedItem[]): Promise<void> {
+  try {
+    // Replace all planned items for this user, like the food log
+    const { error: deleteError } = await supabase
+      .from('planned_items')
+      .delete()
+      .eq('user_id', USER_ID);
+      
+    if (deleteError) throw deleteError;
+    
+    if (items.length > 0) {
+      const { error: insertError } = await supabase
+        .from('planned_items')
+        .insert(items.map(item => ({ ...item, user_id: USER_ID })));
+        
+      if (insertError) throw insertError;
+    }
+  } catch (error) {
+    handleSupabaseError(error, 'savePlannedItems');
+    // Fall back to localStorage
+    saveLocalPlannedItems(items);
+  }
 }
\ No newline at end of file
@@ -1,14 +1,18 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { format } from "date-fns";
 import { FoodItem, NutritionReport, FoodPlan, ReportHistoryItem, ChildInfo, MultiChildReport } from "@shared/schema";
+import { ReportParseError } from "@shared/nutrition-analysis";
 import Header from "@/components/header";
 import FoodEntryForm from "@/components/food-entry-form";
 import SupplementEntryForm from "@/components/supplement-entry-form";
 import FoodItemList from "@/components/food-item-list";
+import QuickAddBox from "@/components/quick-add-box";
 import FoodPlanManager from "@/components/food-plan-manager";
+import MealPlannerDialog from "@/components/meal-planner-dialog";
 import DateSelector from "@/components/date-selector";
 import NutritionReportView from "@/components/report/report-view";
 import ReportHistoryModal from "@/components/report/report-history-modal";
+import GrowthChartModal from "@/components/report/growth-chart-modal";
 import MultiChildReportTabs from "@/components/report/multi-child-report-tabs";
 import { APP_IMAGES } from "@/lib/constants";
 import { 
@@ -28,8 +32,9 @@ import {
   clearMultiChildReport
 } from "@/lib/storage";
 import { Button } from "@/components/ui/button";
-import { ChartPie, Apple, Pill, BookmarkPlus, Save, BookmarkCheck, Star, Coffee, Upload, Trash2, MinusCircle, History, FileText, Users, Bookmark, Search, ArrowLeft } from "lucide-react";
+import { ChartPie, Apple, Pill, BookmarkPlus, Save, BookmarkCheck, Star, Coffee, Upload, Trash2, MinusCircle, History, FileText, Users, Bookmark, Search, ArrowLeft, TrendingUp, CalendarDays } from "lucide-react";
 import { generateNutritionReport, generateMultiChildReport } from "@/lib/ai";
+import { getBrowserApiKey } from "@/lib/ai-providers";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -37,18 +42,22 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 
 export default function Home() {
   const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
+  // Latest items, so several adds or updates in a row (photo logging, leftovers) build on each other
+  const foodItemsRef = useRef<FoodItem[]>([]);
   const [view, setView] = useState<"entry" | "report">("entry");
   const [entryType, setEntryType] = useState<"food" | "drink" | "supplement">("food");
   const [isLoading, setIsLoading] = useState(false);
   const [report, setReport] = useState<NutritionReport | null>(null);
   const [multiChildReport, setMultiChildReport] = useState<MultiChildReport | null>(null);
-  const [reportError, setReportError] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | ReportParseError | null>(null);
   const [selectedDate, setSelectedDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
   const [plans, setPlans] = useState<FoodPlan[]>([]);
   const [reportHistory, setReportHistory] = useState<ReportHistoryItem[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isLoadDialogOpen, setIsLoadDialogOpen] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+  const [isGrowthModalOpen, setIsGrowthModalOpen] = useState(false);
   const [childInfo, setChildInfo] = useState<ChildInfo | null>(null);
   const { toast } = useToast();
   
@@ -132,6 +141,10 @@ export default function Home() {
     });
   }, [foodItems, selectedDate, selectedChildId]);
 
+  useEffect(() => {
+    foodItemsRef.current = foodItems;
+  }, [foodItems]);
+
   const handleAddFood = async (food: FoodItem) => {
     // Associate the food item with the selected child (if any)
     const foodWithChildId = {
@@ -139,7 +152,8 @@ export default function Home() {
       childId: selectedChildId || undefined
     };
     
-    const updatedItems = [...foodItems, foodWithChildId];
+    const updatedItems = [...foodItemsRef.current, foodWithChildId];
+    foodItemsRef.current = updatedItems;
     setFoodItems(updatedItems);
     try {
       await saveFoodItems(updatedItems);
@@ -149,9 +163,10 @@ export default function Home() {
   };
 
   const handleUpdateFood = async (id: string, updatedItem: Partial<FoodItem>) => {
-    const updatedItems = foodItems.map((item) => 
+    const updatedItems = foodItemsRef.current.map((item) => 
       item.id === id ? { ...item, ...updatedItem } : item
     );
+    foodItemsRef.current = updatedItems;
     setFoodItems(updatedItems);
     try {
       await saveFoodItems(updatedItems);
@@ -170,6 +185,22 @@ export default function Home() {
     }
   };
   
+  // Planned items come with their own dates and children
+  const handleApplyPlannedItems = async (items: FoodItem[]) => {
+    const updatedItems = [...foodItemsRef.current, ...items];
+    foodItemsRef.current = updatedItems;
+    setFoodItems(updatedItems);
+    try {
+      await saveFoodItems(updatedItems);
+      toast({
+        title: "Planned meals added",
+        description: `${items.length} planned items have been added to today's log.`,
+      });
+    } catch (error) {
+      console.error("Error adding planned items:", error);
+    }
+  };
+
   const handleLoadFoodPlan = async (items: FoodItem[]) => {
     // Filter items to only include those for the selected date
     const itemsForSelectedDate = items.map(item => ({
@@ -311,17 +342,6 @@ export default function Home() {
       const settings = await getAppSettings();
       const childInfo = await getChildInfo();
 
-      if (!settings.apiKey) {
-        const errorMsg = "Google Gemini API key is required. Please add it in the settings.";
-        setReportError(errorMsg);
-        toast({
-          title: "API Key Missing",
-          description: errorMsg,
-          variant: "destructive",
-        });
-        return;
-      }
-      
       if (!settings.selectedModel) {
         const errorMsg = "Please select an AI model in the settings.";
         setReportError(errorMsg);
@@ -352,8 +372,10 @@ export default function Home() {
         foodItems: itemsForDate, // All items for the current date
         historyItems: foodItems,  // All historical items for context and recommendations
         childInfo,
-        apiKey: settings.apiKey,
+        apiKey: getBrowserApiKey(settings),
         model: settings.selectedModel,
+        provider: settings.aiProvider,
+        baseUrl: settings.aiBaseUrl,
       });
 
       // Successfully generated multi-child report
@@ -383,7 +405,7 @@ export default function Home() {
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
       
       // Set the error to be displayed in the report view
-      setReportError(errorMessage);
+      setReportError(error instanceof ReportParseError ? error : errorMessage);
       
       toast({
         title: "Error Generating Nutrition Report",
@@ -412,17 +434,6 @@ export default function Home() {
       const settings = await getAppSettings();
       const childInfo = await getChildInfo();
 
-      if (!settings.apiKey) {
-        const errorMsg = "Google Gemini API key is required. Please add it in the settings.";
-        setReportError(errorMsg);
-        toast({
-          title: "API Key Missing",
-          description: errorMsg,
-          variant: "destructive",
-        });
-        return;
-      }
-      
       if (!settings.selectedModel) {
         const errorMsg = "Please select an AI model in the settings.";
         setReportError(errorMsg);
@@ -438,8 +449,10 @@ export default function Home() {
         foodItems: filteredItems, // Only items for the current date - these are used for the nutritional analysis
         historyItems: foodItems,  // All historical items for context and recommendations
         childInfo,
-        apiKey: settings.apiKey,
+        apiKey: getBrowserApiKey(settings),
         model: settings.selectedModel,
+        provider: settings.aiProvider,
+        baseUrl: settings.aiBaseUrl,
       });
 
       // Successfully generated report
@@ -452,7 +465,7 @@ export default function Home() {
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
       
       // Set the error to be displayed in the report view
-      setReportError(errorMessage);
+      setReportError(error instanceof ReportParseError ? error : errorMessage);
       
       toast({
         title: "Error Generating Report",
@@ -481,15 +494,27 @@ export default function Home() {
             <div id="itemsListContainer" className="mt-4 mb-6">
               <div className="flex justify-between items-center mb-2">
                 <h3 className="font-inter font-semibold text-lg">Added Items</h3>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setIsLoadDialogOpen(true)}
-                  className="text-purple-600 border-purple-200 hover:bg-purple-50"
-                >
-                  <Bookmark className="mr-1 h-4 w-4" /> Food Plans
-                </Button>
+                <div className="flex gap-2">
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setIsPlannerOpen(true)}
+                    className="text-purple-600 border-purple-200 hover:bg-purple-50"
+                  >
+                    <CalendarDays className="mr-1 h-4 w-4" /> Planner
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setIsLoadDialogOpen(true)}
+                    className="text-purple-600 border-purple-200 hover:bg-purple-50"
+                  >
+                    <Bookmark className="mr-1 h-4 w-4" /> Food Plans
+                  </Button>
+                </div>
               </div>
+
+              <QuickAddBox onAddFood={handleAddFood} selectedDate={selectedDate} />
               
               <FoodItemList 
                 items={filteredItems} 
@@ -533,6 +558,14 @@ export default function Home() {
               </div>
             )}
 
+            <Button
+              onClick={() => setIsGrowthModalOpen(true)}
+              className="w-full mt-2 text-purple-600 border-purple-200 hover:bg-purple-50"
+              variant="outline"
+            >
+              <TrendingUp className="mr-2 h-4 w-4" /> Growth Chart
+            </Button>
+
             {/* Save Plan Dialog */}
             <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
               <DialogContent>
@@ -656,6 +689,14 @@ export default function Home() {
               </DialogContent>
             </Dialog>
             
+            {/* Meal Planner Dialog */}
+            <MealPlannerDialog
+              isOpen={isPlannerOpen}
+              onClose={() => setIsPlannerOpen(false)}
+              loggedItems={foodItems}
+              onApplyToLog={handleApplyPlannedItems}
+            />
+
             {/* Load Plan Dialog */}
             <Dialog open={isLoadDialogOpen} onOpenChange={setIsLoadDialogOpen}>
               <DialogContent className="max-w-md w-full">
@@ -926,6 +967,13 @@ export default function Home() {
           onClose={() => setIsHistoryModalOpen(false)}
           onSelectReport={handleSelectHistoryReport}
         />
+
+        {/* Growth Chart Modal */}
+        <GrowthChartModal
+          isOpen={isGrowthModalOpen}
+          onClose={() => setIsGrowthModalOpen(false)}
+          onChildInfoChange={setChildInfo}
+        />
       </main>
 
 
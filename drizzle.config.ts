@@ -6,7 +6,8 @@ if (!process.env.DATABASE_URL) {
 
 export default defineConfig({
   out: "./migrations",
-  schema: "./shared/schema.ts",
+  // The app's tables live in server/db.ts; shared/schema.ts has the users table
+  schema: ["./shared/schema.ts", "./server/db.ts"],
   dialect: "postgresql",
   dbCredentials: {
     url: process.env.DATABASE_URL,
@@ -0,0 +1,81 @@
+-- Tables as they were before multi-child support. Databases created by hand
+-- from the original schema already have them; new databases get them here
+-- so the next migration can upgrade both the same way.
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "app_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"api_key" text,
+	"selected_model" text DEFAULT 'gemini-2.5-flash',
+	"encrypted_api_key" text,
+	"api_key_timestamp" integer,
+	"dark_mode" boolean DEFAULT false,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "child_info" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text,
+	"age" integer,
+	"gender" text NOT NULL,
+	"weight" integer,
+	"height" integer,
+	"weight_unit" text DEFAULT 'lb' NOT NULL,
+	"height_unit" text DEFAULT 'in' NOT NULL,
+	"restrictions" jsonb NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "food_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit" text NOT NULL,
+	"meal_type" text NOT NULL,
+	"type" text DEFAULT 'food' NOT NULL,
+	"supplement_info" jsonb,
+	"created_at" integer NOT NULL,
+	"date" text NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "food_plans" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"items" jsonb NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" integer NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "nutrition_reports" (
+	"id" text PRIMARY KEY NOT NULL,
+	"calories" integer NOT NULL,
+	"calories_target" integer NOT NULL,
+	"nutrition_score" integer NOT NULL,
+	"macronutrients" jsonb NOT NULL,
+	"vitamins" jsonb NOT NULL,
+	"minerals" jsonb NOT NULL,
+	"recommendations" jsonb NOT NULL,
+	"food_suggestions" jsonb NOT NULL,
+	"supplement_recommendations" jsonb NOT NULL,
+	"supplement_cautions" jsonb NOT NULL,
+	"analysis_date" integer NOT NULL,
+	"report_date" text NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "report_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"report_date" text NOT NULL,
+	"analysis_date" integer NOT NULL,
+	"nutrition_score" integer NOT NULL,
+	"report" jsonb NOT NULL,
+	"user_id" text NOT NULL
+);
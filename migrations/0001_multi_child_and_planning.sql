@@ -0,0 +1,121 @@
+CREATE TABLE IF NOT EXISTS "custom_foods" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"brand" text,
+	"serving_size" real NOT NULL,
+	"serving_unit" text NOT NULL,
+	"serving_label" text,
+	"nutrients" jsonb NOT NULL,
+	"created_at" bigint NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "multi_child_reports" (
+	"id" text PRIMARY KEY NOT NULL,
+	"report_date" text NOT NULL,
+	"analysis_date" bigint NOT NULL,
+	"child_reports" jsonb NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "planned_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"quantity" real NOT NULL,
+	"unit" text NOT NULL,
+	"meal_type" text NOT NULL,
+	"type" text DEFAULT 'food' NOT NULL,
+	"supplement_info" jsonb,
+	"barcode" text,
+	"nutrition_facts" jsonb,
+	"recipe" jsonb,
+	"created_at" bigint NOT NULL,
+	"date" text NOT NULL,
+	"child_id" text,
+	"child_ids" jsonb,
+	"child_portions" jsonb,
+	"eaten" jsonb,
+	"photo_id" text,
+	"user_id" text NOT NULL,
+	"plan_id" text,
+	"applied_at" bigint
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "recipes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"notes" text,
+	"ingredients" jsonb NOT NULL,
+	"servings" real NOT NULL,
+	"yield_amount" real,
+	"yield_unit" text,
+	"created_at" bigint NOT NULL,
+	"user_id" text NOT NULL
+);
+--> statement-breakpoint
+-- Millisecond timestamps don't fit in integer columns
+ALTER TABLE "app_settings" ALTER COLUMN "api_key_timestamp" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "food_items" ALTER COLUMN "quantity" SET DATA TYPE real;--> statement-breakpoint
+ALTER TABLE "food_items" ALTER COLUMN "created_at" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "food_plans" ALTER COLUMN "created_at" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "nutrition_reports" ALTER COLUMN "analysis_date" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "report_history" ALTER COLUMN "analysis_date" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "report_history" ALTER COLUMN "report" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "app_settings" ADD COLUMN IF NOT EXISTS "ai_provider" text DEFAULT 'gemini' NOT NULL;--> statement-breakpoint
+ALTER TABLE "app_settings" ADD COLUMN IF NOT EXISTS "ai_base_url" text;--> statement-breakpoint
+-- One child_info row per user, holding all of their children. Older rows
+-- described a single child in their own columns; keep each user's latest row
+-- and turn it into a one-child list. Only the age in years was stored, so the
+-- date of birth is estimated from it.
+DELETE FROM "child_info" AS older
+	USING "child_info" AS newer
+	WHERE older."user_id" = newer."user_id" AND older."id" < newer."id";--> statement-breakpoint
+ALTER TABLE "child_info" ADD COLUMN "children" jsonb;--> statement-breakpoint
+ALTER TABLE "child_info" ADD COLUMN "selected_child_id" text;--> statement-breakpoint
+UPDATE "child_info" SET "children" = jsonb_build_array(jsonb_build_object(
+	'id', gen_random_uuid()::text,
+	'name', "name",
+	'dateOfBirth', CASE WHEN "age" IS NULL THEN NULL ELSE to_char(current_date - make_interval(years => "age"), 'YYYY-MM-DD') END,
+	'gender', "gender",
+	'weight', "weight",
+	'height', "height",
+	'weightUnit', "weight_unit",
+	'heightUnit', "height_unit",
+	'restrictions', "restrictions",
+	'allergies', '[]'::jsonb,
+	'activityLevel', 'low-active',
+	'measurements', '[]'::jsonb,
+	'isSelected', true,
+	'createdAt', (extract(epoch from now()) * 1000)::bigint
+));--> statement-breakpoint
+UPDATE "child_info" SET "selected_child_id" = "children"->0->>'id';--> statement-breakpoint
+ALTER TABLE "child_info" ALTER COLUMN "children" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "barcode" text;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "nutrition_facts" jsonb;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "recipe" jsonb;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "child_id" text;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "child_ids" jsonb;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "child_portions" jsonb;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "eaten" jsonb;--> statement-breakpoint
+ALTER TABLE "food_items" ADD COLUMN IF NOT EXISTS "photo_id" text;--> statement-breakpoint
+ALTER TABLE "food_plans" ADD COLUMN IF NOT EXISTS "child_id" text;--> statement-breakpoint
+ALTER TABLE "nutrition_reports" ADD COLUMN IF NOT EXISTS "safety_alerts" jsonb;--> statement-breakpoint
+ALTER TABLE "nutrition_reports" ADD COLUMN IF NOT EXISTS "plate_waste" jsonb;--> statement-breakpoint
+ALTER TABLE "nutrition_reports" ADD COLUMN IF NOT EXISTS "child_id" text;--> statement-breakpoint
+ALTER TABLE "nutrition_reports" ADD COLUMN IF NOT EXISTS "child_name" text;--> statement-breakpoint
+ALTER TABLE "report_history" ADD COLUMN IF NOT EXISTS "child_reports" jsonb;--> statement-breakpoint
+ALTER TABLE "report_history" ADD COLUMN IF NOT EXISTS "is_multi_child" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "name";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "age";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "gender";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "weight";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "height";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "weight_unit";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "height_unit";--> statement-breakpoint
+ALTER TABLE "child_info" DROP COLUMN "restrictions";--> statement-breakpoint
+-- One settings row per user as well
+DELETE FROM "app_settings" AS older
+	USING "app_settings" AS newer
+	WHERE older."user_id" = newer."user_id" AND older."id" < newer."id";--> statement-breakpoint
+ALTER TABLE "app_settings" ADD CONSTRAINT "app_settings_user_id_unique" UNIQUE("user_id");--> statement-breakpoint
+ALTER TABLE "child_info" ADD CONSTRAINT "child_info_user_id_unique" UNIQUE("user_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "app_settings" ADD COLUMN "use_browser_api_key" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Keys saved before reports could go through the server were used by the
+-- browser; keep using them there instead of ignoring them
+UPDATE "app_settings" SET "use_browser_api_key" = true
+	WHERE coalesce("api_key", '') <> '' OR "encrypted_api_key" IS NOT NULL;
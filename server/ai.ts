@@ -0,0 +1,254 @@
+import {
+  type NutritionReport,
+  type FoodItem,
+  type ChildInfo,
+  type Child,
+} from "@shared/schema";
+import {
+  createAnalysisPrompt,
+  requestNutritionReport,
+  nutritionReportResponseSchema,
+  supportsStructuredOutput,
+  type GeminiResponseSchema,
+} from "@shared/nutrition-analysis";
+import { requestTomorrowPlan, tomorrowPlanResponseSchema, type TomorrowPlan } from "@shared/tomorrow-plan";
+import { applyDietaryReferenceIntakes } from "@shared/dietary-reference-intakes";
+import { applySupplementSafetyCheck } from "@shared/supplement-safety";
+import { applyPlateWaste } from "@shared/plate-waste";
+import { applyLabelNutrition, getItemForChild } from "@shared/nutrient-calculator";
+
+// A text-in/text-out language model used to produce nutrition reports and
+// plans. Implementations return the raw model text; parsing happens in
+// generateReport and generateTomorrowPlan. The schema defaults to the report's.
+export interface ReportModel {
+  readonly name: string;
+  generate(prompt: string, model?: string, schema?: GeminiResponseSchema): Promise<string>;
+}
+
+// Error carrying the HTTP status the API should respond with
+export class ReportGenerationError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+    this.name = "ReportGenerationError";
+  }
+}
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+// Calls the Gemini REST API with a key that only the server knows
+export class GeminiReportModel implements ReportModel {
+  readonly name = "gemini";
+
+  constructor(private apiKey: string, private defaultModel: string = DEFAULT_GEMINI_MODEL) {}
+
+  async generate(
+    prompt: string,
+    model: string = this.defaultModel,
+    schema: GeminiResponseSchema = nutritionReportResponseSchema,
+  ): Promise<string> {
+    const responseSchema = supportsStructuredOutput(model) ? schema : null;
+    let response = await this.request(prompt, model, responseSchema);
+
+    // Fall back to prompt-only JSON if this model version rejects the schema
+    if (responseSchema && response.status === 400) {
+      console.warn(`Gemini model ${model} rejected structured output, retrying without a response schema`);
+      response = await this.request(prompt, model, null);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error(`Gemini API error: ${response.status}`, errorData);
+
+      if (response.status === 404) {
+        throw new ReportGenerationError(`Model '${model}' not found. Please select a different model.`, 400);
+      } else if (response.status === 429) {
+        throw new ReportGenerationError("Quota exceeded. Please try again later.", 429);
+      } else if (response.status === 401 || response.status === 403) {
+        throw new ReportGenerationError("The server's Gemini API key was rejected.", 502);
+      }
+      throw new ReportGenerationError(
+        `Error from Gemini API: ${response.status} - ${errorData.error?.message || "Unknown error"}`,
+      );
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new ReportGenerationError("Empty response from Gemini API. Please try again.");
+    }
+    return text;
+  }
+
+  private request(prompt: string, model: string, responseSchema: GeminiResponseSchema | null): Promise<Response> {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent`;
+
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Sent as a header so the key never appears in URLs or logs
+        "x-goog-api-key": this.apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.2,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 8192,
+          ...(responseSchema && {
+            responseMimeType: "application/json",
+            responseSchema,
+          }),
+        },
+      }),
+    });
+  }
+}
+
+// Offline stand-in for a real model. Returns a fixed report or plan (wrapped in
+// a code fence, as real models often do) unless a custom responder is supplied.
+export class FakeReportModel implements ReportModel {
+  readonly name = "fake";
+  readonly prompts: string[] = [];
+
+  constructor(
+    private respond: (prompt: string, schema?: GeminiResponseSchema) => string = (_, schema) =>
+      schema === tomorrowPlanResponseSchema ? FAKE_PLAN_RESPONSE : FAKE_REPORT_RESPONSE,
+  ) {}
+
+  async generate(prompt: string, _model?: string, schema?: GeminiResponseSchema): Promise<string> {
+    this.prompts.push(prompt);
+    return this.respond(prompt, schema);
+  }
+}
+
+const FAKE_REPORT_RESPONSE = "```json\n" + JSON.stringify({
+  calories: 1250,
+  caloriesTarget: 1600,
+  nutritionScore: 72,
+  macronutrients: [
+    { name: "Protein", value: "38", unit: "g", percentOfDaily: 80, recommendedRange: "19-34g" },
+    { name: "Carbohydrates", value: "160", unit: "g", percentOfDaily: 70, recommendedRange: "130g" },
+    { name: "Fat", value: "42", unit: "g", percentOfDaily: 75, recommendedRange: "35-55g" },
+    { name: "Fiber", value: "14", unit: "g", percentOfDaily: 56, recommendedRange: "25g" },
+  ],
+  vitamins: [
+    { name: "Vitamin A", value: "320", unit: "mcg", percentOfDaily: 80, recommendedRange: "400mcg" },
+    { name: "Vitamin C", value: "30", unit: "mg", percentOfDaily: 100, recommendedRange: "25mg" },
+    { name: "Vitamin D", value: "6", unit: "mcg", percentOfDaily: 40, recommendedRange: "15mcg" },
+  ],
+  minerals: [
+    { name: "Calcium", value: "700", unit: "mg", percentOfDaily: 70, recommendedRange: "1000mg" },
+    { name: "Iron", value: "7", unit: "mg", percentOfDaily: 70, recommendedRange: "10mg" },
+    { name: "Zinc", value: "4", unit: "mg", percentOfDaily: 80, recommendedRange: "5mg" },
+  ],
+  recommendations: ["Add a serving of leafy greens to increase fiber and vitamin A"],
+  foodSuggestions: ["Greek yogurt with berries", "Salmon", "Broccoli"],
+  supplementRecommendations: ["Consider vitamin D during winter months"],
+  supplementCautions: ["Don't exceed recommended dosages for any supplement"],
+}, null, 2) + "\n```";
+
+const FAKE_PLAN_RESPONSE = "```json\n" + JSON.stringify({
+  description: "More vitamin D, fiber and calcium than today.",
+  items: [
+    { name: "Oatmeal", quantity: 1, unit: "cup", mealType: "breakfast", type: "food", reason: "Fiber" },
+    { name: "Salmon", quantity: 2, unit: "oz", mealType: "dinner", type: "food", reason: "Vitamin D" },
+    { name: "Milk", quantity: 1, unit: "cup", mealType: "afternoon_snack", type: "drink", reason: "Calcium, vitamin D" },
+  ],
+}, null, 2) + "\n```";
+
+export type ReportModelDriver = "gemini" | "fake";
+
+// Pick the report model from the environment. Returns null when no model is
+// configured, in which case the generate endpoint reports it as unavailable.
+export function createReportModel(
+  driver: ReportModelDriver | undefined = process.env.AI_MODEL_DRIVER as ReportModelDriver | undefined,
+): ReportModel | null {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const selected = driver || (apiKey ? "gemini" : undefined);
+
+  if (selected === "fake") {
+    return new FakeReportModel();
+  }
+
+  if (selected === "gemini") {
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY must be set to use the gemini report model.");
+    }
+    return new GeminiReportModel(apiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+  }
+
+  if (selected) {
+    throw new Error(`Unknown AI_MODEL_DRIVER "${selected}". Use "gemini" or "fake".`);
+  }
+  return null;
+}
+
+interface GenerateReportParams {
+  foodItems: FoodItem[];
+  historyItems?: FoodItem[];
+  childInfo: ChildInfo;
+  model?: string;
+}
+
+// Build the prompt, ask the model and return a validated report.
+// Throws ReportParseError if the model can't produce a valid report after one re-ask.
+export async function generateReport(
+  reportModel: ReportModel,
+  { foodItems, historyItems, childInfo, model }: GenerateReportParams,
+): Promise<NutritionReport> {
+  const prompt = createAnalysisPrompt(foodItems, childInfo, historyItems);
+  const selectedChild = childInfo.children.find(child => child.id === childInfo.selectedChildId)
+    || childInfo.children[0];
+
+  // The model leaves out foods with label nutrition; add them from their labels,
+  // at what the child ate of their own portion
+  const report = applyLabelNutrition(
+    await requestNutritionReport(text => reportModel.generate(text, model), prompt),
+    selectedChild ? foodItems.map(item => getItemForChild(item, selectedChild.id)) : foodItems,
+  );
+  const reportDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
+
+  return {
+    ...applyPlateWaste(
+      applySupplementSafetyCheck(
+        applyDietaryReferenceIntakes(report, selectedChild, reportDate),
+        foodItems,
+        selectedChild,
+        reportDate,
+      ),
+      foodItems,
+      selectedChild,
+      reportDate,
+    ),
+    id: crypto.randomUUID(),
+    childId: selectedChild?.id ?? null,
+    childName: selectedChild?.name,
+    analysisDate: Date.now(),
+    reportDate,
+  };
+}
+
+interface GenerateTomorrowPlanParams {
+  report: NutritionReport;
+  child?: Child;
+  history: FoodItem[];
+  date: string;
+  model?: string;
+}
+
+// Ask the model for a plan aimed at the report's low nutrients. Resolves to
+// null when there is nothing to plan for.
+export async function generateTomorrowPlan(
+  reportModel: ReportModel,
+  { report, child, history, date, model }: GenerateTomorrowPlanParams,
+): Promise<TomorrowPlan | null> {
+  return requestTomorrowPlan(
+    prompt => reportModel.generate(prompt, model, tomorrowPlanResponseSchema),
+    report,
+    child,
+    history,
+    date,
+  );
+}
@@ -1,7 +1,8 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
-import { pgTable, text, serial, integer, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { migrate } from 'drizzle-orm/neon-serverless/migrator';
+import { pgTable, text, serial, integer, bigint, real, boolean, jsonb } from "drizzle-orm/pg-core";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
@@ -12,41 +13,51 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
-// Drizzle schema definitions
-export const foodItems = pgTable("food_items", {
+// Drizzle schema definitions. Changes need a migration in ./migrations,
+// applied by initDatabase at startup.
+
+// Columns shared by logged and planned food items
+const foodItemColumns = () => ({
   id: text("id").primaryKey(),
   name: text("name").notNull(),
-  quantity: integer("quantity").notNull(),
+  quantity: real("quantity").notNull(),
   unit: text("unit").notNull(),
   mealType: text("meal_type").notNull(),
   type: text("type").notNull().default("food"),
   supplementInfo: jsonb("supplement_info"),
-  createdAt: integer("created_at").notNull(),
+  barcode: text("barcode"),
+  nutritionFacts: jsonb("nutrition_facts"),
+  recipe: jsonb("recipe"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
   date: text("date").notNull(),
+  childId: text("child_id"),
+  childIds: jsonb("child_ids"),
+  childPortions: jsonb("child_portions"),
+  eaten: jsonb("eaten"),
+  photoId: text("photo_id"),
   user_id: text("user_id").notNull(),
 });
 
+export const foodItems = pgTable("food_items", foodItemColumns());
+
 export const childInfo = pgTable("child_info", {
   id: serial("id").primaryKey(),
-  name: text("name"),
-  age: integer("age"),
-  gender: text("gender").notNull(),
-  weight: integer("weight"),
-  height: integer("height"),
-  weightUnit: text("weight_unit").notNull().default("lb"),
-  heightUnit: text("height_unit").notNull().default("in"),
-  restrictions: jsonb("restrictions").notNull(),
-  user_id: text("user_id").notNull(),
+  children: jsonb("children").notNull(),
+  selectedChildId: text("selected_child_id"),
+  user_id: text("user_id").notNull().unique(),
 });
 
 export const appSettings = pgTable("app_settings", {
   id: serial("id").primaryKey(),
   apiKey: text("api_key"),
   selectedModel: text("selected_model").default("gemini-2.5-flash"),
+  aiProvider: text("ai_provider").notNull().default("gemini"),
+  aiBaseUrl: text("ai_base_url"),
+  useBrowserApiKey: boolean("use_browser_api_key").notNull().default(false),
   encryptedApiKey: text("encrypted_api_key"),
-  apiKeyTimestamp: integer("api_key_timestamp"),
+  apiKeyTimestamp: bigint("api_key_timestamp", { mode: "number" }),
   darkMode: boolean("dark_mode").default(false),
-  user_id: text("user_id").notNull(),
+  user_id: text("user_id").notNull().unique(),
 });
 
 export const nutritionReports = pgTable("nutrition_reports", {
@@ -61,17 +72,31 @@ export const nutritionReports = pgTable("nutrition_reports", {
   foodSuggestions: jsonb("food_suggestions").notNull(),
   supplementRecommendations: jsonb("supplement_recommendations").notNull(),
   supplementCautions: jsonb("supplement_cautions").notNull(),
-  analysisDate: integer("analysis_date").notNull(),
+  safetyAlerts: jsonb("safety_alerts"),
+  plateWaste: jsonb("plate_waste"),
+  analysisDate: bigint("analysis_date", { mode: "number" }).notNull(),
   reportDate: text("report_date").notNull(),
+  childId: text("child_id"),
+  childName: text("child_name"),
+  user_id: text("user_id").notNull(),
+});
+
+export const multiChildReports = pgTable("multi_child_reports", {
+  id: text("id").primaryKey(),
+  reportDate: text("report_date").notNull(),
+  analysisDate: bigint("analysis_date", { mode: "number" }).notNull(),
+  childReports: jsonb("child_reports").notNull(),
   user_id: text("user_id").notNull(),
 });
 
 export const reportHistory = pgTable("report_history", {
   id: text("id").primaryKey(),
   reportDate: text("report_date").notNull(),
-  analysisDate: integer("analysis_date").notNull(),
+  analysisDate: bigint("analysis_date", { mode: "number" }).notNull(),
   nutritionScore: integer("nutrition_score").notNull(),
-  report: jsonb("report").notNull(),
+  report: jsonb("report"),
+  childReports: jsonb("child_reports"),
+  isMultiChild: boolean("is_multi_child").notNull().default(false),
   user_id: text("user_id").notNull(),
 });
 
@@ -81,10 +106,41 @@ export const foodPlans = pgTable("food_plans", {
   description: text("description"),
   items: jsonb("items").notNull(),
   isDefault: boolean("is_default").notNull().default(false),
-  createdAt: integer("created_at").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  childId: text("child_id"),
   user_id: text("user_id").notNull(),
 });
 
+export const customFoods = pgTable("custom_foods", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  brand: text("brand"),
+  servingSize: real("serving_size").notNull(),
+  servingUnit: text("serving_unit").notNull(),
+  servingLabel: text("serving_label"),
+  nutrients: jsonb("nutrients").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  user_id: text("user_id").notNull(),
+});
+
+export const recipes = pgTable("recipes", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  ingredients: jsonb("ingredients").notNull(),
+  servings: real("servings").notNull(),
+  yieldAmount: real("yield_amount"),
+  yieldUnit: text("yield_unit"),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  user_id: text("user_id").notNull(),
+});
+
+export const plannedItems = pgTable("planned_items", {
+  ...foodItemColumns(),
+  planId: text("plan_id"),
+  appliedAt: bigint("applied_at", { mode: "number" }),
+});
+
 // Create database connection
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema: { 
@@ -92,19 +148,24 @@ export const db = drizzle({ client: pool, schema: {
   childInfo, 
   appSettings, 
   nutritionReports, 
+  multiChildReports,
   reportHistory, 
-  foodPlans 
+  foodPlans,
+  customFoods,
+  recipes,
+  plannedItems,
 }});
 
-// Initialize the database (create tables if they don't exist)
+// Bring the database up to date: creates the tables on a new database and
+// upgrades older ones, including their single-child rows. Startup stops if a
+// migration fails rather than running against a schema the code doesn't match.
 export async function initDatabase() {
   try {
     console.log("Initializing database...");
-    // In a real-world app, we would use migrations here
-    // But for this prototype, we'll simply ensure tables exist
+    await migrate(db, { migrationsFolder: process.env.MIGRATIONS_DIR || "./migrations" });
     return true;
   } catch (error) {
     console.error("Error initializing database:", error);
-    return false;
+    throw error;
   }
 }
\ No newline at end of file
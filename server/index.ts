@@ -1,7 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { initDatabase } from "./db";
+import { createStorage } from "./storage";
+import { createReportModel } from "./ai";
 
 const app = express();
 app.use(express.json());
@@ -38,10 +39,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Initialize the database
-  await initDatabase();
+  // Select and initialize the storage backend (see STORAGE_DRIVER)
+  const storage = await createStorage();
   
-  const server = await registerRoutes(app);
+  // Server-side AI model for report generation (see AI_MODEL_DRIVER)
+  const reportModel = createReportModel();
+  
+  const server = await registerRoutes(app, storage, reportModel);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,678 @@
+import { and, desc, eq, gte, inArray, lt, lte, ne } from "drizzle-orm";
+import {
+  users,
+  type User,
+  type InsertUser,
+  type FoodItem,
+  type ChildInfo,
+  type AppSettings,
+  type NutritionReport,
+  type MultiChildReport,
+  type ReportHistoryItem,
+  type FoodPlan,
+  type CustomFood,
+  type Recipe,
+  type PlannedItem,
+  type SafetyAlert,
+  type PlateWasteEntry,
+} from "@shared/schema";
+import {
+  db,
+  foodItems,
+  childInfo,
+  appSettings,
+  nutritionReports,
+  multiChildReports,
+  reportHistory,
+  foodPlans,
+  customFoods,
+  recipes,
+  plannedItems,
+} from "./db";
+import {
+  type IStorage,
+  type FoodItemFilter,
+  FoodItemConflictError,
+  REPORT_HISTORY_RETENTION_MS,
+  matchesFoodItemFilter,
+  emptyChildInfo,
+  defaultAppSettings,
+  withReportDefaults,
+  toReportHistoryItem,
+} from "./storage";
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+type FoodItemRow = typeof foodItems.$inferSelect;
+type NutritionReportRow = typeof nutritionReports.$inferSelect;
+type ReportHistoryRow = typeof reportHistory.$inferSelect;
+type FoodPlanRow = typeof foodPlans.$inferSelect;
+type CustomFoodRow = typeof customFoods.$inferSelect;
+type RecipeRow = typeof recipes.$inferSelect;
+type PlannedItemRow = typeof plannedItems.$inferSelect;
+
+// Refuse a write that would touch ids another user's items already have
+async function checkFoodItemIds(tx: Transaction, userId: string, items: FoodItem[]): Promise<void> {
+  if (items.length === 0) return;
+  const taken = await tx
+    .select({ id: foodItems.id })
+    .from(foodItems)
+    .where(and(inArray(foodItems.id, items.map((item) => item.id)), ne(foodItems.user_id, userId)));
+  if (taken.length > 0) throw new FoodItemConflictError(taken.map((row) => row.id));
+}
+
+// Convert a database row into the shared FoodItem shape
+function toFoodItem(row: FoodItemRow): FoodItem {
+  return {
+    id: row.id,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit,
+    mealType: row.mealType,
+    type: row.type as FoodItem["type"],
+    supplementInfo: (row.supplementInfo ?? undefined) as FoodItem["supplementInfo"],
+    barcode: row.barcode ?? undefined,
+    nutritionFacts: (row.nutritionFacts ?? undefined) as FoodItem["nutritionFacts"],
+    recipe: (row.recipe ?? undefined) as FoodItem["recipe"],
+    createdAt: row.createdAt,
+    date: row.date,
+    childId: row.childId ?? undefined,
+    childIds: (row.childIds ?? undefined) as string[] | undefined,
+    childPortions: (row.childPortions ?? undefined) as FoodItem["childPortions"],
+    eaten: (row.eaten ?? undefined) as FoodItem["eaten"],
+    photoId: row.photoId ?? undefined,
+    user_id: row.user_id,
+  };
+}
+
+// Convert a FoodItem into the column values stored for a user
+function toFoodItemRow(userId: string, item: FoodItem): FoodItemRow {
+  return {
+    id: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    mealType: item.mealType,
+    type: item.type,
+    supplementInfo: item.supplementInfo ?? null,
+    barcode: item.barcode ?? null,
+    nutritionFacts: item.nutritionFacts ?? null,
+    recipe: item.recipe ?? null,
+    createdAt: item.createdAt,
+    date: item.date,
+    childId: item.childId ?? null,
+    childIds: item.childIds ?? null,
+    childPortions: item.childPortions ?? null,
+    eaten: item.eaten ?? null,
+    photoId: item.photoId ?? null,
+    user_id: userId,
+  };
+}
+
+function toNutritionReport(row: NutritionReportRow): NutritionReport {
+  return {
+    id: row.id,
+    calories: row.calories,
+    caloriesTarget: row.caloriesTarget,
+    nutritionScore: row.nutritionScore,
+    macronutrients: row.macronutrients as NutritionReport["macronutrients"],
+    vitamins: row.vitamins as NutritionReport["vitamins"],
+    minerals: row.minerals as NutritionReport["minerals"],
+    recommendations: row.recommendations as string[],
+    foodSuggestions: row.foodSuggestions as string[],
+    supplementRecommendations: row.supplementRecommendations as string[],
+    supplementCautions: row.supplementCautions as string[],
+    safetyAlerts: (row.safetyAlerts as SafetyAlert[] | null) ?? undefined,
+    plateWaste: (row.plateWaste as PlateWasteEntry[] | null) ?? undefined,
+    analysisDate: row.analysisDate,
+    reportDate: row.reportDate,
+    childId: row.childId,
+    childName: row.childName ?? undefined,
+    user_id: row.user_id,
+  };
+}
+
+function toHistoryItem(row: ReportHistoryRow): ReportHistoryItem {
+  return {
+    id: row.id,
+    reportDate: row.reportDate,
+    analysisDate: row.analysisDate,
+    nutritionScore: row.nutritionScore,
+    report: (row.report ?? undefined) as NutritionReport | undefined,
+    childReports: (row.childReports ?? undefined) as Record<string, NutritionReport> | undefined,
+    isMultiChild: row.isMultiChild,
+    user_id: row.user_id,
+  };
+}
+
+function toFoodPlan(row: FoodPlanRow): FoodPlan {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    items: row.items as FoodItem[],
+    isDefault: row.isDefault,
+    createdAt: row.createdAt,
+    childId: row.childId,
+    user_id: row.user_id,
+  };
+}
+
+function toCustomFood(row: CustomFoodRow): CustomFood {
+  return {
+    id: row.id,
+    name: row.name,
+    brand: row.brand ?? undefined,
+    servingSize: row.servingSize,
+    servingUnit: row.servingUnit as CustomFood["servingUnit"],
+    servingLabel: row.servingLabel ?? undefined,
+    nutrients: row.nutrients as CustomFood["nutrients"],
+    createdAt: row.createdAt,
+    user_id: row.user_id,
+  };
+}
+
+function toRecipe(row: RecipeRow): Recipe {
+  return {
+    id: row.id,
+    name: row.name,
+    notes: row.notes ?? undefined,
+    ingredients: row.ingredients as Recipe["ingredients"],
+    servings: row.servings,
+    yieldAmount: row.yieldAmount ?? undefined,
+    yieldUnit: (row.yieldUnit ?? undefined) as Recipe["yieldUnit"],
+    createdAt: row.createdAt,
+    user_id: row.user_id,
+  };
+}
+
+// Planned items share the food item columns, plus where they came from
+function toPlannedItem(row: PlannedItemRow): PlannedItem {
+  return {
+    ...toFoodItem(row),
+    planId: row.planId ?? undefined,
+    appliedAt: row.appliedAt ?? undefined,
+  };
+}
+
+function toPlannedItemRow(userId: string, item: PlannedItem): PlannedItemRow {
+  return {
+    ...toFoodItemRow(userId, item),
+    planId: item.planId ?? null,
+    appliedAt: item.appliedAt ?? null,
+  };
+}
+
+// Drizzle-backed storage using the tables defined in ./db
+export class PgStorage implements IStorage {
+  constructor(private database: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.database.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.database.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.database.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Food items
+
+  async getFoodItems(userId: string, filter: FoodItemFilter = {}): Promise<FoodItem[]> {
+    const conditions = [eq(foodItems.user_id, userId)];
+    if (filter.from) conditions.push(gte(foodItems.date, filter.from));
+    if (filter.to) conditions.push(lte(foodItems.date, filter.to));
+
+    const rows = await this.database
+      .select()
+      .from(foodItems)
+      .where(and(...conditions))
+      .orderBy(foodItems.createdAt);
+
+    // Child association lives in a jsonb array, so it is filtered here
+    return rows.map(toFoodItem).filter((item) => matchesFoodItemFilter(item, { childId: filter.childId }));
+  }
+
+  async getFoodItem(userId: string, id: string): Promise<FoodItem | undefined> {
+    const [row] = await this.database
+      .select()
+      .from(foodItems)
+      .where(and(eq(foodItems.user_id, userId), eq(foodItems.id, id)));
+    return row ? toFoodItem(row) : undefined;
+  }
+
+  async createFoodItem(userId: string, item: FoodItem): Promise<FoodItem> {
+    const [row] = await this.database
+      .insert(foodItems)
+      .values(toFoodItemRow(userId, item))
+      .onConflictDoNothing({ target: foodItems.id })
+      .returning();
+    if (!row) throw new FoodItemConflictError([item.id]);
+    return toFoodItem(row);
+  }
+
+  async updateFoodItem(userId: string, id: string, updates: Partial<FoodItem>): Promise<FoodItem | undefined> {
+    const existing = await this.getFoodItem(userId, id);
+    if (!existing) return undefined;
+
+    const { id: _id, user_id: _userId, ...values } = toFoodItemRow(userId, { ...existing, ...updates, id });
+    const [row] = await this.database
+      .update(foodItems)
+      .set(values)
+      .where(and(eq(foodItems.user_id, userId), eq(foodItems.id, id)))
+      .returning();
+    return row ? toFoodItem(row) : undefined;
+  }
+
+  async deleteFoodItem(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.database
+      .delete(foodItems)
+      .where(and(eq(foodItems.user_id, userId), eq(foodItems.id, id)))
+      .returning({ id: foodItems.id });
+    return deleted.length > 0;
+  }
+
+  async upsertFoodItems(userId: string, items: FoodItem[]): Promise<FoodItem[]> {
+    return this.database.transaction(async (tx) => {
+      await checkFoodItemIds(tx, userId, items);
+
+      const saved: FoodItem[] = [];
+      for (const item of items) {
+        const { id: _id, ...values } = toFoodItemRow(userId, item);
+        const [row] = await tx
+          .insert(foodItems)
+          .values(toFoodItemRow(userId, item))
+          .onConflictDoUpdate({
+            target: foodItems.id,
+            set: values,
+            // Never overwrite an item that belongs to another user
+            setWhere: eq(foodItems.user_id, userId),
+          })
+          .returning();
+        if (row) saved.push(toFoodItem(row));
+      }
+      return saved;
+    });
+  }
+
+  async replaceFoodItems(userId: string, items: FoodItem[]): Promise<void> {
+    await this.database.transaction(async (tx) => {
+      await checkFoodItemIds(tx, userId, items);
+      await tx.delete(foodItems).where(eq(foodItems.user_id, userId));
+      if (items.length > 0) {
+        await tx.insert(foodItems).values(items.map((item) => toFoodItemRow(userId, item)));
+      }
+    });
+  }
+
+  async clearFoodItems(userId: string): Promise<void> {
+    await this.database.delete(foodItems).where(eq(foodItems.user_id, userId));
+  }
+
+  // Children
+
+  async getChildInfo(userId: string): Promise<ChildInfo> {
+    const [row] = await this.database.select().from(childInfo).where(eq(childInfo.user_id, userId));
+    if (!row) return emptyChildInfo();
+
+    return {
+      children: row.children as ChildInfo["children"],
+      selectedChildId: row.selectedChildId,
+      user_id: row.user_id,
+    };
+  }
+
+  async saveChildInfo(userId: string, info: ChildInfo): Promise<void> {
+    const values = {
+      children: info.children,
+      selectedChildId: info.selectedChildId,
+      user_id: userId,
+    };
+    await this.database
+      .insert(childInfo)
+      .values(values)
+      .onConflictDoUpdate({ target: childInfo.user_id, set: values });
+  }
+
+  // Settings
+
+  async getAppSettings(userId: string): Promise<AppSettings> {
+    const [row] = await this.database.select().from(appSettings).where(eq(appSettings.user_id, userId));
+    if (!row) return defaultAppSettings();
+
+    const defaults = defaultAppSettings();
+    return {
+      apiKey: row.apiKey ?? defaults.apiKey,
+      selectedModel: row.selectedModel ?? defaults.selectedModel,
+      aiProvider: row.aiProvider as AppSettings["aiProvider"],
+      aiBaseUrl: row.aiBaseUrl ?? defaults.aiBaseUrl,
+      useBrowserApiKey: row.useBrowserApiKey,
+      encryptedApiKey: row.encryptedApiKey ?? undefined,
+      apiKeyTimestamp: row.apiKeyTimestamp ?? undefined,
+      darkMode: row.darkMode ?? defaults.darkMode,
+      user_id: row.user_id,
+    };
+  }
+
+  async saveAppSettings(userId: string, settings: AppSettings): Promise<void> {
+    const values = {
+      apiKey: settings.apiKey ?? null,
+      selectedModel: settings.selectedModel ?? null,
+      aiProvider: settings.aiProvider ?? "gemini",
+      aiBaseUrl: settings.aiBaseUrl || null,
+      useBrowserApiKey: settings.useBrowserApiKey ?? false,
+      encryptedApiKey: settings.encryptedApiKey ?? null,
+      apiKeyTimestamp: settings.apiKeyTimestamp ?? null,
+      darkMode: settings.darkMode ?? false,
+      user_id: userId,
+    };
+    await this.database
+      .insert(appSettings)
+      .values(values)
+      .onConflictDoUpdate({ target: appSettings.user_id, set: values });
+  }
+
+  // Current single-child report
+
+  async getNutritionReport(userId: string): Promise<NutritionReport | null> {
+    const [row] = await this.database
+      .select()
+      .from(nutritionReports)
+      .where(eq(nutritionReports.user_id, userId))
+      .orderBy(desc(nutritionReports.analysisDate))
+      .limit(1);
+    return row ? toNutritionReport(row) : null;
+  }
+
+  async saveNutritionReport(userId: string, report: NutritionReport): Promise<void> {
+    const stored = withReportDefaults(report);
+    const values = {
+      id: stored.id!,
+      calories: Math.round(stored.calories),
+      caloriesTarget: Math.round(stored.caloriesTarget),
+      nutritionScore: Math.round(stored.nutritionScore),
+      macronutrients: stored.macronutrients,
+      vitamins: stored.vitamins,
+      minerals: stored.minerals,
+      recommendations: stored.recommendations,
+      foodSuggestions: stored.foodSuggestions,
+      supplementRecommendations: stored.supplementRecommendations ?? [],
+      supplementCautions: stored.supplementCautions ?? [],
+      safetyAlerts: stored.safetyAlerts ?? null,
+      plateWaste: stored.plateWaste ?? null,
+      analysisDate: stored.analysisDate,
+      reportDate: stored.reportDate!,
+      childId: stored.childId ?? null,
+      childName: stored.childName ?? null,
+      user_id: userId,
+    };
+
+    await this.database
+      .insert(nutritionReports)
+      .values(values)
+      .onConflictDoUpdate({ target: nutritionReports.id, set: values });
+
+    await this.saveReportToHistory(userId, stored);
+  }
+
+  async clearNutritionReport(userId: string): Promise<void> {
+    await this.database.delete(nutritionReports).where(eq(nutritionReports.user_id, userId));
+  }
+
+  // Current multi-child report
+
+  async getMultiChildReport(userId: string): Promise<MultiChildReport | null> {
+    const [row] = await this.database
+      .select()
+      .from(multiChildReports)
+      .where(eq(multiChildReports.user_id, userId))
+      .orderBy(desc(multiChildReports.analysisDate))
+      .limit(1);
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      reportDate: row.reportDate,
+      analysisDate: row.analysisDate,
+      childReports: row.childReports as MultiChildReport["childReports"],
+      user_id: row.user_id,
+    };
+  }
+
+  async saveMultiChildReport(userId: string, report: MultiChildReport): Promise<void> {
+    const stored = withReportDefaults(report);
+
+    // Only the latest multi-child report is kept; older ones live in history
+    await this.database.transaction(async (tx) => {
+      await tx.delete(multiChildReports).where(eq(multiChildReports.user_id, userId));
+      await tx.insert(multiChildReports).values({
+        id: stored.id,
+        reportDate: stored.reportDate!,
+        analysisDate: stored.analysisDate,
+        childReports: stored.childReports,
+        user_id: userId,
+      });
+    });
+
+    await this.saveReportToHistory(userId, stored);
+  }
+
+  async clearMultiChildReport(userId: string): Promise<void> {
+    await this.database.delete(multiChildReports).where(eq(multiChildReports.user_id, userId));
+  }
+
+  // Report history
+
+  async getReportHistory(userId: string): Promise<ReportHistoryItem[]> {
+    const rows = await this.database
+      .select()
+      .from(reportHistory)
+      .where(eq(reportHistory.user_id, userId))
+      .orderBy(desc(reportHistory.reportDate));
+    return rows.map(toHistoryItem);
+  }
+
+  async saveReportToHistory(userId: string, report: NutritionReport | MultiChildReport): Promise<void> {
+    const item = toReportHistoryItem(report);
+    const values = {
+      id: item.id,
+      reportDate: item.reportDate,
+      analysisDate: item.analysisDate,
+      nutritionScore: Math.round(item.nutritionScore),
+      report: item.report ?? null,
+      childReports: item.childReports ?? null,
+      isMultiChild: item.isMultiChild,
+      user_id: userId,
+    };
+
+    await this.database.transaction(async (tx) => {
+      // One entry per report date and kind - replace an existing one
+      await tx.delete(reportHistory).where(and(
+        eq(reportHistory.user_id, userId),
+        eq(reportHistory.reportDate, item.reportDate),
+        eq(reportHistory.isMultiChild, item.isMultiChild),
+      ));
+      await tx
+        .insert(reportHistory)
+        .values(values)
+        .onConflictDoUpdate({ target: reportHistory.id, set: values });
+      await tx.delete(reportHistory).where(and(
+        eq(reportHistory.user_id, userId),
+        lt(reportHistory.analysisDate, Date.now() - REPORT_HISTORY_RETENTION_MS),
+      ));
+    });
+  }
+
+  async deleteReportFromHistory(userId: string, reportId: string): Promise<void> {
+    await this.database
+      .delete(reportHistory)
+      .where(and(eq(reportHistory.user_id, userId), eq(reportHistory.id, reportId)));
+  }
+
+  async clearReportHistory(userId: string): Promise<void> {
+    await this.database.delete(reportHistory).where(eq(reportHistory.user_id, userId));
+  }
+
+  // Food plans
+
+  async getFoodPlans(userId: string): Promise<FoodPlan[]> {
+    const rows = await this.database
+      .select()
+      .from(foodPlans)
+      .where(eq(foodPlans.user_id, userId))
+      .orderBy(foodPlans.createdAt);
+    return rows.map(toFoodPlan);
+  }
+
+  async saveFoodPlan(userId: string, plan: FoodPlan): Promise<void> {
+    const values = {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description ?? null,
+      items: plan.items,
+      isDefault: plan.isDefault,
+      createdAt: plan.createdAt,
+      childId: plan.childId ?? null,
+      user_id: userId,
+    };
+
+    await this.database.transaction(async (tx) => {
+      await tx
+        .insert(foodPlans)
+        .values(values)
+        .onConflictDoUpdate({
+          target: foodPlans.id,
+          set: values,
+          setWhere: eq(foodPlans.user_id, userId),
+        });
+
+      // Only one plan can be the default
+      if (plan.isDefault) {
+        await tx
+          .update(foodPlans)
+          .set({ isDefault: false })
+          .where(and(eq(foodPlans.user_id, userId), ne(foodPlans.id, plan.id)));
+      }
+    });
+  }
+
+  async deleteFoodPlan(userId: string, planId: string): Promise<void> {
+    await this.database
+      .delete(foodPlans)
+      .where(and(eq(foodPlans.user_id, userId), eq(foodPlans.id, planId)));
+  }
+
+  async getDefaultFoodPlan(userId: string): Promise<FoodPlan | null> {
+    const [row] = await this.database
+      .select()
+      .from(foodPlans)
+      .where(and(eq(foodPlans.user_id, userId), eq(foodPlans.isDefault, true)));
+    return row ? toFoodPlan(row) : null;
+  }
+
+  // Custom foods
+
+  async getCustomFoods(userId: string): Promise<CustomFood[]> {
+    const rows = await this.database
+      .select()
+      .from(customFoods)
+      .where(eq(customFoods.user_id, userId))
+      .orderBy(customFoods.createdAt);
+    return rows.map(toCustomFood);
+  }
+
+  async saveCustomFood(userId: string, food: CustomFood): Promise<void> {
+    const values = {
+      id: food.id,
+      name: food.name,
+      brand: food.brand ?? null,
+      servingSize: food.servingSize,
+      servingUnit: food.servingUnit,
+      servingLabel: food.servingLabel ?? null,
+      nutrients: food.nutrients,
+      createdAt: food.createdAt,
+      user_id: userId,
+    };
+
+    await this.database
+      .insert(customFoods)
+      .values(values)
+      .onConflictDoUpdate({
+        target: customFoods.id,
+        set: values,
+        setWhere: eq(customFoods.user_id, userId),
+      });
+  }
+
+  async deleteCustomFood(userId: string, foodId: string): Promise<void> {
+    await this.database
+      .delete(customFoods)
+      .where(and(eq(customFoods.user_id, userId), eq(customFoods.id, foodId)));
+  }
+
+  // Recipes
+
+  async getRecipes(userId: string): Promise<Recipe[]> {
+    const rows = await this.database
+      .select()
+      .from(recipes)
+      .where(eq(recipes.user_id, userId))
+      .orderBy(recipes.createdAt);
+    return rows.map(toRecipe);
+  }
+
+  async saveRecipe(userId: string, recipe: Recipe): Promise<void> {
+    const values = {
+      id: recipe.id,
+      name: recipe.name,
+      notes: recipe.notes ?? null,
+      ingredients: recipe.ingredients,
+      servings: recipe.servings,
+      yieldAmount: recipe.yieldAmount ?? null,
+      yieldUnit: recipe.yieldUnit ?? null,
+      createdAt: recipe.createdAt,
+      user_id: userId,
+    };
+
+    await this.database
+      .insert(recipes)
+      .values(values)
+      .onConflictDoUpdate({
+        target: recipes.id,
+        set: values,
+        setWhere: eq(recipes.user_id, userId),
+      });
+  }
+
+  async deleteRecipe(userId: string, recipeId: string): Promise<void> {
+    await this.database
+      .delete(recipes)
+      .where(and(eq(recipes.user_id, userId), eq(recipes.id, recipeId)));
+  }
+
+  // Planned items
+
+  async getPlannedItems(userId: string): Promise<PlannedItem[]> {
+    const rows = await this.database
+      .select()
+      .from(plannedItems)
+      .where(eq(plannedItems.user_id, userId))
+      .orderBy(plannedItems.date, plannedItems.createdAt);
+    return rows.map(toPlannedItem);
+  }
+
+  async savePlannedItems(userId: string, items: PlannedItem[]): Promise<void> {
+    await this.database.transaction(async (tx) => {
+      await tx.delete(plannedItems).where(eq(plannedItems.user_id, userId));
+      if (items.length > 0) {
+        await tx.insert(plannedItems).values(items.map((item) => toPlannedItemRow(userId, item)));
+      }
+    });
+  }
+}
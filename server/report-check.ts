@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import type { FoodItem, NutritionReport } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { registerRoutes } from "./routes";
+import { FakeReportModel, type ReportModel } from "./ai";
+
+// Drives the report and plan endpoints end to end with the offline fake model,
+// so the server-side report path can be checked without a Gemini key.
+// Usage: npm run check:reports
+
+const child = {
+  id: "c1", name: "Leo", dateOfBirth: "2022-03-01", gender: "male", weight: 30, height: 38,
+  weightUnit: "lb", heightUnit: "in", restrictions: [], allergies: [], activityLevel: "active",
+  measurements: [], isSelected: true, createdAt: 1,
+};
+
+const foodItems: FoodItem[] = [
+  { id: "i1", name: "Oatmeal", quantity: 1, unit: "cup", mealType: "breakfast", type: "food", createdAt: 1, date: "2026-10-19" },
+  { id: "i2", name: "Milk", quantity: 1, unit: "cup", mealType: "breakfast", type: "drink", createdAt: 2, date: "2026-10-19" },
+];
+
+async function withServer<T>(reportModel: ReportModel, run: (post: (path: string, body: unknown) => Promise<Response>) => Promise<T>) {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app, new MemStorage(), reportModel);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    return await run((path, body) => fetch(`http://127.0.0.1:${port}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }));
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+async function checkReportAndPlan() {
+  const model = new FakeReportModel();
+  await withServer(model, async post => {
+    const reportResponse = await post("/api/reports/generate", {
+      foodItems,
+      childInfo: { children: [child], selectedChildId: "c1" },
+    });
+    assert.equal(reportResponse.status, 200);
+    const report: NutritionReport = await reportResponse.json();
+    assert.equal(report.childId, "c1");
+    assert.equal(report.reportDate, "2026-10-19");
+    assert.ok(report.macronutrients.some(nutrient => nutrient.name === "Protein"));
+    assert.match(model.prompts[0], /Oatmeal/);
+
+    const planResponse = await post("/api/plans/tomorrow", {
+      report, child, history: foodItems, date: "2026-10-20",
+    });
+    assert.equal(planResponse.status, 200);
+    const plan = await planResponse.json();
+    assert.equal(plan.source, "ai");
+    assert.deepEqual(plan.plan.items.map((item: FoodItem) => item.name), ["Oatmeal", "Salmon", "Milk"]);
+    assert.ok(plan.plan.items.every((item: FoodItem) => item.date === "2026-10-20"));
+  });
+  console.log("fake model: report and plan ok");
+}
+
+// A bad first answer is re-asked once; a second bad answer is a 502
+async function checkInvalidResponses() {
+  const good = new FakeReportModel();
+  const fixedReport = await good.generate("");
+  let calls = 0;
+  const repaired = new FakeReportModel(() => (calls++ === 0 ? "not json" : fixedReport));
+  await withServer(repaired, async post => {
+    const response = await post("/api/reports/generate", {
+      foodItems,
+      childInfo: { children: [child], selectedChildId: "c1" },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(repaired.prompts.length, 2);
+  });
+
+  await withServer(new FakeReportModel(() => "{}"), async post => {
+    const response = await post("/api/reports/generate", {
+      foodItems,
+      childInfo: { children: [child], selectedChildId: "c1" },
+    });
+    assert.equal(response.status, 502);
+    assert.equal((await response.json()).kind, "invalid-report");
+  });
+  console.log("fake model: invalid responses ok");
+}
+
+async function main() {
+  await checkReportAndPlan();
+  await checkInvalidResponses();
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,13 +1,205 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { foodItemSchema, childInfoSchema, childSchema, nutritionReportSchema } from "@shared/schema";
+import { FoodItemConflictError, type IStorage } from "./storage";
+import { ReportParseError } from "@shared/nutrition-analysis";
+import { generateReport, generateTomorrowPlan, ReportGenerationError, type ReportModel } from "./ai";
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// Matches the user id the client storage layer uses until auth is added
+const DEFAULT_USER_ID = "default-user";
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const foodItemQuerySchema = z.object({
+  from: z.string().regex(datePattern, "from must be YYYY-MM-DD").optional(),
+  to: z.string().regex(datePattern, "to must be YYYY-MM-DD").optional(),
+  childId: z.string().min(1).optional(),
+});
+
+// Clients may let the server assign the id and creation timestamp
+const createFoodItemSchema = foodItemSchema
+  .omit({ user_id: true })
+  .extend({
+    id: z.string().optional(),
+    createdAt: z.number().optional(),
+  });
+
+const updateFoodItemSchema = foodItemSchema
+  .omit({ id: true, user_id: true })
+  .partial();
+
+const bulkFoodItemsSchema = z.array(createFoodItemSchema);
+
+const generateReportSchema = z.object({
+  foodItems: z.array(foodItemSchema).min(1, "Add at least one food item"),
+  historyItems: z.array(foodItemSchema).optional(),
+  childInfo: childInfoSchema,
+  model: z.string().min(1).optional(),
+});
+
+const tomorrowPlanSchema = z.object({
+  report: nutritionReportSchema,
+  child: childSchema.optional(),
+  history: z.array(foodItemSchema),
+  date: z.string().regex(datePattern, "date must be YYYY-MM-DD"),
+  model: z.string().min(1).optional(),
+});
+
+// Other tools identify the user with a header; the browser app uses the default
+function getUserId(req: Request): string {
+  return req.header("x-user-id") || DEFAULT_USER_ID;
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: fromZodError(error).message });
+}
+
+function withDefaults(item: z.infer<typeof createFoodItemSchema>) {
+  return {
+    ...item,
+    id: item.id || crypto.randomUUID(),
+    createdAt: item.createdAt ?? Date.now(),
+  };
+}
+
+export async function registerRoutes(
+  app: Express,
+  storage: IStorage,
+  reportModel: ReportModel | null,
+): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  // Food items
+  app.get("/api/food-items", async (req, res, next) => {
+    try {
+      const query = foodItemQuerySchema.safeParse(req.query);
+      if (!query.success) return sendValidationError(res, query.error);
+
+      const items = await storage.getFoodItems(getUserId(req), query.data);
+      res.json(items);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/food-items/:id", async (req, res, next) => {
+    try {
+      const item = await storage.getFoodItem(getUserId(req), req.params.id);
+      if (!item) return res.status(404).json({ message: "Food item not found" });
+
+      res.json(item);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/food-items", async (req, res, next) => {
+    try {
+      const body = createFoodItemSchema.safeParse(req.body);
+      if (!body.success) return sendValidationError(res, body.error);
+
+      const created = await storage.createFoodItem(getUserId(req), withDefaults(body.data));
+      res.status(201).json(created);
+    } catch (error) {
+      // The id may belong to another user, whose item is never taken over
+      if (error instanceof FoodItemConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Bulk upsert - creates new items and replaces existing ones by id
+  app.put("/api/food-items", async (req, res, next) => {
+    try {
+      const body = bulkFoodItemsSchema.safeParse(req.body);
+      if (!body.success) return sendValidationError(res, body.error);
+
+      const saved = await storage.upsertFoodItems(getUserId(req), body.data.map(withDefaults));
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof FoodItemConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.patch("/api/food-items/:id", async (req, res, next) => {
+    try {
+      const body = updateFoodItemSchema.safeParse(req.body);
+      if (!body.success) return sendValidationError(res, body.error);
+
+      const updated = await storage.updateFoodItem(getUserId(req), req.params.id, body.data);
+      if (!updated) return res.status(404).json({ message: "Food item not found" });
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/food-items/:id", async (req, res, next) => {
+    try {
+      const deleted = await storage.deleteFoodItem(getUserId(req), req.params.id);
+      if (!deleted) return res.status(404).json({ message: "Food item not found" });
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Nutrition reports - the model API key stays on the server
+  app.post("/api/reports/generate", async (req, res, next) => {
+    try {
+      if (!reportModel) {
+        return res.status(503).json({
+          message: "AI report generation is not configured on the server. Set GEMINI_API_KEY or add an API key in the settings.",
+        });
+      }
+
+      const body = generateReportSchema.safeParse(req.body);
+      if (!body.success) return sendValidationError(res, body.error);
+
+      const report = await generateReport(reportModel, body.data);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ReportGenerationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ReportParseError) {
+        return res.status(502).json({ message: error.message, kind: error.kind, issues: error.issues });
+      }
+      next(error);
+    }
+  });
+
+  // Tomorrow's plan from a report's low nutrients, with the same model as reports
+  app.post("/api/plans/tomorrow", async (req, res, next) => {
+    try {
+      if (!reportModel) {
+        return res.status(503).json({ message: "AI planning is not configured on the server." });
+      }
+
+      const body = tomorrowPlanSchema.safeParse(req.body);
+      if (!body.success) return sendValidationError(res, body.error);
+
+      const plan = await generateTomorrowPlan(reportModel, body.data);
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof ReportGenerationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ReportParseError) {
+        return res.status(502).json({ message: error.message, kind: error.kind, issues: error.issues });
+      }
+      next(error);
+    }
+  });
 
   const httpServer = createServer(app);
 
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, copyFile, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import type { FoodItem, PlannedItem } from "@shared/schema";
+import { MemStorage, FoodItemConflictError, type IStorage } from "./storage";
+
+// Runs the same round trip against MemStorage and PgStorage, the latter on an
+// in-memory Postgres migrated from ./migrations, and checks that the
+// migrations turn old single-child rows into a children list and keep saved
+// API keys in the browser.
+// Usage: npm run check:storage
+
+const MIGRATIONS_DIR = "./migrations";
+
+// db.ts connects lazily but insists on a URL; nothing is sent to it
+process.env.DATABASE_URL ??= "postgres://unused@localhost/unused";
+const schemaModule = import("./db");
+const pgStorageModule = import("./pg-storage");
+
+type Database = ConstructorParameters<typeof import("./pg-storage").PgStorage>[0];
+
+async function createDatabase(migrationsFolder: string = MIGRATIONS_DIR) {
+  const schema = await schemaModule;
+  const client = new PGlite();
+  const database = drizzle(client, { schema });
+  await migrate(database, { migrationsFolder });
+  return { client, database };
+}
+
+function foodItem(id: string, overrides: Partial<FoodItem> = {}): FoodItem {
+  return {
+    id,
+    name: "Apple",
+    quantity: 1.5,
+    unit: "piece",
+    mealType: "lunch",
+    type: "food",
+    createdAt: 1760000000000,
+    date: "2026-10-19",
+    ...overrides,
+  };
+}
+
+async function checkRoundTrip(name: string, storage: IStorage) {
+  const user = "check-user";
+  const other = "other-user";
+
+  // Food items, including a recipe portion and an id taken by another user
+  await storage.createFoodItem(user, foodItem("a", {
+    childIds: ["c1"],
+    recipe: { id: "r1", servings: 4, ingredients: [{ name: "Oats", quantity: 1, unit: "cup" }] },
+  }));
+  await storage.createFoodItem(user, foodItem("b", { date: "2026-10-18", childId: "c2" }));
+  await assert.rejects(storage.createFoodItem(other, foodItem("a")), FoodItemConflictError);
+  await assert.rejects(storage.upsertFoodItems(other, [foodItem("b")]), FoodItemConflictError);
+  assert.deepEqual((await storage.getFoodItems(user)).map(item => item.id), ["a", "b"]);
+  assert.deepEqual((await storage.getFoodItems(user, { from: "2026-10-19" })).map(item => item.id), ["a"]);
+  assert.deepEqual((await storage.getFoodItems(user, { childId: "c2" })).map(item => item.id), ["b"]);
+  assert.equal((await storage.getFoodItem(user, "a"))?.recipe?.ingredients[0].name, "Oats");
+  assert.equal((await storage.getFoodItems(other)).length, 0);
+
+  await storage.upsertFoodItems(user, [foodItem("a", { name: "Pear" }), foodItem("c")]);
+  assert.equal((await storage.getFoodItem(user, "a"))?.name, "Pear");
+  assert.equal((await storage.updateFoodItem(user, "c", { quantity: 2 }))?.quantity, 2);
+  assert.equal(await storage.updateFoodItem(other, "c", { quantity: 3 }), undefined);
+  assert.equal(await storage.deleteFoodItem(user, "c"), true);
+  await storage.replaceFoodItems(user, [foodItem("d")]);
+  assert.deepEqual((await storage.getFoodItems(user)).map(item => item.id), ["d"]);
+
+  // Children and settings, one record per user
+  const children = [
+    {
+      id: "c1", name: "Leo", dateOfBirth: "2022-03-01", gender: "male", weight: 30, height: 38,
+      weightUnit: "lb" as const, heightUnit: "in" as const, restrictions: [], allergies: [],
+      activityLevel: "active" as const, measurements: [], isSelected: true, createdAt: 1,
+    },
+  ];
+  await storage.saveChildInfo(user, { children, selectedChildId: "c1" });
+  await storage.saveChildInfo(user, { children, selectedChildId: "c1" });
+  assert.equal((await storage.getChildInfo(user)).children[0].name, "Leo");
+
+  const settings = await storage.getAppSettings(user);
+  await storage.saveAppSettings(user, { ...settings, aiProvider: "openai-compatible", aiBaseUrl: "http://localhost:8080/v1" });
+  assert.equal((await storage.getAppSettings(user)).aiBaseUrl, "http://localhost:8080/v1");
+
+  // Custom foods and recipes
+  await storage.saveCustomFood(user, {
+    id: "f1", name: "Crackers", servingSize: 30, servingUnit: "g", nutrients: { calories: 120 }, createdAt: 1,
+  });
+  await storage.saveCustomFood(user, {
+    id: "f1", name: "Rice crackers", servingSize: 30, servingUnit: "g", nutrients: { calories: 110 }, createdAt: 1,
+  });
+  assert.deepEqual((await storage.getCustomFoods(user)).map(food => food.name), ["Rice crackers"]);
+  await storage.deleteCustomFood(user, "f1");
+  assert.equal((await storage.getCustomFoods(user)).length, 0);
+
+  await storage.saveRecipe(user, {
+    id: "r1", name: "Porridge", servings: 2, createdAt: 1,
+    ingredients: [{ name: "Oats", quantity: 1, unit: "cup" }, { name: "Milk", quantity: 2, unit: "cup" }],
+  });
+  assert.equal((await storage.getRecipes(user))[0].ingredients.length, 2);
+  assert.equal((await storage.getRecipes(other)).length, 0);
+  await storage.deleteRecipe(user, "r1");
+  assert.equal((await storage.getRecipes(user)).length, 0);
+
+  // Planned items are saved as a whole
+  const planned: PlannedItem[] = [
+    { ...foodItem("p1", { date: "2026-10-20" }), planId: "plan-1" },
+    { ...foodItem("p2", { date: "2026-10-21" }), appliedAt: 1760000000000 },
+  ];
+  await storage.savePlannedItems(user, planned);
+  await storage.savePlannedItems(user, planned.slice(1));
+  const savedPlanned = await storage.getPlannedItems(user);
+  assert.deepEqual(savedPlanned.map(item => [item.id, item.appliedAt]), [["p2", 1760000000000]]);
+
+  console.log(`${name}: round trip ok`);
+}
+
+// Migrate to the baseline, write rows the way the single-child app did, then
+// run the remaining migrations over them
+async function checkMultiChildMigration() {
+  const folder = await mkdtemp(path.join(tmpdir(), "migrations-"));
+  try {
+    const journal = JSON.parse(await readFile(path.join(MIGRATIONS_DIR, "meta/_journal.json"), "utf8"));
+    const baseline = journal.entries[0];
+    await mkdir(path.join(folder, "meta"));
+    await copyFile(path.join(MIGRATIONS_DIR, `${baseline.tag}.sql`), path.join(folder, `${baseline.tag}.sql`));
+    await writeFile(path.join(folder, "meta/_journal.json"), JSON.stringify({ ...journal, entries: [baseline] }));
+
+    const { client, database } = await createDatabase(folder);
+    await client.exec(`
+      INSERT INTO child_info (name, age, gender, weight, height, weight_unit, height_unit, restrictions, user_id)
+        VALUES ('Old', 3, 'female', 30, 36, 'lb', 'in', '[]', 'u1'),
+               ('Mia', 4, 'female', 35, 40, 'lb', 'in', '["vegetarian"]', 'u1'),
+               (NULL, NULL, 'male', NULL, NULL, 'kg', 'cm', '[]', 'u2');
+      INSERT INTO app_settings (api_key, selected_model, user_id)
+        VALUES ('old', 'gemini-1.5-pro', 'u1'), (NULL, 'gemini-2.5-flash', 'u1'), ('key', NULL, 'u2');
+      INSERT INTO food_items (id, name, quantity, unit, meal_type, created_at, date, user_id)
+        VALUES ('i1', 'Apple', 1, 'piece', 'lunch', 1, '2026-10-19', 'u1');
+    `);
+    await migrate(database, { migrationsFolder: MIGRATIONS_DIR });
+
+    const { PgStorage } = await pgStorageModule;
+    const storage = new PgStorage(database as unknown as Database);
+    const info = await storage.getChildInfo("u1");
+    assert.equal(info.children.length, 1);
+    const [mia] = info.children;
+    assert.equal(mia.name, "Mia");
+    assert.deepEqual(mia.restrictions, ["vegetarian"]);
+    assert.equal(mia.weight, 35);
+    assert.match(mia.dateOfBirth ?? "", /^\d{4}-\d{2}-\d{2}$/);
+    assert.equal(info.selectedChildId, mia.id);
+
+    const unnamed = await storage.getChildInfo("u2");
+    assert.equal(unnamed.children[0].dateOfBirth, null);
+    assert.equal(unnamed.children[0].weightUnit, "kg");
+
+    const settings = await storage.getAppSettings("u1");
+    assert.equal(settings.selectedModel, "gemini-2.5-flash");
+    assert.equal(settings.useBrowserApiKey, false);
+    assert.equal((await storage.getAppSettings("u2")).useBrowserApiKey, true);
+    assert.equal((await storage.getFoodItem("u1", "i1"))?.name, "Apple");
+    await client.close();
+    console.log("migrations: single-child rows and saved keys migrated ok");
+  } finally {
+    await rm(folder, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  await checkRoundTrip("MemStorage", new MemStorage());
+  const { PgStorage } = await pgStorageModule;
+  const { client, database } = await createDatabase();
+  await checkRoundTrip("PgStorage", new PgStorage(database as unknown as Database));
+  await client.close();
+  await checkMultiChildMigration();
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
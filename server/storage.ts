@@ -1,20 +1,195 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type FoodItem,
+  type ChildInfo,
+  type AppSettings,
+  type NutritionReport,
+  type MultiChildReport,
+  type ReportHistoryItem,
+  type FoodPlan,
+  type CustomFood,
+  type Recipe,
+  type PlannedItem,
+  childInfoSchema,
+  appSettingsSchema,
+} from "@shared/schema";
 
-// modify the interface with any CRUD methods
-// you might need
+// Filters accepted when listing food items
+export interface FoodItemFilter {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  childId?: string;
+}
+
+// Raised when a new food item's id is already taken, by this user or another.
+// Food item ids are unique across users, so taking one over is refused.
+export class FoodItemConflictError extends Error {
+  constructor(public ids: string[]) {
+    super(`Food item ${ids.join(", ")} already exists`);
+    this.name = "FoodItemConflictError";
+  }
+}
 
+// Storage for every entity the client storage facade syncs. Imported product
+// databases and meal photos stay on the device, so they aren't here.
+// All domain data is scoped by user id.
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Food items
+  getFoodItems(userId: string, filter?: FoodItemFilter): Promise<FoodItem[]>;
+  getFoodItem(userId: string, id: string): Promise<FoodItem | undefined>;
+  // Throws FoodItemConflictError when the id is taken
+  createFoodItem(userId: string, item: FoodItem): Promise<FoodItem>;
+  updateFoodItem(userId: string, id: string, updates: Partial<FoodItem>): Promise<FoodItem | undefined>;
+  deleteFoodItem(userId: string, id: string): Promise<boolean>;
+  // Throws FoodItemConflictError, writing nothing, when an id belongs to another user
+  upsertFoodItems(userId: string, items: FoodItem[]): Promise<FoodItem[]>;
+  replaceFoodItems(userId: string, items: FoodItem[]): Promise<void>;
+  clearFoodItems(userId: string): Promise<void>;
+
+  // Children
+  getChildInfo(userId: string): Promise<ChildInfo>;
+  saveChildInfo(userId: string, info: ChildInfo): Promise<void>;
+
+  // Settings
+  getAppSettings(userId: string): Promise<AppSettings>;
+  saveAppSettings(userId: string, settings: AppSettings): Promise<void>;
+
+  // Current single-child report
+  getNutritionReport(userId: string): Promise<NutritionReport | null>;
+  saveNutritionReport(userId: string, report: NutritionReport): Promise<void>;
+  clearNutritionReport(userId: string): Promise<void>;
+
+  // Current multi-child report
+  getMultiChildReport(userId: string): Promise<MultiChildReport | null>;
+  saveMultiChildReport(userId: string, report: MultiChildReport): Promise<void>;
+  clearMultiChildReport(userId: string): Promise<void>;
+
+  // Report history
+  getReportHistory(userId: string): Promise<ReportHistoryItem[]>;
+  saveReportToHistory(userId: string, report: NutritionReport | MultiChildReport): Promise<void>;
+  deleteReportFromHistory(userId: string, reportId: string): Promise<void>;
+  clearReportHistory(userId: string): Promise<void>;
+
+  // Food plans
+  getFoodPlans(userId: string): Promise<FoodPlan[]>;
+  saveFoodPlan(userId: string, plan: FoodPlan): Promise<void>;
+  deleteFoodPlan(userId: string, planId: string): Promise<void>;
+  getDefaultFoodPlan(userId: string): Promise<FoodPlan | null>;
+
+  // Custom foods
+  getCustomFoods(userId: string): Promise<CustomFood[]>;
+  saveCustomFood(userId: string, food: CustomFood): Promise<void>;
+  deleteCustomFood(userId: string, foodId: string): Promise<void>;
+
+  // Recipes
+  getRecipes(userId: string): Promise<Recipe[]>;
+  saveRecipe(userId: string, recipe: Recipe): Promise<void>;
+  deleteRecipe(userId: string, recipeId: string): Promise<void>;
+
+  // Planned items - saved as a whole, like the client's food log
+  getPlannedItems(userId: string): Promise<PlannedItem[]>;
+  savePlannedItems(userId: string, items: PlannedItem[]): Promise<void>;
+}
+
+// Reports older than this are dropped from history
+export const REPORT_HISTORY_RETENTION_MS = 365 * 24 * 60 * 60 * 1000;
+
+// An item applies to a child if it lists that child, or if it is not
+// assigned to any child at all (same rule the report generator uses)
+function appliesToChild(item: FoodItem, childId: string): boolean {
+  return (item.childIds && item.childIds.includes(childId)) ||
+    (!item.childIds && item.childId === childId) ||
+    (!item.childIds && !item.childId);
+}
+
+export function matchesFoodItemFilter(item: FoodItem, filter: FoodItemFilter = {}): boolean {
+  if (filter.from && item.date < filter.from) return false;
+  if (filter.to && item.date > filter.to) return false;
+  if (filter.childId && !appliesToChild(item, filter.childId)) return false;
+  return true;
+}
+
+export function emptyChildInfo(): ChildInfo {
+  return childInfoSchema.parse({});
+}
+
+export function defaultAppSettings(): AppSettings {
+  return appSettingsSchema.parse({});
+}
+
+// Fill in the bookkeeping fields the client normally sets before saving
+export function withReportDefaults<T extends NutritionReport | MultiChildReport>(report: T): T {
+  return {
+    ...report,
+    id: report.id || crypto.randomUUID(),
+    analysisDate: report.analysisDate || Date.now(),
+    reportDate: report.reportDate || new Date().toISOString().split('T')[0],
+  };
+}
+
+// Build the history entry for a single or multi-child report, mirroring
+// the client-side localStorage implementation
+export function toReportHistoryItem(report: NutritionReport | MultiChildReport): ReportHistoryItem {
+  const currentDate = new Date().toISOString().split('T')[0];
+
+  if ('childReports' in report) {
+    // Average nutrition score across all children
+    const childReports = Object.values(report.childReports);
+    const avgScore = childReports.length > 0
+      ? Math.round(childReports.reduce((sum, r) => sum + (r.nutritionScore || 0), 0) / childReports.length)
+      : 0;
+
+    return {
+      id: report.id || crypto.randomUUID(),
+      reportDate: report.reportDate || currentDate,
+      analysisDate: report.analysisDate || Date.now(),
+      nutritionScore: avgScore,
+      childReports: report.childReports,
+      isMultiChild: true,
+    };
+  }
+
+  return {
+    id: report.id || crypto.randomUUID(),
+    reportDate: report.reportDate || currentDate,
+    analysisDate: report.analysisDate || Date.now(),
+    nutritionScore: report.nutritionScore,
+    report,
+    isMultiChild: false,
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private foodItems: Map<string, FoodItem>;
+  private childInfo: Map<string, ChildInfo>;
+  private appSettings: Map<string, AppSettings>;
+  private nutritionReports: Map<string, NutritionReport>;
+  private multiChildReports: Map<string, MultiChildReport>;
+  private reportHistory: Map<string, ReportHistoryItem[]>;
+  private foodPlans: Map<string, FoodPlan[]>;
+  private customFoods: Map<string, CustomFood[]>;
+  private recipes: Map<string, Recipe[]>;
+  private plannedItems: Map<string, PlannedItem[]>;
   currentId: number;
 
   constructor() {
     this.users = new Map();
+    this.foodItems = new Map();
+    this.childInfo = new Map();
+    this.appSettings = new Map();
+    this.nutritionReports = new Map();
+    this.multiChildReports = new Map();
+    this.reportHistory = new Map();
+    this.foodPlans = new Map();
+    this.customFoods = new Map();
+    this.recipes = new Map();
+    this.plannedItems = new Map();
     this.currentId = 1;
   }
 
@@ -34,6 +209,245 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  // Food items
+
+  async getFoodItems(userId: string, filter?: FoodItemFilter): Promise<FoodItem[]> {
+    return Array.from(this.foodItems.values())
+      .filter((item) => item.user_id === userId && matchesFoodItemFilter(item, filter))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getFoodItem(userId: string, id: string): Promise<FoodItem | undefined> {
+    const item = this.foodItems.get(id);
+    return item && item.user_id === userId ? item : undefined;
+  }
+
+  async createFoodItem(userId: string, item: FoodItem): Promise<FoodItem> {
+    if (this.foodItems.has(item.id)) throw new FoodItemConflictError([item.id]);
+    const stored = { ...item, user_id: userId };
+    this.foodItems.set(stored.id, stored);
+    return stored;
+  }
+
+  async updateFoodItem(userId: string, id: string, updates: Partial<FoodItem>): Promise<FoodItem | undefined> {
+    const existing = await this.getFoodItem(userId, id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id, user_id: userId };
+    this.foodItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteFoodItem(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getFoodItem(userId, id))) return false;
+    return this.foodItems.delete(id);
+  }
+
+  // Ids in the list that another user's items already have
+  private checkFoodItemIds(userId: string, items: FoodItem[]): void {
+    const taken = items.filter((item) => {
+      const existing = this.foodItems.get(item.id);
+      return existing && existing.user_id !== userId;
+    });
+    if (taken.length > 0) throw new FoodItemConflictError(taken.map((item) => item.id));
+  }
+
+  async upsertFoodItems(userId: string, items: FoodItem[]): Promise<FoodItem[]> {
+    this.checkFoodItemIds(userId, items);
+    return items.map((item) => {
+      const stored = { ...item, user_id: userId };
+      this.foodItems.set(stored.id, stored);
+      return stored;
+    });
+  }
+
+  async replaceFoodItems(userId: string, items: FoodItem[]): Promise<void> {
+    this.checkFoodItemIds(userId, items);
+    await this.clearFoodItems(userId);
+    await this.upsertFoodItems(userId, items);
+  }
+
+  async clearFoodItems(userId: string): Promise<void> {
+    Array.from(this.foodItems.values())
+      .filter((item) => item.user_id === userId)
+      .forEach((item) => this.foodItems.delete(item.id));
+  }
+
+  // Children
+
+  async getChildInfo(userId: string): Promise<ChildInfo> {
+    return this.childInfo.get(userId) || emptyChildInfo();
+  }
+
+  async saveChildInfo(userId: string, info: ChildInfo): Promise<void> {
+    this.childInfo.set(userId, { ...info, user_id: userId });
+  }
+
+  // Settings
+
+  async getAppSettings(userId: string): Promise<AppSettings> {
+    return this.appSettings.get(userId) || defaultAppSettings();
+  }
+
+  async saveAppSettings(userId: string, settings: AppSettings): Promise<void> {
+    this.appSettings.set(userId, { ...settings, user_id: userId });
+  }
+
+  // Current single-child report
+
+  async getNutritionReport(userId: string): Promise<NutritionReport | null> {
+    return this.nutritionReports.get(userId) || null;
+  }
+
+  async saveNutritionReport(userId: string, report: NutritionReport): Promise<void> {
+    const stored = withReportDefaults({ ...report, user_id: userId });
+    this.nutritionReports.set(userId, stored);
+    await this.saveReportToHistory(userId, stored);
+  }
+
+  async clearNutritionReport(userId: string): Promise<void> {
+    this.nutritionReports.delete(userId);
+  }
+
+  // Current multi-child report
+
+  async getMultiChildReport(userId: string): Promise<MultiChildReport | null> {
+    return this.multiChildReports.get(userId) || null;
+  }
+
+  async saveMultiChildReport(userId: string, report: MultiChildReport): Promise<void> {
+    const stored = withReportDefaults({ ...report, user_id: userId });
+    this.multiChildReports.set(userId, stored);
+    await this.saveReportToHistory(userId, stored);
+  }
+
+  async clearMultiChildReport(userId: string): Promise<void> {
+    this.multiChildReports.delete(userId);
+  }
+
+  // Report history
+
+  async getReportHistory(userId: string): Promise<ReportHistoryItem[]> {
+    return this.reportHistory.get(userId) || [];
+  }
+
+  async saveReportToHistory(userId: string, report: NutritionReport | MultiChildReport): Promise<void> {
+    const historyItem = { ...toReportHistoryItem(report), user_id: userId };
+
+    // One entry per report date and kind - replace an existing one
+    const history = (await this.getReportHistory(userId)).filter(item =>
+      !(item.reportDate === historyItem.reportDate && item.isMultiChild === historyItem.isMultiChild)
+    );
+    history.push(historyItem);
+
+    const cutoff = Date.now() - REPORT_HISTORY_RETENTION_MS;
+    this.reportHistory.set(
+      userId,
+      history
+        .filter(item => item.analysisDate > cutoff)
+        .sort((a, b) => b.reportDate.localeCompare(a.reportDate)),
+    );
+  }
+
+  async deleteReportFromHistory(userId: string, reportId: string): Promise<void> {
+    const history = await this.getReportHistory(userId);
+    this.reportHistory.set(userId, history.filter(item => item.id !== reportId));
+  }
+
+  async clearReportHistory(userId: string): Promise<void> {
+    this.reportHistory.delete(userId);
+  }
+
+  // Food plans
+
+  async getFoodPlans(userId: string): Promise<FoodPlan[]> {
+    return this.foodPlans.get(userId) || [];
+  }
+
+  async saveFoodPlan(userId: string, plan: FoodPlan): Promise<void> {
+    const stored = { ...plan, user_id: userId };
+    const plans = (await this.getFoodPlans(userId))
+      .filter(p => p.id !== plan.id)
+      // Only one plan can be the default
+      .map(p => (stored.isDefault ? { ...p, isDefault: false } : p));
+
+    this.foodPlans.set(userId, [...plans, stored]);
+  }
+
+  async deleteFoodPlan(userId: string, planId: string): Promise<void> {
+    const plans = await this.getFoodPlans(userId);
+    this.foodPlans.set(userId, plans.filter(plan => plan.id !== planId));
+  }
+
+  async getDefaultFoodPlan(userId: string): Promise<FoodPlan | null> {
+    const plans = await this.getFoodPlans(userId);
+    return plans.find(plan => plan.isDefault) || null;
+  }
+
+  // Custom foods
+
+  async getCustomFoods(userId: string): Promise<CustomFood[]> {
+    return this.customFoods.get(userId) || [];
+  }
+
+  async saveCustomFood(userId: string, food: CustomFood): Promise<void> {
+    const foods = (await this.getCustomFoods(userId)).filter(f => f.id !== food.id);
+    this.customFoods.set(userId, [...foods, { ...food, user_id: userId }]);
+  }
+
+  async deleteCustomFood(userId: string, foodId: string): Promise<void> {
+    const foods = await this.getCustomFoods(userId);
+    this.customFoods.set(userId, foods.filter(food => food.id !== foodId));
+  }
+
+  // Recipes
+
+  async getRecipes(userId: string): Promise<Recipe[]> {
+    return this.recipes.get(userId) || [];
+  }
+
+  async saveRecipe(userId: string, recipe: Recipe): Promise<void> {
+    const recipes = (await this.getRecipes(userId)).filter(r => r.id !== recipe.id);
+    this.recipes.set(userId, [...recipes, { ...recipe, user_id: userId }]);
+  }
+
+  async deleteRecipe(userId: string, recipeId: string): Promise<void> {
+    const recipes = await this.getRecipes(userId);
+    this.recipes.set(userId, recipes.filter(recipe => recipe.id !== recipeId));
+  }
+
+  // Planned items
+
+  async getPlannedItems(userId: string): Promise<PlannedItem[]> {
+    return this.plannedItems.get(userId) || [];
+  }
+
+  async savePlannedItems(userId: string, items: PlannedItem[]): Promise<void> {
+    this.plannedItems.set(userId, items.map(item => ({ ...item, user_id: userId })));
+  }
 }
 
-export const storage = new MemStorage();
+export type StorageDriver = "memory" | "postgres";
+
+// Pick the storage implementation at startup. STORAGE_DRIVER wins; otherwise
+// Postgres is used whenever DATABASE_URL is configured.
+export async function createStorage(
+  driver: StorageDriver | undefined = process.env.STORAGE_DRIVER as StorageDriver | undefined,
+): Promise<IStorage> {
+  const selected = driver || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (selected === "memory") {
+    return new MemStorage();
+  }
+
+  if (selected === "postgres") {
+    // Imported lazily: the database module requires DATABASE_URL at load time
+    const { db, initDatabase } = await import("./db");
+    const { PgStorage } = await import("./pg-storage");
+    await initDatabase();
+    return new PgStorage(db);
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER "${selected}". Use "memory" or "postgres".`);
+}
@@ -0,0 +1,254 @@
+import type { Allergy, Child, FoodItem } from "./schema";
+import { findExactFood } from "./nutrient-database";
+import { expandRecipeItem } from "./recipes";
+
+// The nine major food allergens under US labeling law (FALCPA plus sesame),
+// with the words that give them away in a food's name, and checks of logged
+// foods against each child's allergies and dietary restrictions.
+
+export type AllergenId =
+  | "milk" | "egg" | "fish" | "shellfish" | "tree-nuts" | "peanuts" | "wheat" | "soy" | "sesame";
+
+export type AllergySeverity = Allergy["severity"];
+
+// Allergens plus the other ingredients the dietary restrictions care about
+type IngredientTag = AllergenId | "gluten" | "meat" | "honey" | "gelatin";
+
+interface IngredientDefinition {
+  label: string;
+  keywords: RegExp;
+  // Phrases removed before matching, e.g. "coconut milk" is not milk
+  exclude?: RegExp;
+}
+
+const INGREDIENTS: Record<IngredientTag, IngredientDefinition> = {
+  milk: {
+    label: "Milk",
+    keywords: /\b(milk|cheese|cheddar|mozzarella|parmesan|butter|buttermilk|cream|yogh?urt|whey|casein|ghee|custard|pudding|latte|kefir|queso|alfredo)s?\b/,
+    exclude: /\b(coconut|almond|oat|soy|rice|cashew|hemp|pea) (milk|cream|yogh?urt|cheese)\b|\b(peanut|almond|cashew|nut|sunflower|seed|apple|cocoa|shea) butter\b|\bcream of (wheat|rice)\b|\bbreast ?milk\b/,
+  },
+  egg: {
+    label: "Egg",
+    keywords: /\b(eggs?|omelett?es?|mayo|mayonnaise|meringues?|quiche|frittata|custard|eggnog|french toast|aioli)\b/,
+    exclude: /\begg ?plants?\b|\begg[- ]free\b/,
+  },
+  fish: {
+    label: "Fish",
+    keywords: /\b(fish|salmon|tuna|cod|tilapia|sardines?|anchov(y|ies)|trout|halibut|haddock|pollock|mackerel|catfish|bass|sole|snapper|swordfish)\b/,
+  },
+  shellfish: {
+    label: "Shellfish",
+    keywords: /\b(shellfish|shrimps?|prawns?|crabs?|lobsters?|crayfish|crawfish|scallops?|clams?|mussels?|oysters?|calamari|squid)\b/,
+  },
+  "tree-nuts": {
+    label: "Tree nuts",
+    keywords: /\b(nuts|mixed nut|nut butter|almonds?|cashews?|walnuts?|pecans?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?|pralines?|marzipan|nutella|pesto)\b/,
+  },
+  peanuts: {
+    label: "Peanuts",
+    keywords: /\b(peanuts?|groundnuts?|pb ?& ?j|pbj|satay)\b/,
+  },
+  wheat: {
+    label: "Wheat",
+    keywords: /\b(wheat|flour|bread|breaded|toast|bagels?|buns?|croissants?|muffins?|pancakes?|waffles?|crackers?|pretzels?|cookies?|cakes?|cupcakes?|pies?|pastry|pastries|donuts?|doughnuts?|pasta|spaghetti|macaroni|noodles?|lasagna|ravioli|couscous|pizza|tortillas?|wraps?|burritos?|sandwich(es)?|nuggets?|semolina|bulgur|farina|seitan|graham)\b/,
+    exclude: /\b(gluten|wheat)[- ]free\b|\bbuckwheat\b|\brice (noodles?|crackers?|cakes?)\b|\bcorn tortillas?\b|\bcream of rice\b/,
+  },
+  soy: {
+    label: "Soy",
+    keywords: /\b(soy|soya|soybeans?|tofu|edamame|tempeh|miso)\b/,
+  },
+  sesame: {
+    label: "Sesame",
+    keywords: /\b(sesame|tahini|hummus|halva|halvah)\b/,
+  },
+  gluten: {
+    label: "Gluten",
+    keywords: /\b(barley|rye|malt|spelt)\b/,
+  },
+  meat: {
+    label: "Meat",
+    keywords: /\b(meat|meatballs?|chicken|beef|pork|ham|bacon|sausages?|turkey|lamb|veal|venison|hot ?dogs?|pepperoni|salami|bologna|jerky|burgers?|hamburgers?|steak|ribs?|prosciutto|chorizo)\b/,
+    exclude: /\b(veggie|vegetarian|vegan|plant[- ]based|beyond|impossible|black bean) (burgers?|sausages?|nuggets?|meatballs?|hot ?dogs?)\b/,
+  },
+  honey: {
+    label: "Honey",
+    keywords: /\bhoney\b/,
+    exclude: /\bhoneydew\b/,
+  },
+  gelatin: {
+    label: "Gelatin",
+    keywords: /\b(gelatine?|jell-?o|gummy bears?|gummies|marshmallows?)\b/,
+  },
+};
+
+export const TOP_ALLERGENS: { value: AllergenId; label: string }[] = (
+  ["milk", "egg", "fish", "shellfish", "tree-nuts", "peanuts", "wheat", "soy", "sesame"] as AllergenId[]
+).map(value => ({ value, label: INGREDIENTS[value].label }));
+
+export const ALLERGY_SEVERITIES: { value: AllergySeverity; label: string; description: string }[] = [
+  { value: "intolerance", label: "Intolerance", description: "Causes discomfort, not an allergic reaction" },
+  { value: "mild", label: "Mild allergy", description: "Hives, itching or an upset stomach" },
+  { value: "severe", label: "Severe allergy", description: "Risk of anaphylaxis; avoid completely" },
+];
+
+// Allergens in bundled database foods that their names don't reveal
+const DATABASE_FOOD_ALLERGENS: Record<string, IngredientTag[]> = {
+  "chicken-nuggets": ["wheat"],
+  "mac-and-cheese": ["wheat", "milk"],
+  "pizza-cheese": ["wheat", "milk"],
+  "pancake": ["wheat", "milk", "egg"],
+  "cookie-chocolate-chip": ["wheat", "milk", "egg"],
+  "ice-cream-vanilla": ["milk", "egg"],
+  "milk-chocolate": ["milk"],
+  "formula-infant": ["milk"],
+  "bread-white": ["wheat"],
+  "bread-whole-wheat": ["wheat"],
+  "granola-bar": ["gluten"],
+  "hummus": ["sesame"],
+};
+
+// Dietary restrictions (DIETARY_RESTRICTIONS) and the ingredients they rule out
+const RESTRICTION_CONFLICTS: Record<string, IngredientTag[]> = {
+  "vegetarian": ["meat", "fish", "shellfish", "gelatin"],
+  "vegan": ["meat", "fish", "shellfish", "gelatin", "milk", "egg", "honey"],
+  "gluten-free": ["wheat", "gluten"],
+  "dairy-free": ["milk"],
+  "nut-free": ["tree-nuts", "peanuts"],
+};
+
+function normalizeFoodName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9&'\- ]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The ingredient tags a food's name points to. A name is known when it is
+// exactly a database food's name, whose allergens are listed, or gives an
+// ingredient away; anything else can't be called allergen-free.
+function detectIngredients(name: string): { tags: Set<IngredientTag>; known: boolean } {
+  const tags = new Set<IngredientTag>();
+  const normalized = normalizeFoodName(name);
+
+  for (const [tag, definition] of Object.entries(INGREDIENTS) as [IngredientTag, IngredientDefinition][]) {
+    const text = definition.exclude ? normalized.replace(new RegExp(definition.exclude.source, "g"), " ") : normalized;
+    if (definition.keywords.test(text)) tags.add(tag);
+  }
+
+  // Only an exact name, as "banana bread" is not the database's white bread
+  const record = findExactFood(name);
+  if (record) {
+    for (const tag of DATABASE_FOOD_ALLERGENS[record.id] ?? []) tags.add(tag);
+  }
+
+  // Wheat always carries gluten
+  if (tags.has("wheat")) tags.add("gluten");
+  return { tags, known: record !== undefined || tags.size > 0 };
+}
+
+// Top-9 allergens a food likely contains, judged from its name
+export function detectAllergens(name: string): AllergenId[] {
+  const { tags } = detectIngredients(name);
+  return TOP_ALLERGENS.map(allergen => allergen.value).filter(id => tags.has(id));
+}
+
+export function getAllergyLabel(allergy: Allergy): string {
+  if (allergy.custom) return allergy.allergen;
+  return INGREDIENTS[allergy.allergen as AllergenId]?.label ?? allergy.allergen;
+}
+
+// Custom allergens match the name as written, singular or plural
+function matchesCustomAllergen(name: string, allergen: string): boolean {
+  const term = normalizeFoodName(allergen);
+  if (!term) return false;
+  // "strawberry" and "strawberries", "tomato" and "tomatoes", "kiwi" and "kiwis"
+  const pattern = /(y|ies)$/.test(term)
+    ? `${escapeRegExp(term.replace(/(y|ies)$/, ""))}(y|ies)`
+    : `${escapeRegExp(term.replace(/(es|s)$/, ""))}(e?s)?`;
+  return new RegExp(`\\b${pattern}\\b`).test(normalizeFoodName(name));
+}
+
+export interface AllergenConflict {
+  // "unknown" when the food couldn't be checked at all
+  kind: "allergy" | "restriction" | "unknown";
+  label: string;                  // The allergen or restriction, e.g. "Peanuts" or "vegan"
+  severity?: AllergySeverity;     // Allergies only
+  ingredients: string[];          // What in the food conflicts, e.g. ["Milk"], or the names that couldn't be checked
+}
+
+// The names to check for a food: its own, and each ingredient of a logged recipe
+function getCheckedNames(item: Pick<FoodItem, "name"> | FoodItem): string[] {
+  if (!("recipe" in item) || !item.recipe) return [item.name];
+  return [item.name, ...expandRecipeItem(item).map(ingredient => ingredient.name)];
+}
+
+// Conflicts between a food, or any ingredient of a recipe, and one child's
+// allergies and dietary restrictions
+export function findAllergenConflicts(
+  item: Pick<FoodItem, "name"> | FoodItem,
+  child: Pick<Child, "restrictions"> & Partial<Pick<Child, "allergies">>,
+): AllergenConflict[] {
+  const names = getCheckedNames(item);
+  const detected = names.map(name => ({ name, ...detectIngredients(name) }));
+  const tags = new Set(detected.flatMap(entry => Array.from(entry.tags)));
+  const conflicts: AllergenConflict[] = [];
+
+  for (const allergy of child.allergies ?? []) {
+    const matches = allergy.custom
+      ? names.some(name => matchesCustomAllergen(name, allergy.allergen))
+      : tags.has(allergy.allergen as IngredientTag);
+    if (matches) {
+      const label = getAllergyLabel(allergy);
+      conflicts.push({ kind: "allergy", label, severity: allergy.severity, ingredients: [label] });
+    }
+  }
+
+  for (const restriction of child.restrictions ?? []) {
+    const ingredients = (RESTRICTION_CONFLICTS[restriction] ?? []).filter(tag => tags.has(tag));
+    // Gluten is implied by wheat, so only name it when nothing else matched
+    const named = ingredients.length > 1 ? ingredients.filter(tag => tag !== "gluten") : ingredients;
+    if (named.length > 0) {
+      conflicts.push({
+        kind: "restriction",
+        label: restriction,
+        ingredients: named.map(tag => INGREDIENTS[tag].label),
+      });
+    }
+  }
+
+  // A food nothing is known about may still hold any allergen. A recipe is
+  // judged by its ingredients, not by what the family calls it.
+  const restrictions = (child.restrictions ?? []).filter(restriction => restriction !== "none");
+  const judged = detected.length > 1 ? detected.slice(1) : detected;
+  const unknown = judged.filter(entry => !entry.known).map(entry => entry.name);
+  if (conflicts.length === 0 && unknown.length > 0 && ((child.allergies?.length ?? 0) > 0 || restrictions.length > 0)) {
+    conflicts.push({ kind: "unknown", label: "Unknown ingredients", ingredients: unknown });
+  }
+
+  // Severe allergies first, then other allergies, then restrictions
+  const rank = (conflict: AllergenConflict) =>
+    conflict.kind !== "allergy" ? 3 : conflict.severity === "severe" ? 0 : conflict.severity === "mild" ? 1 : 2;
+  return conflicts.sort((a, b) => rank(a) - rank(b));
+}
+
+export function describeConflict(conflict: AllergenConflict, childName?: string): string {
+  const who = childName || "This child";
+  if (conflict.kind === "unknown") {
+    return `Couldn't check ${conflict.ingredients.join(", ")} against ${childName ? `${childName}'s` : "this child's"} allergies and restrictions`;
+  }
+  const ingredients = conflict.ingredients.join(", ").toLowerCase();
+  if (conflict.kind === "restriction") {
+    return `${who} is ${conflict.label} - this may contain ${ingredients}`;
+  }
+  if (conflict.severity === "intolerance") return `${who} has a ${ingredients} intolerance`;
+  return `${who} has a ${conflict.severity === "severe" ? "severe " : ""}${ingredients} allergy`;
+}
+
+// Allergies written out for the analysis prompt
+export function formatAllergiesForPrompt(allergies: Allergy[] | undefined): string {
+  if (!allergies || allergies.length === 0) return "";
+  return allergies
+    .map(allergy => `${getAllergyLabel(allergy)} (${ALLERGY_SEVERITIES.find(s => s.value === allergy.severity)?.label.toLowerCase()})`)
+    .join(", ");
+}
@@ -0,0 +1,57 @@
+import type { CustomFood, NutritionFacts } from "./schema";
+import { NUTRIENT_KEYS, type NutrientKey } from "./nutrient-database";
+
+// Foods entered from a nutrition facts label. Logged items copy the label
+// values, so reports keep working if the custom food is later edited or deleted.
+
+// The nutrients a US Nutrition Facts label always lists, in label order
+export const LABEL_NUTRIENTS: NutrientKey[] = [
+  "calories", "fat", "sodium", "carbohydrates", "fiber", "sugar", "protein",
+  "vitaminD", "calcium", "iron", "potassium",
+];
+
+// Nutrients some labels add voluntarily
+export const OPTIONAL_LABEL_NUTRIENTS: NutrientKey[] = NUTRIENT_KEYS.filter(key => !LABEL_NUTRIENTS.includes(key));
+
+export function getCustomFoodDisplayName(food: CustomFood): string {
+  if (!food.brand || food.name.toLowerCase().includes(food.brand.toLowerCase())) return food.name;
+  return `${food.brand} ${food.name}`;
+}
+
+export function customFoodToNutritionFacts(food: CustomFood): NutritionFacts {
+  return {
+    servingSize: food.servingSize,
+    servingUnit: food.servingUnit,
+    servingLabel: food.servingLabel || `${food.servingSize} ${food.servingUnit}`,
+    nutrients: { ...food.nutrients },
+    source: "custom",
+  };
+}
+
+// Custom foods whose name or brand contains the query, names starting with it first
+export function searchCustomFoods(foods: CustomFood[], query: string, limit: number = 5): CustomFood[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [];
+
+  return foods
+    .map(food => {
+      const name = getCustomFoodDisplayName(food).toLowerCase();
+      const score = name === normalized ? 3
+        : name.startsWith(normalized) || food.name.toLowerCase().startsWith(normalized) ? 2
+        : name.includes(normalized) ? 1
+        : 0;
+      return { food, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.food.name.localeCompare(b.food.name))
+    .slice(0, limit)
+    .map(({ food }) => food);
+}
+
+// The custom food a logged name refers to, matched on the whole name
+export function findCustomFood(foods: CustomFood[], name: string): CustomFood | undefined {
+  const normalized = name.trim().toLowerCase();
+  return foods.find(food =>
+    food.name.toLowerCase() === normalized || getCustomFoodDisplayName(food).toLowerCase() === normalized
+  );
+}
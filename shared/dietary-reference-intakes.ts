@@ -0,0 +1,288 @@
+import type { Child, Nutrient, NutritionReport } from "./schema";
+import { NUTRIENT_INFO, type NutrientKey } from "./nutrient-database";
+import { getAgeInMonths, calculateEnergyRequirement, type EnergyProfile } from "./energy-requirements";
+
+// Dietary Reference Intakes from the National Academies (IOM) for infants,
+// children and adolescents. Targets are the RDA where one exists, otherwise
+// the Adequate Intake. Upper limits are the Tolerable Upper Intake Levels
+// (the Chronic Disease Risk Reduction intake for sodium).
+
+export type ReferenceType = "RDA" | "AI";
+
+export interface NutrientReference {
+  target: number;
+  type: ReferenceType;
+  upperLimit?: number;
+}
+
+export type AgeBand = "0-6m" | "7-12m" | "1-3" | "4-8" | "9-13" | "14-18";
+
+export type DriSex = "male" | "female";
+
+export interface DietaryReferenceProfile {
+  ageBand: AgeBand;
+  sex?: DriSex;
+  references: Partial<Record<NutrientKey, NutrientReference>>;
+}
+
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+  "0-6m": "infants (0-6 months)",
+  "7-12m": "infants (7-12 months)",
+  "1-3": "toddlers (1-3 years)",
+  "4-8": "young children (4-8 years)",
+  "9-13": "older children (9-13 years)",
+  "14-18": "adolescents (14-18 years)",
+};
+
+// [target, type, upper limit] per age band; a pair of rows where the sexes differ
+type Row = [number, ReferenceType, number?];
+type BandValues = Row | { male: Row; female: Row };
+
+const DRI_TABLE: Partial<Record<NutrientKey, Record<AgeBand, BandValues>>> = {
+  protein: {
+    "0-6m": [9.1, "AI"], "7-12m": [11, "RDA"], "1-3": [13, "RDA"], "4-8": [19, "RDA"], "9-13": [34, "RDA"],
+    "14-18": { male: [52, "RDA"], female: [46, "RDA"] },
+  },
+  carbohydrates: {
+    "0-6m": [60, "AI"], "7-12m": [95, "AI"], "1-3": [130, "RDA"], "4-8": [130, "RDA"], "9-13": [130, "RDA"], "14-18": [130, "RDA"],
+  },
+  fiber: {
+    "0-6m": [0, "AI"], "7-12m": [0, "AI"], "1-3": [19, "AI"], "4-8": [25, "AI"],
+    "9-13": { male: [31, "AI"], female: [26, "AI"] },
+    "14-18": { male: [38, "AI"], female: [26, "AI"] },
+  },
+  calcium: {
+    "0-6m": [200, "AI", 1000], "7-12m": [260, "AI", 1500], "1-3": [700, "RDA", 2500], "4-8": [1000, "RDA", 2500],
+    "9-13": [1300, "RDA", 3000], "14-18": [1300, "RDA", 3000],
+  },
+  iron: {
+    "0-6m": [0.27, "AI", 40], "7-12m": [11, "RDA", 40], "1-3": [7, "RDA", 40], "4-8": [10, "RDA", 40], "9-13": [8, "RDA", 40],
+    "14-18": { male: [11, "RDA", 45], female: [15, "RDA", 45] },
+  },
+  // The magnesium UL applies to supplements and medications only
+  magnesium: {
+    "0-6m": [30, "AI"], "7-12m": [75, "AI"], "1-3": [80, "RDA", 65], "4-8": [130, "RDA", 110], "9-13": [240, "RDA", 350],
+    "14-18": { male: [410, "RDA", 350], female: [360, "RDA", 350] },
+  },
+  potassium: {
+    "0-6m": [400, "AI"], "7-12m": [860, "AI"], "1-3": [2000, "AI"], "4-8": [2300, "AI"],
+    "9-13": { male: [2500, "AI"], female: [2300, "AI"] },
+    "14-18": { male: [3000, "AI"], female: [2300, "AI"] },
+  },
+  sodium: {
+    "0-6m": [110, "AI"], "7-12m": [370, "AI"], "1-3": [800, "AI", 1200], "4-8": [1000, "AI", 1500],
+    "9-13": [1200, "AI", 1800], "14-18": [1500, "AI", 2300],
+  },
+  zinc: {
+    "0-6m": [2, "AI", 4], "7-12m": [3, "RDA", 5], "1-3": [3, "RDA", 7], "4-8": [5, "RDA", 12], "9-13": [8, "RDA", 23],
+    "14-18": { male: [11, "RDA", 34], female: [9, "RDA", 34] },
+  },
+  // The vitamin A UL applies to preformed vitamin A (retinol)
+  vitaminA: {
+    "0-6m": [400, "AI", 600], "7-12m": [500, "AI", 600], "1-3": [300, "RDA", 600], "4-8": [400, "RDA", 900], "9-13": [600, "RDA", 1700],
+    "14-18": { male: [900, "RDA", 2800], female: [700, "RDA", 2800] },
+  },
+  vitaminC: {
+    "0-6m": [40, "AI"], "7-12m": [50, "AI"], "1-3": [15, "RDA", 400], "4-8": [25, "RDA", 650], "9-13": [45, "RDA", 1200],
+    "14-18": { male: [75, "RDA", 1800], female: [65, "RDA", 1800] },
+  },
+  vitaminD: {
+    "0-6m": [10, "AI", 25], "7-12m": [10, "AI", 38], "1-3": [15, "RDA", 63], "4-8": [15, "RDA", 75], "9-13": [15, "RDA", 100],
+    "14-18": [15, "RDA", 100],
+  },
+  vitaminB12: {
+    "0-6m": [0.4, "AI"], "7-12m": [0.5, "AI"], "1-3": [0.9, "RDA"], "4-8": [1.2, "RDA"], "9-13": [1.8, "RDA"], "14-18": [2.4, "RDA"],
+  },
+  // The folate UL applies to folic acid from fortified foods and supplements
+  folate: {
+    "0-6m": [65, "AI"], "7-12m": [80, "AI"], "1-3": [150, "RDA", 300], "4-8": [200, "RDA", 400], "9-13": [300, "RDA", 600],
+    "14-18": [400, "RDA", 800],
+  },
+};
+
+// Upper limits that only count intake from some sources rather than all food
+export const UPPER_LIMIT_SCOPE: Partial<Record<NutrientKey, "supplements" | "preformed vitamin A" | "folic acid">> = {
+  magnesium: "supplements",
+  vitaminA: "preformed vitamin A",
+  folate: "folic acid",
+};
+
+// Acceptable Macronutrient Distribution Range for fat, as a share of calories
+const FAT_AMDR: Record<AgeBand, [number, number]> = {
+  "0-6m": [0.4, 0.55], "7-12m": [0.3, 0.4], "1-3": [0.3, 0.4], "4-8": [0.25, 0.35], "9-13": [0.25, 0.35], "14-18": [0.25, 0.35],
+};
+
+const CALORIES_PER_GRAM_FAT = 9;
+
+// Children without a date of birth are treated as 4-8, the band the app is mostly used for
+export function getAgeBand(ageInMonths: number | null): AgeBand {
+  if (ageInMonths === null) return "4-8";
+  if (ageInMonths < 7) return "0-6m";
+  if (ageInMonths < 12) return "7-12m";
+  if (ageInMonths < 48) return "1-3";
+  if (ageInMonths < 108) return "4-8";
+  if (ageInMonths < 168) return "9-13";
+  return "14-18";
+}
+
+export function toDriSex(gender: string | undefined): DriSex | undefined {
+  return gender === "male" || gender === "female" ? gender : undefined;
+}
+
+function resolveRow(values: BandValues, sex: DriSex | undefined): NutrientReference {
+  if (Array.isArray(values)) {
+    const [target, type, upperLimit] = values;
+    return { target, type, upperLimit };
+  }
+  if (sex) {
+    const [target, type, upperLimit] = values[sex];
+    return { target, type, upperLimit };
+  }
+
+  // Sex not given: average the two targets and keep the lower upper limit
+  const [maleTarget, type, maleLimit] = values.male;
+  const [femaleTarget, , femaleLimit] = values.female;
+  const limits = [maleLimit, femaleLimit].filter((limit): limit is number => limit !== undefined);
+  return {
+    target: Math.round(((maleTarget + femaleTarget) / 2) * 10) / 10,
+    type,
+    upperLimit: limits.length > 0 ? Math.min(...limits) : undefined,
+  };
+}
+
+export function getDietaryReferenceIntakes(
+  child: Pick<Child, "dateOfBirth" | "gender"> | undefined,
+  onDate?: string,
+): DietaryReferenceProfile {
+  const ageInMonths = child?.dateOfBirth ? getAgeInMonths(child.dateOfBirth, onDate) : null;
+  const ageBand = getAgeBand(ageInMonths);
+  const sex = toDriSex(child?.gender);
+
+  const references: Partial<Record<NutrientKey, NutrientReference>> = {};
+  for (const [key, bands] of Object.entries(DRI_TABLE) as [NutrientKey, Record<AgeBand, BandValues>][]) {
+    const reference = resolveRow(bands[ageBand], sex);
+    // Infants have no fiber target
+    if (reference.target > 0) references[key] = reference;
+  }
+
+  return { ageBand, sex, references };
+}
+
+// Fat has no RDA past infancy; use the middle of the AMDR for the calorie target
+export function getFatReference(ageBand: AgeBand, caloriesTarget: number): NutrientReference {
+  const [low, high] = FAT_AMDR[ageBand];
+  return {
+    target: Math.round((caloriesTarget * ((low + high) / 2)) / CALORIES_PER_GRAM_FAT),
+    type: "AI",
+  };
+}
+
+export function getFatRangeText(ageBand: AgeBand, caloriesTarget: number): string {
+  const [low, high] = FAT_AMDR[ageBand];
+  const toGrams = (share: number) => Math.round((caloriesTarget * share) / CALORIES_PER_GRAM_FAT);
+  return `${toGrams(low)}-${toGrams(high)}g (${low * 100}-${high * 100}% of calories)`;
+}
+
+function formatAmount(value: number): string {
+  return value >= 10 ? String(Math.round(value)) : String(Math.round(value * 10) / 10);
+}
+
+export function formatReferenceRange(key: NutrientKey, reference: NutrientReference): string {
+  const unit = NUTRIENT_INFO[key].unit;
+  const target = `${formatAmount(reference.target)}${unit} (${reference.type})`;
+  // A supplement-only limit can sit below the food target, which would read as a contradiction
+  return reference.upperLimit !== undefined && UPPER_LIMIT_SCOPE[key] !== "supplements"
+    ? `${target}, max ${formatAmount(reference.upperLimit)}${unit}`
+    : target;
+}
+
+// Share of the target met, capped at 100 like the rest of the report
+export function calculatePercentOfDaily(amount: number, reference: NutrientReference): number {
+  if (reference.target <= 0) return 0;
+  return Math.min(100, Math.max(0, Math.round((amount / reference.target) * 100)));
+}
+
+// Report nutrient names as models write them, e.g. "Dietary Fiber" or "Folate (B9)"
+const NUTRIENT_NAME_PATTERNS: [NutrientKey, RegExp][] = [
+  ["protein", /protein/],
+  ["carbohydrates", /carb/],
+  ["fiber", /fib(er|re)/],
+  ["fat", /^(total )?fats?\b/],
+  ["calcium", /calcium/],
+  ["iron", /iron/],
+  ["magnesium", /magnesium/],
+  ["potassium", /potassium/],
+  ["sodium", /sodium/],
+  ["zinc", /zinc/],
+  ["vitaminA", /vitamin a\b/],
+  ["vitaminC", /vitamin c\b/],
+  ["vitaminD", /vitamin d\d?\b/],
+  ["vitaminB12", /b-?12|cobalamin/],
+  ["folate", /folate|folic|b-?9\b/],
+];
+
+export function matchNutrientKey(name: string): NutrientKey | undefined {
+  const normalized = name.trim().toLowerCase();
+  return NUTRIENT_NAME_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0];
+}
+
+const MASS_IN_GRAMS: Record<string, number> = { g: 1, mg: 0.001, mcg: 0.000001, "µg": 0.000001, ug: 0.000001 };
+
+// Convert a reported amount into the unit the reference tables use. IU of
+// vitamin A are taken as retinol, the form supplements mostly contain.
+export function convertToReferenceUnit(amount: number, unit: string, key: NutrientKey): number | null {
+  const from = unit.trim().toLowerCase();
+  const to = NUTRIENT_INFO[key].unit;
+  if (from === to) return amount;
+  if (key === "vitaminD" && from === "iu") return amount / 40;
+  if (key === "vitaminA" && from === "iu") return amount * 0.3;
+  if (MASS_IN_GRAMS[from] !== undefined && MASS_IN_GRAMS[to] !== undefined) {
+    return (amount * MASS_IN_GRAMS[from]) / MASS_IN_GRAMS[to];
+  }
+  return null;
+}
+
+function applyToNutrient(
+  nutrient: Nutrient,
+  profile: DietaryReferenceProfile,
+  caloriesTarget: number,
+): Nutrient {
+  const key = matchNutrientKey(nutrient.name);
+  if (!key) return nutrient;
+
+  const reference = key === "fat"
+    ? getFatReference(profile.ageBand, caloriesTarget)
+    : profile.references[key];
+  const amount = parseFloat(nutrient.value);
+  if (!reference || isNaN(amount)) return nutrient;
+
+  const converted = convertToReferenceUnit(amount, nutrient.unit, key);
+  if (converted === null) return nutrient;
+
+  return {
+    ...nutrient,
+    percentOfDaily: calculatePercentOfDaily(converted, reference),
+    recommendedRange: key === "fat"
+      ? getFatRangeText(profile.ageBand, caloriesTarget)
+      : formatReferenceRange(key, reference),
+  };
+}
+
+// Replace the targets in a report with the DRI values for the child, so reports
+// from any model (or none) are measured against the same numbers
+export function applyDietaryReferenceIntakes(
+  report: NutritionReport,
+  child: EnergyProfile | undefined,
+  onDate?: string,
+): NutritionReport {
+  const profile = getDietaryReferenceIntakes(child, onDate);
+  const caloriesTarget = calculateEnergyRequirement(child, onDate);
+
+  return {
+    ...report,
+    caloriesTarget,
+    macronutrients: report.macronutrients.map(nutrient => applyToNutrient(nutrient, profile, caloriesTarget)),
+    vitamins: report.vitamins.map(nutrient => applyToNutrient(nutrient, profile, caloriesTarget)),
+    minerals: report.minerals.map(nutrient => applyToNutrient(nutrient, profile, caloriesTarget)),
+  };
+}
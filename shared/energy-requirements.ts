@@ -0,0 +1,98 @@
+import type { Child } from "./schema";
+import type { DriSex } from "./dietary-reference-intakes";
+
+// Estimated Energy Requirement equations from the IOM Dietary Reference
+// Intakes for Energy (2005), for healthy-weight infants, children and teens.
+
+export type ActivityLevel = NonNullable<Child["activityLevel"]>;
+
+// The child fields the calculation reads; all but dateOfBirth and gender are optional
+export type EnergyProfile = Pick<Child, "dateOfBirth" | "gender"> &
+  Partial<Pick<Child, "weight" | "height" | "weightUnit" | "heightUnit" | "activityLevel">>;
+
+const KG_PER_POUND = 0.4536;
+const CM_PER_INCH = 2.54;
+
+// Physical activity coefficients for ages 3-18
+const ACTIVITY_COEFFICIENTS: Record<DriSex, Record<ActivityLevel, number>> = {
+  male: { "sedentary": 1.0, "low-active": 1.13, "active": 1.26, "very-active": 1.42 },
+  female: { "sedentary": 1.0, "low-active": 1.16, "active": 1.31, "very-active": 1.56 },
+};
+
+export function getAgeInMonths(dateOfBirth: string, onDate: string = new Date().toISOString().split('T')[0]): number {
+  const birth = new Date(dateOfBirth);
+  const today = new Date(onDate);
+  let months = (today.getFullYear() - birth.getFullYear()) * 12 + (today.getMonth() - birth.getMonth());
+  if (today.getDate() < birth.getDate()) months--;
+  return Math.max(0, months);
+}
+
+// Typical needs of a low-active child, for when the EER inputs are missing.
+// Without a date of birth, assume the 4-8 range the app is mostly used for.
+function getTypicalEnergyRequirement(ageInMonths: number | null): number {
+  if (ageInMonths === null) return 1400;
+  if (ageInMonths < 7) return 550;
+  if (ageInMonths < 12) return 750;
+  if (ageInMonths < 48) return 1000;
+  if (ageInMonths < 108) return 1400;
+  if (ageInMonths < 168) return 1800;
+  return 2200;
+}
+
+export function getWeightInKg(child: Pick<EnergyProfile, "weight" | "weightUnit">): number | null {
+  if (child.weight === null || child.weight === undefined) return null;
+  return child.weightUnit === "kg" ? child.weight : child.weight * KG_PER_POUND;
+}
+
+export function getHeightInCm(child: Pick<EnergyProfile, "height" | "heightUnit">): number | null {
+  if (child.height === null || child.height === undefined) return null;
+  return child.heightUnit === "cm" ? child.height : child.height * CM_PER_INCH;
+}
+
+// Energy for growth is added on top of total energy expenditure
+function infantEer(ageInMonths: number, weightKg: number): number {
+  const expenditure = 89 * weightKg - 100;
+  if (ageInMonths < 4) return expenditure + 175;
+  if (ageInMonths < 7) return expenditure + 56;
+  if (ageInMonths < 13) return expenditure + 22;
+  return expenditure + 20;
+}
+
+function childEer(sex: DriSex, ageYears: number, weightKg: number, heightM: number, activity: ActivityLevel): number {
+  const pa = ACTIVITY_COEFFICIENTS[sex][activity];
+  const growth = ageYears < 9 ? 20 : 25;
+  return sex === "male"
+    ? 88.5 - 61.9 * ageYears + pa * (26.7 * weightKg + 903 * heightM) + growth
+    : 135.3 - 30.8 * ageYears + pa * (10 * weightKg + 934 * heightM) + growth;
+}
+
+// Daily calorie target from the EER equations. Falls back to the typical
+// value for the age band when weight, height or date of birth is missing.
+export function calculateEnergyRequirement(child: EnergyProfile | undefined, onDate?: string): number {
+  const ageInMonths = child?.dateOfBirth ? getAgeInMonths(child.dateOfBirth, onDate) : null;
+  const fallback = getTypicalEnergyRequirement(ageInMonths);
+  if (!child || ageInMonths === null) return fallback;
+
+  const weightKg = getWeightInKg(child);
+  if (weightKg === null) return fallback;
+
+  // Under 3 the equations use weight alone
+  if (ageInMonths < 36) {
+    return Math.round(infantEer(ageInMonths, weightKg));
+  }
+
+  const heightCm = getHeightInCm(child);
+  if (heightCm === null) return fallback;
+
+  const ageYears = Math.min(ageInMonths / 12, 18);
+  const activity = child.activityLevel || "low-active";
+  const sex: DriSex | undefined = child.gender === "male" || child.gender === "female" ? child.gender : undefined;
+
+  // Sex not given: average the two equations
+  const eer = sex
+    ? childEer(sex, ageYears, weightKg, heightCm / 100, activity)
+    : (childEer("male", ageYears, weightKg, heightCm / 100, activity) +
+       childEer("female", ageYears, weightKg, heightCm / 100, activity)) / 2;
+
+  return Math.round(eer);
+}
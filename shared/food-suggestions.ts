@@ -0,0 +1,131 @@
+import type { FoodItem, FoodPlan } from "./schema";
+import { isItemForChild } from "./nutrient-calculator";
+import { searchFoods } from "./nutrient-database";
+
+// Name suggestions for the food entry forms, ranked from what the family has
+// logged before: recently logged foods, foods a child has often, and foods
+// usually had at the meal being logged come first.
+
+export interface FoodSuggestion {
+  name: string;
+  source: "history" | "plan" | "database";
+  // The quantity and unit the food was last logged with
+  quantity?: number;
+  unit?: string;
+  timesLogged: number;
+}
+
+export interface FoodSuggestionContext {
+  history: FoodItem[];
+  plans: FoodPlan[];
+  type: "food" | "drink";
+  mealType?: string;
+  childIds?: string[];
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A food logged a week ago counts half as much for recency as one logged today
+const RECENCY_HALF_LIFE_DAYS = 7;
+
+interface Candidate {
+  name: string;
+  source: FoodSuggestion["source"];
+  latest?: FoodItem;
+  lastLoggedAt: number;
+  timesLogged: number;
+  timesForChild: number;
+  timesAtMeal: number;
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// 3 for a name starting with the query, 2 for a later word starting with it,
+// 1 for the query anywhere in the name
+function matchScore(name: string, query: string): number {
+  if (name.startsWith(query)) return 3;
+  if (name.includes(` ${query}`)) return 2;
+  return name.includes(query) ? 1 : 0;
+}
+
+function addItem(candidates: Map<string, Candidate>, item: FoodItem, source: Candidate["source"], context: FoodSuggestionContext) {
+  const key = normalize(item.name);
+  const candidate = candidates.get(key) ?? {
+    name: item.name.trim(),
+    source,
+    lastLoggedAt: 0,
+    timesLogged: 0,
+    timesForChild: 0,
+    timesAtMeal: 0,
+  };
+  if (source === "history") {
+    candidate.source = "history";
+    candidate.timesLogged += 1;
+    if (context.childIds?.some(childId => isItemForChild(item, childId))) candidate.timesForChild += 1;
+    if (context.mealType && item.mealType === context.mealType) candidate.timesAtMeal += 1;
+    if (item.createdAt >= candidate.lastLoggedAt) {
+      candidate.lastLoggedAt = item.createdAt;
+      candidate.latest = item;
+      candidate.name = item.name.trim();
+    }
+  } else if (!candidate.latest) {
+    candidate.latest = item;
+  }
+  candidates.set(key, candidate);
+}
+
+function rankScore(candidate: Candidate, match: number, now: number): number {
+  if (candidate.source === "database") return match;
+  const ageDays = Math.max(0, (now - candidate.lastLoggedAt) / DAY_MS);
+  const recency = candidate.timesLogged > 0 ? Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS) : 0;
+  const mealShare = candidate.timesLogged > 0 ? candidate.timesAtMeal / candidate.timesLogged : 0;
+  // Planned foods rank above the database but below anything actually logged
+  const familiarity = candidate.source === "plan"
+    ? 1
+    : 2 + 3 * recency + 2 * Math.log2(1 + candidate.timesForChild) + Math.log2(1 + candidate.timesLogged) + 2 * mealShare;
+  return match * (1 + familiarity);
+}
+
+// Foods and drinks matching what has been typed, best first
+export function rankFoodSuggestions(query: string, context: FoodSuggestionContext, limit: number = 6): FoodSuggestion[] {
+  const normalized = normalize(query);
+  if (!normalized) return [];
+  const now = context.now ?? Date.now();
+
+  const candidates = new Map<string, Candidate>();
+  for (const item of context.history) {
+    if (item.type === context.type) addItem(candidates, item, "history", context);
+  }
+  for (const plan of context.plans) {
+    for (const item of plan.items) {
+      if (item.type === context.type) addItem(candidates, item, "plan", context);
+    }
+  }
+  for (const record of searchFoods(normalized, limit)) {
+    const isDrink = record.category === "drinks";
+    const key = normalize(record.name);
+    if (isDrink !== (context.type === "drink") || candidates.has(key)) continue;
+    candidates.set(key, { name: record.name, source: "database", lastLoggedAt: 0, timesLogged: 0, timesForChild: 0, timesAtMeal: 0 });
+  }
+
+  return Array.from(candidates.entries())
+    // Database foods can match on an alias ("oj") the name doesn't contain
+    .map(([key, candidate]) => ({
+      candidate,
+      score: rankScore(candidate, matchScore(key, normalized) || (candidate.source === "database" ? 1 : 0), now),
+    }))
+    // The name already typed in full needs no suggestion
+    .filter(({ candidate, score }) => score > 0 && normalize(candidate.name) !== normalized)
+    .sort((a, b) => b.score - a.score || a.candidate.name.localeCompare(b.candidate.name))
+    .slice(0, limit)
+    .map(({ candidate }) => ({
+      name: candidate.name,
+      source: candidate.source,
+      quantity: candidate.latest?.quantity,
+      unit: candidate.latest?.unit,
+      timesLogged: candidate.timesLogged,
+    }));
+}
@@ -0,0 +1,219 @@
+import type { FoodItem, RecipeSnapshot } from "./schema";
+import { findFood, findExactFood, type FoodRecord } from "./nutrient-database";
+import { getChildQuantity } from "./nutrient-calculator";
+import { getRecipePortionShare } from "./recipes";
+import { convertToGrams, convertToMilliliters, getUnitKind } from "./units";
+import { isPlannedForChild } from "./meal-planner";
+
+// A shopping list for the meals planned over a range of days: recipes are
+// bought as whole batches, the same food planned in different units is added
+// up where the units convert, and everything is grouped by store aisle.
+
+export interface GroceryAmount {
+  quantity: number;
+  unit: string;
+}
+
+export interface GroceryItem {
+  name: string;
+  aisle: string;
+  // Usually one; more when a food was planned in units that don't convert
+  amounts: GroceryAmount[];
+}
+
+export interface GroceryAisle {
+  aisle: string;
+  items: GroceryItem[];
+}
+
+export interface GroceryRecipe {
+  name: string;
+  batches: number;
+}
+
+export interface GroceryList {
+  from: string;
+  to: string;
+  aisles: GroceryAisle[];
+  recipes: GroceryRecipe[];
+}
+
+// Store aisles for the database categories, in the order a list is shopped
+const AISLES_BY_CATEGORY: Record<string, string> = {
+  fruit: "Produce",
+  vegetables: "Produce",
+  grains: "Bakery & grains",
+  protein: "Meat, fish & eggs",
+  dairy: "Dairy",
+  fats: "Oils & spreads",
+  mixed: "Prepared foods",
+  drinks: "Drinks",
+  sweets: "Snacks & sweets",
+  infant: "Baby",
+};
+const OTHER_AISLE = "Other";
+const AISLE_ORDER = [...Array.from(new Set(Object.values(AISLES_BY_CATEGORY))), OTHER_AISLE];
+
+interface GroceryEntry {
+  name: string;
+  quantity: number;
+  unit: string;
+  type: FoodItem["type"];
+  // For converting units and picking the aisle
+  record?: FoodRecord;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// How much of an item to buy: every child it is planned for gets their own
+// portion, and an item for no child in particular is for each of them
+function getServedQuantity(item: FoodItem, childIds: string[]): number {
+  const forChildren = item.childIds ?? (item.childId ? [item.childId] : childIds);
+  if (forChildren.length === 0) return item.quantity;
+  return forChildren.reduce((total, childId) => total + getChildQuantity(item, childId), 0);
+}
+
+// Whole units are bought whole and measures rounded up to a quarter, with
+// some slack for conversions that land just past one
+function roundForShopping(quantity: number, unit: string, type: FoodItem["type"]): number {
+  if (getUnitKind(unit, type) === "count") return Math.ceil(quantity - 0.05);
+  return quantity >= 10 ? Math.ceil(quantity - 0.05) : Math.ceil(quantity * 4 - 0.2) / 4;
+}
+
+// Add up one food's entries: by weight where they convert to grams, then by
+// volume, and anything left per unit. Each total is given in the unit used
+// most often for it.
+function mergeAmounts(entries: GroceryEntry[]): GroceryAmount[] {
+  const buckets = new Map<string, { entries: GroceryEntry[]; toBase: (entry: GroceryEntry, quantity: number) => number | null }>();
+  const byWeight = (entry: GroceryEntry, quantity: number) => convertToGrams(quantity, entry.unit, entry.record, entry.type);
+  const byVolume = (entry: GroceryEntry, quantity: number) => convertToMilliliters(quantity, entry.unit, entry.record, entry.type);
+
+  for (const entry of entries) {
+    const key = byWeight(entry, 1) !== null ? "weight" : byVolume(entry, 1) !== null ? "volume" : `unit:${entry.unit}`;
+    const toBase = key === "weight" ? byWeight : key === "volume" ? byVolume : (_: GroceryEntry, quantity: number) => quantity;
+    if (!buckets.has(key)) buckets.set(key, { entries: [], toBase });
+    buckets.get(key)!.entries.push(entry);
+  }
+
+  return Array.from(buckets.values()).map(({ entries: bucket, toBase }) => {
+    const unitCounts = new Map<string, number>();
+    for (const entry of bucket) unitCounts.set(entry.unit, (unitCounts.get(entry.unit) ?? 0) + 1);
+    const unit = Array.from(unitCounts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    const sample = bucket.find(entry => entry.unit === unit)!;
+
+    const sameUnit = bucket.every(entry => entry.unit === unit);
+    const quantity = sameUnit
+      ? bucket.reduce((total, entry) => total + entry.quantity, 0)
+      : bucket.reduce((total, entry) => total + (toBase(entry, entry.quantity) ?? 0), 0) / (toBase(sample, 1) ?? 1);
+    return { quantity: roundForShopping(quantity, unit, sample.type), unit };
+  });
+}
+
+// Planned items in a date range, inclusive, for one child or for everyone
+export function buildGroceryList(
+  items: FoodItem[],
+  from: string,
+  to: string,
+  childIds: string[],
+  childId: string | null = null
+): GroceryList {
+  const planned = items.filter(item =>
+    item.date >= from && item.date <= to && item.type !== "supplement" && isPlannedForChild(item, childId)
+  );
+
+  const entries: GroceryEntry[] = [];
+  const recipeShares = new Map<string, { name: string; recipe: RecipeSnapshot; share: number }>();
+
+  for (const item of planned) {
+    const quantity = getServedQuantity(item, childId ? [childId] : childIds);
+    if (item.recipe) {
+      const share = getRecipePortionShare({ ...item, quantity }, item.recipe);
+      const existing = recipeShares.get(item.recipe.id);
+      if (existing) existing.share += share;
+      else recipeShares.set(item.recipe.id, { name: item.name, recipe: item.recipe, share });
+      continue;
+    }
+    entries.push({ name: item.name, quantity, unit: item.unit, type: item.type, record: item.nutritionFacts ? undefined : findFood(item.name) });
+  }
+
+  // Recipes are cooked in whole batches, however many servings of them were planned
+  const recipes: GroceryRecipe[] = [];
+  recipeShares.forEach(({ name, recipe, share }) => {
+    const batches = Math.max(1, Math.ceil(share - 0.001));
+    recipes.push({ name, batches });
+    for (const ingredient of recipe.ingredients) {
+      entries.push({
+        name: ingredient.name,
+        quantity: ingredient.quantity * batches,
+        unit: ingredient.unit,
+        type: "food",
+        record: ingredient.nutritionFacts ? undefined : findFood(ingredient.name),
+      });
+    }
+  });
+
+  // The same food by name, or by database food when the name is exactly one of
+  // its names, so "milk" and "whole milk" meet but "apple pie" stays apart from "apple"
+  const groups = new Map<string, GroceryEntry[]>();
+  for (const entry of entries) {
+    const exact = entry.record && findExactFood(entry.name);
+    const key = exact ? `food:${exact.id}` : `name:${normalizeName(entry.name)}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
+  }
+
+  const aisles = new Map<string, GroceryItem[]>();
+  groups.forEach(group => {
+    const record = group[0].record;
+    const aisle = (record && AISLES_BY_CATEGORY[record.category]) || OTHER_AISLE;
+    if (!aisles.has(aisle)) aisles.set(aisle, []);
+    aisles.get(aisle)!.push({ name: group[0].name, aisle, amounts: mergeAmounts(group) });
+  });
+
+  return {
+    from,
+    to,
+    aisles: AISLE_ORDER
+      .filter(aisle => aisles.has(aisle))
+      .map(aisle => ({ aisle, items: aisles.get(aisle)!.sort((a, b) => a.name.localeCompare(b.name)) })),
+    recipes: recipes.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+export function formatGroceryAmount(amount: GroceryAmount): string {
+  return `${amount.quantity} ${amount.unit}`;
+}
+
+export function formatGroceryListText(list: GroceryList): string {
+  const lines = [`Grocery list, ${list.from} to ${list.to}`];
+  if (list.recipes.length > 0) {
+    lines.push("", `Recipes: ${list.recipes.map(recipe => `${recipe.name} x${recipe.batches}`).join(", ")}`);
+  }
+  for (const { aisle, items } of list.aisles) {
+    lines.push("", aisle.toUpperCase());
+    for (const item of items) {
+      lines.push(`[ ] ${item.name}: ${item.amounts.map(formatGroceryAmount).join(" + ")}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per amount, so a food planned in units that don't convert gets a row for each
+export function formatGroceryListCsv(list: GroceryList): string {
+  const rows = [["Aisle", "Item", "Quantity", "Unit"]];
+  for (const { aisle, items } of list.aisles) {
+    for (const item of items) {
+      for (const amount of item.amounts) {
+        rows.push([aisle, item.name, String(amount.quantity), amount.unit]);
+      }
+    }
+  }
+  return rows.map(row => row.map(csvField).join(",")).join("\n");
+}
@@ -0,0 +1,382 @@
+import type { Child, GrowthMeasurement } from "./schema";
+import { toDriSex, type DriSex } from "./dietary-reference-intakes";
+import { getWeightInKg, getHeightInCm } from "./energy-requirements";
+
+// Growth percentiles from the LMS method. Under 2 years the WHO Child Growth
+// Standards are used, from 2 to 20 years the CDC 2000 growth charts, as the
+// CDC recommends for US children.
+//
+// WHO parameters are monthly. CDC parameters are condensed to yearly points
+// and rounded; between points they are interpolated linearly, which is close
+// enough for following a child's trend but not for clinical screening.
+
+export type GrowthIndicator = "weight-for-age" | "height-for-age" | "bmi-for-age";
+export type GrowthStandard = "WHO" | "CDC";
+
+export const GROWTH_INDICATORS: { value: GrowthIndicator; label: string; unit: string }[] = [
+  { value: "weight-for-age", label: "Weight-for-age", unit: "kg" },
+  { value: "height-for-age", label: "Height-for-age", unit: "cm" },
+  { value: "bmi-for-age", label: "BMI-for-age", unit: "kg/m²" },
+];
+
+// [age in months, L (skew), M (median), S (coefficient of variation)]
+type LmsRow = [number, number, number, number];
+
+export interface Lms {
+  l: number;
+  m: number;
+  s: number;
+}
+
+const WHO_MAX_MONTHS = 24;
+const CDC_MAX_MONTHS = 240;
+
+const WHO_TABLES: Record<GrowthIndicator, Record<DriSex, LmsRow[]>> = {
+  "weight-for-age": {
+    male: [
+      [0, 0.3487, 3.3464, 0.14602], [1, 0.2297, 4.4709, 0.13395], [2, 0.1970, 5.5675, 0.12385],
+      [3, 0.1738, 6.3762, 0.11727], [4, 0.1553, 7.0023, 0.11316], [5, 0.1395, 7.5105, 0.11080],
+      [6, 0.1257, 7.9340, 0.10958], [7, 0.1134, 8.2970, 0.10902], [8, 0.1021, 8.6151, 0.10882],
+      [9, 0.0917, 8.9014, 0.10881], [10, 0.0820, 9.1649, 0.10891], [11, 0.0730, 9.4122, 0.10906],
+      [12, 0.0644, 9.6479, 0.10925], [13, 0.0563, 9.8749, 0.10949], [14, 0.0487, 10.0953, 0.10976],
+      [15, 0.0413, 10.3108, 0.11007], [16, 0.0343, 10.5228, 0.11041], [17, 0.0275, 10.7319, 0.11079],
+      [18, 0.0211, 10.9385, 0.11119], [19, 0.0148, 11.1430, 0.11164], [20, 0.0087, 11.3462, 0.11211],
+      [21, 0.0029, 11.5486, 0.11261], [22, -0.0028, 11.7504, 0.11314], [23, -0.0083, 11.9514, 0.11369],
+      [24, -0.0137, 12.1515, 0.11426],
+    ],
+    female: [
+      [0, 0.3809, 3.2322, 0.14171], [1, 0.1714, 4.1873, 0.13724], [2, 0.0962, 5.1282, 0.13000],
+      [3, 0.0402, 5.8458, 0.12619], [4, -0.0050, 6.4237, 0.12402], [5, -0.0430, 6.8985, 0.12274],
+      [6, -0.0756, 7.2970, 0.12204], [7, -0.1039, 7.6422, 0.12178], [8, -0.1288, 7.9487, 0.12181],
+      [9, -0.1507, 8.2254, 0.12199], [10, -0.1700, 8.4800, 0.12223], [11, -0.1872, 8.7192, 0.12247],
+      [12, -0.2024, 8.9481, 0.12268], [13, -0.2158, 9.1699, 0.12283], [14, -0.2278, 9.3870, 0.12294],
+      [15, -0.2384, 9.6008, 0.12299], [16, -0.2478, 9.8124, 0.12303], [17, -0.2562, 10.0226, 0.12306],
+      [18, -0.2637, 10.2315, 0.12309], [19, -0.2703, 10.4393, 0.12315], [20, -0.2762, 10.6464, 0.12323],
+      [21, -0.2815, 10.8534, 0.12335], [22, -0.2862, 11.0608, 0.12350], [23, -0.2903, 11.2688, 0.12369],
+      [24, -0.2941, 11.4775, 0.12390],
+    ],
+  },
+  // Recumbent length
+  "height-for-age": {
+    male: [
+      [0, 1, 49.8842, 0.03795], [1, 1, 54.7244, 0.03557], [2, 1, 58.4249, 0.03424],
+      [3, 1, 61.4292, 0.03328], [4, 1, 63.8860, 0.03257], [5, 1, 65.9026, 0.03204],
+      [6, 1, 67.6236, 0.03165], [7, 1, 69.1645, 0.03139], [8, 1, 70.5994, 0.03124],
+      [9, 1, 71.9687, 0.03117], [10, 1, 73.2812, 0.03118], [11, 1, 74.5388, 0.03125],
+      [12, 1, 75.7488, 0.03137], [13, 1, 76.9186, 0.03154], [14, 1, 78.0497, 0.03174],
+      [15, 1, 79.1458, 0.03197], [16, 1, 80.2113, 0.03222], [17, 1, 81.2487, 0.03250],
+      [18, 1, 82.2587, 0.03279], [19, 1, 83.2418, 0.03310], [20, 1, 84.1996, 0.03342],
+      [21, 1, 85.1348, 0.03376], [22, 1, 86.0477, 0.03410], [23, 1, 86.9410, 0.03445],
+      [24, 1, 87.8161, 0.03479],
+    ],
+    female: [
+      [0, 1, 49.1477, 0.03790], [1, 1, 53.6872, 0.03640], [2, 1, 57.0673, 0.03568],
+      [3, 1, 59.8029, 0.03520], [4, 1, 62.0899, 0.03486], [5, 1, 64.0301, 0.03463],
+      [6, 1, 65.7311, 0.03448], [7, 1, 67.2873, 0.03441], [8, 1, 68.7498, 0.03440],
+      [9, 1, 70.1435, 0.03444], [10, 1, 71.4818, 0.03452], [11, 1, 72.7710, 0.03464],
+      [12, 1, 74.0150, 0.03479], [13, 1, 75.2176, 0.03496], [14, 1, 76.3817, 0.03514],
+      [15, 1, 77.5099, 0.03534], [16, 1, 78.6055, 0.03555], [17, 1, 79.6710, 0.03576],
+      [18, 1, 80.7079, 0.03598], [19, 1, 81.7182, 0.03620], [20, 1, 82.7036, 0.03643],
+      [21, 1, 83.6654, 0.03666], [22, 1, 84.6040, 0.03688], [23, 1, 85.5202, 0.03711],
+      [24, 1, 86.4153, 0.03734],
+    ],
+  },
+  "bmi-for-age": {
+    male: [
+      [0, -0.3053, 13.4069, 0.07560], [1, 0.2708, 14.9441, 0.07790], [2, 0.1118, 16.3195, 0.07640],
+      [3, 0.0068, 16.8987, 0.07540], [4, -0.0727, 17.1579, 0.07470], [5, -0.1370, 17.2919, 0.07420],
+      [6, -0.1913, 17.3422, 0.07380], [7, -0.2385, 17.3288, 0.07350], [8, -0.2802, 17.2647, 0.07330],
+      [9, -0.3176, 17.1662, 0.07320], [10, -0.3516, 17.0488, 0.07310], [11, -0.3828, 16.9239, 0.07310],
+      [12, -0.4115, 16.7981, 0.07310], [13, -0.4382, 16.6743, 0.07320], [14, -0.4630, 16.5548, 0.07330],
+      [15, -0.4863, 16.4409, 0.07340], [16, -0.5082, 16.3335, 0.07350], [17, -0.5289, 16.2329, 0.07360],
+      [18, -0.5484, 16.1392, 0.07370], [19, -0.5669, 16.0528, 0.07380], [20, -0.5846, 15.9743, 0.07390],
+      [21, -0.6014, 15.9039, 0.07400], [22, -0.6174, 15.8412, 0.07410], [23, -0.6328, 15.7852, 0.07420],
+      [24, -0.6473, 15.7356, 0.07430],
+    ],
+    female: [
+      [0, -0.0631, 13.3363, 0.09272], [1, 0.3448, 14.5679, 0.09556], [2, 0.1749, 15.7679, 0.09371],
+      [3, 0.0643, 16.3574, 0.09254], [4, -0.0191, 16.6703, 0.09166], [5, -0.0864, 16.8386, 0.09096],
+      [6, -0.1429, 16.9083, 0.09036], [7, -0.1916, 16.9020, 0.08984], [8, -0.2344, 16.8404, 0.08939],
+      [9, -0.2725, 16.7406, 0.08898], [10, -0.3068, 16.6184, 0.08861], [11, -0.3381, 16.4875, 0.08828],
+      [12, -0.3667, 16.3568, 0.08797], [13, -0.3932, 16.2311, 0.08768], [14, -0.4177, 16.1128, 0.08741],
+      [15, -0.4407, 16.0028, 0.08716], [16, -0.4623, 15.9017, 0.08693], [17, -0.4825, 15.8096, 0.08671],
+      [18, -0.5017, 15.7263, 0.08650], [19, -0.5199, 15.6517, 0.08630], [20, -0.5372, 15.5855, 0.08612],
+      [21, -0.5537, 15.5278, 0.08594], [22, -0.5695, 15.4787, 0.08577], [23, -0.5846, 15.4380, 0.08561],
+      [24, -0.5989, 15.4052, 0.08546],
+    ],
+  },
+};
+
+const CDC_TABLES: Record<GrowthIndicator, Record<DriSex, LmsRow[]>> = {
+  "weight-for-age": {
+    male: [
+      [24, -0.216, 12.74, 0.1082], [36, -0.404, 14.34, 0.1110], [48, -0.70, 16.30, 0.1170],
+      [60, -0.95, 18.40, 0.1250], [72, -1.15, 20.70, 0.1350], [84, -1.25, 22.90, 0.1450],
+      [96, -1.25, 25.60, 0.1550], [108, -1.20, 28.60, 0.1630], [120, -1.10, 31.90, 0.1700],
+      [132, -0.95, 35.70, 0.1740], [144, -0.80, 40.00, 0.1750], [156, -0.62, 45.00, 0.1720],
+      [168, -0.45, 50.80, 0.1650], [180, -0.30, 56.00, 0.1570], [192, -0.20, 60.80, 0.1500],
+      [204, -0.12, 64.60, 0.1460], [216, -0.08, 67.20, 0.1450], [228, -0.06, 69.20, 0.1460],
+      [240, -0.05, 70.60, 0.1480],
+    ],
+    female: [
+      [24, -0.739, 12.13, 0.1098], [36, -0.80, 13.90, 0.1180], [48, -0.90, 15.90, 0.1280],
+      [60, -1.00, 17.90, 0.1370], [72, -1.08, 20.20, 0.1470], [84, -1.12, 22.40, 0.1570],
+      [96, -1.10, 25.10, 0.1670], [108, -1.05, 28.20, 0.1750], [120, -0.98, 31.90, 0.1800],
+      [132, -0.90, 36.00, 0.1810], [144, -0.80, 40.50, 0.1780], [156, -0.70, 44.60, 0.1720],
+      [168, -0.62, 48.00, 0.1660], [180, -0.56, 50.60, 0.1620], [192, -0.52, 52.30, 0.1600],
+      [204, -0.50, 53.60, 0.1600], [216, -0.50, 54.60, 0.1610], [228, -0.50, 55.50, 0.1630],
+      [240, -0.50, 56.40, 0.1650],
+    ],
+  },
+  // Standing height
+  "height-for-age": {
+    male: [
+      [24, 0.94, 86.45, 0.0403], [36, 1, 95.20, 0.0395], [48, 1, 102.50, 0.0400],
+      [60, 1, 109.20, 0.0410], [72, 1, 115.70, 0.0420], [84, 1, 121.70, 0.0425],
+      [96, 1, 127.30, 0.0430], [108, 1, 132.60, 0.0435], [120, 1, 137.80, 0.0440],
+      [132, 1, 143.10, 0.0450], [144, 1, 149.10, 0.0465], [156, 1, 156.00, 0.0470],
+      [168, 1, 163.20, 0.0455], [180, 1, 169.00, 0.0425], [192, 1, 172.90, 0.0405],
+      [204, 1, 175.20, 0.0395], [216, 1, 176.10, 0.0390], [228, 1, 176.50, 0.0390],
+      [240, 1, 176.80, 0.0390],
+    ],
+    female: [
+      [24, 1, 84.98, 0.0405], [36, 1, 94.10, 0.0400], [48, 1, 101.60, 0.0405],
+      [60, 1, 108.40, 0.0415], [72, 1, 114.60, 0.0425], [84, 1, 120.60, 0.0430],
+      [96, 1, 126.40, 0.0440], [108, 1, 132.20, 0.0450], [120, 1, 138.30, 0.0460],
+      [132, 1, 144.80, 0.0465], [144, 1, 151.20, 0.0455], [156, 1, 156.50, 0.0430],
+      [168, 1, 159.80, 0.0410], [180, 1, 161.70, 0.0400], [192, 1, 162.50, 0.0395],
+      [204, 1, 163.00, 0.0395], [216, 1, 163.30, 0.0395], [228, 1, 163.50, 0.0395],
+      [240, 1, 163.70, 0.0395],
+    ],
+  },
+  "bmi-for-age": {
+    male: [
+      [24, -2.01, 16.58, 0.0806], [36, -1.64, 16.00, 0.0750], [48, -1.55, 15.65, 0.0740],
+      [60, -1.70, 15.40, 0.0760], [72, -2.00, 15.35, 0.0800], [84, -2.35, 15.50, 0.0870],
+      [96, -2.65, 15.80, 0.0960], [108, -2.85, 16.20, 0.1050], [120, -2.95, 16.65, 0.1120],
+      [132, -2.95, 17.20, 0.1180], [144, -2.85, 17.80, 0.1220], [156, -2.70, 18.45, 0.1240],
+      [168, -2.50, 19.10, 0.1250], [180, -2.30, 19.75, 0.1250], [192, -2.10, 20.45, 0.1240],
+      [204, -1.90, 21.10, 0.1230], [216, -1.70, 21.70, 0.1230], [228, -1.55, 22.25, 0.1230],
+      [240, -1.40, 22.70, 0.1240],
+    ],
+    female: [
+      [24, -0.99, 16.42, 0.0852], [36, -1.30, 15.85, 0.0820], [48, -1.60, 15.45, 0.0850],
+      [60, -1.90, 15.25, 0.0900], [72, -2.15, 15.25, 0.0970], [84, -2.30, 15.45, 0.1050],
+      [96, -2.35, 15.80, 0.1130], [108, -2.35, 16.30, 0.1210], [120, -2.30, 16.85, 0.1280],
+      [132, -2.20, 17.45, 0.1330], [144, -2.10, 18.05, 0.1370], [156, -2.00, 18.70, 0.1390],
+      [168, -1.90, 19.30, 0.1400], [180, -1.80, 19.85, 0.1400], [192, -1.70, 20.35, 0.1400],
+      [204, -1.60, 20.75, 0.1410], [216, -1.50, 21.10, 0.1430], [228, -1.40, 21.40, 0.1450],
+      [240, -1.30, 21.70, 0.1470],
+    ],
+  },
+};
+
+const DAYS_PER_MONTH = 30.4375;
+
+// Age in fractional months, so measurements a few weeks apart plot apart
+export function getExactAgeInMonths(dateOfBirth: string, onDate: string): number {
+  const days = (new Date(onDate).getTime() - new Date(dateOfBirth).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, days / DAYS_PER_MONTH);
+}
+
+export function getGrowthStandard(ageInMonths: number): GrowthStandard {
+  return ageInMonths < WHO_MAX_MONTHS ? "WHO" : "CDC";
+}
+
+function interpolateLms(rows: LmsRow[], ageInMonths: number): Lms {
+  const upper = rows.findIndex(row => row[0] >= ageInMonths);
+  if (upper <= 0) {
+    const [, l, m, s] = upper === 0 ? rows[0] : rows[rows.length - 1];
+    return { l, m, s };
+  }
+
+  const [age0, l0, m0, s0] = rows[upper - 1];
+  const [age1, l1, m1, s1] = rows[upper];
+  const t = (ageInMonths - age0) / (age1 - age0);
+  return { l: l0 + (l1 - l0) * t, m: m0 + (m1 - m0) * t, s: s0 + (s1 - s0) * t };
+}
+
+// LMS parameters for an age, or undefined beyond 20 years
+export function getLms(indicator: GrowthIndicator, sex: DriSex, ageInMonths: number): Lms | undefined {
+  if (ageInMonths < 0 || ageInMonths > CDC_MAX_MONTHS) return undefined;
+  const tables = getGrowthStandard(ageInMonths) === "WHO" ? WHO_TABLES : CDC_TABLES;
+  return interpolateLms(tables[indicator][sex], ageInMonths);
+}
+
+export function calculateZScore(value: number, { l, m, s }: Lms): number {
+  return Math.abs(l) < 1e-6
+    ? Math.log(value / m) / s
+    : (Math.pow(value / m, l) - 1) / (l * s);
+}
+
+// The measurement that sits at a given z-score, for drawing percentile curves
+export function valueAtZScore(z: number, { l, m, s }: Lms): number {
+  return Math.abs(l) < 1e-6
+    ? m * Math.exp(s * z)
+    : m * Math.pow(1 + l * s * z, 1 / l);
+}
+
+// Standard normal CDF (Abramowitz and Stegun 26.2.17)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+export function zScoreToPercentile(z: number): number {
+  return normalCdf(z) * 100;
+}
+
+// Inverse of the normal CDF (Acklam's rational approximation)
+export function percentileToZScore(percentile: number): number {
+  const p = Math.min(Math.max(percentile / 100, 1e-6), 1 - 1e-6);
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export interface GrowthResult {
+  value: number;
+  zScore: number;
+  percentile: number;
+}
+
+export interface GrowthAssessment {
+  measurement: GrowthMeasurement;
+  ageInMonths: number;
+  standard: GrowthStandard;
+  weightKg: number | null;
+  heightCm: number | null;
+  bmi: number | null;
+  results: Partial<Record<GrowthIndicator, GrowthResult>>;
+}
+
+export function calculateBmi(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+  return weightKg / (heightM * heightM);
+}
+
+// Percentiles for one measurement. Needs the date of birth and a sex of
+// male or female, since the reference tables are sex-specific.
+export function assessMeasurement(
+  child: Pick<Child, "dateOfBirth" | "gender">,
+  measurement: GrowthMeasurement,
+): GrowthAssessment | null {
+  const sex = toDriSex(child.gender);
+  if (!child.dateOfBirth || !sex) return null;
+
+  const ageInMonths = getExactAgeInMonths(child.dateOfBirth, measurement.date);
+  const weightKg = getWeightInKg(measurement);
+  const heightCm = getHeightInCm(measurement);
+  const bmi = weightKg !== null && heightCm !== null ? calculateBmi(weightKg, heightCm) : null;
+
+  const values: Record<GrowthIndicator, number | null> = {
+    "weight-for-age": weightKg,
+    "height-for-age": heightCm,
+    "bmi-for-age": bmi,
+  };
+
+  const results: Partial<Record<GrowthIndicator, GrowthResult>> = {};
+  for (const { value: indicator } of GROWTH_INDICATORS) {
+    const value = values[indicator];
+    const lms = getLms(indicator, sex, ageInMonths);
+    if (value === null || value <= 0 || !lms) continue;
+
+    const zScore = calculateZScore(value, lms);
+    results[indicator] = { value, zScore, percentile: zScoreToPercentile(zScore) };
+  }
+
+  return { measurement, ageInMonths, standard: getGrowthStandard(ageInMonths), weightKg, heightCm, bmi, results };
+}
+
+export function getMeasurementHistory(child: Pick<Child, "measurements">): GrowthMeasurement[] {
+  return [...(child.measurements ?? [])].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Add or replace the measurement for a date, keeping the list in date order.
+// The child's current weight and height follow the most recent measurement.
+export function saveMeasurement<T extends Child>(child: T, measurement: GrowthMeasurement): T {
+  const measurements = getMeasurementHistory({
+    measurements: [...(child.measurements ?? []).filter(m => m.date !== measurement.date), measurement],
+  });
+  const latest = measurements[measurements.length - 1];
+
+  return latest.id !== measurement.id ? { ...child, measurements } : {
+    ...child,
+    measurements,
+    weight: latest.weight,
+    height: latest.height,
+    weightUnit: latest.weightUnit,
+    heightUnit: latest.heightUnit,
+  };
+}
+
+export function deleteMeasurement<T extends Child>(child: T, measurementId: string): T {
+  return { ...child, measurements: (child.measurements ?? []).filter(m => m.id !== measurementId) };
+}
+
+// Record the child's current weight and height for a date when they differ
+// from the latest measurement, so editing them builds up a history
+export function recordCurrentMeasurement<T extends Child>(child: T, date: string): T {
+  if (child.weight === null && child.height === null) return child;
+
+  const history = getMeasurementHistory(child);
+  const latest = history[history.length - 1];
+  if (latest &&
+      getWeightInKg(latest) === getWeightInKg(child) &&
+      getHeightInCm(latest) === getHeightInCm(child)) {
+    return child;
+  }
+
+  return saveMeasurement(child, {
+    id: history.find(m => m.date === date)?.id ?? crypto.randomUUID(),
+    date,
+    weight: child.weight,
+    height: child.height,
+    weightUnit: child.weightUnit,
+    heightUnit: child.heightUnit,
+  });
+}
+
+export interface PercentileCurve {
+  percentile: number;
+  points: { ageInMonths: number; value: number }[];
+}
+
+export const CHART_PERCENTILES = [5, 25, 50, 75, 95];
+
+// Reference curves across an age range, sampled monthly
+export function getPercentileCurves(
+  indicator: GrowthIndicator,
+  sex: DriSex,
+  fromMonths: number,
+  toMonths: number,
+  percentiles: number[] = CHART_PERCENTILES,
+): PercentileCurve[] {
+  const start = Math.max(0, Math.floor(fromMonths));
+  const end = Math.min(CDC_MAX_MONTHS, Math.ceil(toMonths));
+
+  return percentiles.map(percentile => {
+    const z = percentileToZScore(percentile);
+    const points: PercentileCurve["points"] = [];
+    for (let age = start; age <= end; age++) {
+      const lms = getLms(indicator, sex, age);
+      if (lms) points.push({ ageInMonths: age, value: valueAtZScore(z, lms) });
+    }
+    return { percentile, points };
+  });
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { extractJsonText } from "./nutrition-analysis";
+
+// Foods a multimodal model picks out of a meal photo, for the parent to check
+// before anything is logged.
+
+export interface ProposedFood {
+  name: string;
+  quantity: number;
+  unit: string;
+  type: "food" | "drink";
+  confidence?: "low" | "medium" | "high";
+}
+
+// Units the entry form offers, so proposals can be logged without editing
+export interface PhotoUnits {
+  food: string[];
+  drink: string[];
+}
+
+const proposedFoodSchema = z.object({
+  name: z.string().trim().min(1),
+  quantity: z.preprocess(
+    value => (typeof value === "string" ? parseFloat(value) : value),
+    z.number().positive()
+  ),
+  unit: z.string().default("serving"),
+  type: z.enum(["food", "drink"]).catch("food"),
+  confidence: z.enum(["low", "medium", "high"]).optional().catch(undefined),
+});
+
+const mealPhotoResponseSchema = z.object({
+  items: z.array(z.unknown()),
+});
+
+export function createMealPhotoPrompt(units: PhotoUnits): string {
+  return `You are helping a parent log what their child ate. Look at the photo of the meal and list every food and drink you can see.
+
+For each one estimate the portion on the plate. Use simple everyday names such as "scrambled eggs" or "apple slices", not brand names unless a package is clearly visible.
+
+Units for foods: ${units.food.join(", ")}
+Units for drinks: ${units.drink.join(", ")}
+
+Reply with only a JSON object in this format:
+{
+  "items": [
+    { "name": "string", "quantity": number, "unit": "one of the units above", "type": "food" or "drink", "confidence": "low" | "medium" | "high" }
+  ]
+}
+
+If the photo shows no food or drink, reply with {"items": []}.`;
+}
+
+// Model units can come back as "Cups" or "pieces"; match them to the offered units
+function matchUnit(unit: string, allowed: string[]): string {
+  const normalized = unit.trim().toLowerCase().replace(/\(s\)$/, "");
+  const candidates = [normalized, normalized.replace(/s$/, ""), normalized.replace(/es$/, "")];
+  return allowed.find(option => candidates.includes(option))
+    ?? (allowed.includes("serving") ? "serving" : allowed[0]);
+}
+
+// Parse the model's answer into proposals, dropping entries it couldn't fill in
+export function parseMealPhotoResponse(textResponse: string, units: PhotoUnits): ProposedFood[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonText(textResponse));
+  } catch {
+    throw new Error("The AI response about the photo was not valid JSON. Please try again.");
+  }
+
+  // A bare list is accepted too
+  const result = mealPhotoResponseSchema.safeParse(Array.isArray(parsed) ? { items: parsed } : parsed);
+  if (!result.success) {
+    throw new Error("The AI response didn't list the foods in the photo. Please try again.");
+  }
+
+  return result.data.items.flatMap(entry => {
+    const food = proposedFoodSchema.safeParse(entry);
+    if (!food.success) return [];
+    return [{
+      ...food.data,
+      unit: matchUnit(food.data.unit, food.data.type === "drink" ? units.drink : units.food),
+    }];
+  });
+}
@@ -0,0 +1,101 @@
+import type { FoodItem, FoodPlan, PlannedItem } from "./schema";
+import { NUTRIENT_INFO, type NutrientKey } from "./nutrient-database";
+import { calculateNutrientTotals, getChildItems, isItemForChild } from "./nutrient-calculator";
+
+// Scheduling plans and single foods onto future dates and meals, and checking
+// a day's plan against what was actually logged.
+
+// Nutrients shown when comparing a plan with the log
+const COMPARED_NUTRIENTS: NutrientKey[] = [
+  "calories", "protein", "carbohydrates", "fat", "fiber", "calcium", "iron", "vitaminC", "vitaminD",
+];
+
+export interface PlanComparisonRow {
+  key: NutrientKey;
+  name: string;
+  unit: string;
+  planned: number;
+  logged: number;
+}
+
+export interface PlanComparison {
+  nutrients: PlanComparisonRow[];
+  // Planned foods with nothing of the same name logged, and logged foods that weren't planned
+  missed: string[];
+  extra: string[];
+}
+
+// A child id plans for that child only; null plans for every child
+function forChild(childId: string | null): Pick<FoodItem, "childId" | "childIds"> {
+  return childId ? { childId, childIds: [childId] } : { childId: undefined, childIds: undefined };
+}
+
+// Schedule one food for a date and meal
+export function scheduleItem(
+  item: FoodItem,
+  date: string,
+  mealType: string,
+  childId: string | null,
+  planId?: string
+): PlannedItem {
+  return {
+    ...item,
+    ...forChild(childId),
+    id: crypto.randomUUID(),
+    date,
+    mealType,
+    planId,
+    appliedAt: undefined,
+    eaten: undefined,
+    createdAt: Date.now(),
+  };
+}
+
+// Schedule a whole plan for a date. With a meal, every item goes to that meal;
+// without one, items keep the meals they were saved with.
+export function schedulePlan(plan: FoodPlan, date: string, childId: string | null, mealType?: string): PlannedItem[] {
+  return plan.items
+    .filter(item => item.type !== "supplement")
+    .map(item => scheduleItem(item, date, mealType ?? item.mealType, childId, plan.id));
+}
+
+// With no child selected every planned item is shown
+export function isPlannedForChild(item: FoodItem, childId: string | null): boolean {
+  return !childId || isItemForChild(item, childId);
+}
+
+// Copies of planned items for the day's log
+export function toLoggedItems(items: PlannedItem[]): FoodItem[] {
+  return items.map(({ planId, appliedAt, ...item }) => ({
+    ...item,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+  }));
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Compare a day's plan with its log, for one child or for everything planned and logged
+export function comparePlannedToLogged(planned: FoodItem[], logged: FoodItem[], childId: string | null): PlanComparison {
+  const plannedItems = childId ? getChildItems(planned, childId) : planned;
+  const loggedItems = (childId ? getChildItems(logged, childId) : logged).filter(item => item.type !== "supplement");
+  const plannedTotals = calculateNutrientTotals(plannedItems).totals;
+  const loggedTotals = calculateNutrientTotals(loggedItems).totals;
+
+  const plannedNames = new Set(plannedItems.map(item => normalizeName(item.name)));
+  const loggedNames = new Set(loggedItems.map(item => normalizeName(item.name)));
+
+  return {
+    nutrients: COMPARED_NUTRIENTS.map(key => ({
+      key,
+      name: NUTRIENT_INFO[key].name,
+      unit: NUTRIENT_INFO[key].unit,
+      planned: plannedTotals[key],
+      logged: loggedTotals[key],
+    })),
+    missed: Array.from(new Set(plannedItems.filter(item => !loggedNames.has(normalizeName(item.name))).map(item => item.name))),
+    extra: Array.from(new Set(loggedItems.filter(item => !plannedNames.has(normalizeName(item.name))).map(item => item.name))),
+  };
+}
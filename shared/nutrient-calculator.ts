@@ -0,0 +1,310 @@
+import type { FoodItem, Child, NutritionReport, Nutrient, NutritionFacts } from "./schema";
+import {
+  NUTRIENT_KEYS,
+  NUTRIENT_INFO,
+  FOOD_DATABASE,
+  findFood,
+  type FoodRecord,
+  type NutrientKey,
+  type NutrientValues,
+} from "./nutrient-database";
+import { convertToGrams, calculateFluidTotal, type FluidTotal } from "./units";
+import { expandRecipeItems } from "./recipes";
+import {
+  getDietaryReferenceIntakes,
+  applyDietaryReferenceIntakes,
+  matchNutrientKey,
+  convertToReferenceUnit,
+} from "./dietary-reference-intakes";
+
+// Deterministic nutrient totals from the bundled food database. Used to build
+// reports without a model and to sanity-check the numbers a model returns.
+
+export interface ItemNutrients {
+  item: FoodItem;
+  food: FoodRecord;
+  grams: number;
+  nutrients: NutrientValues;
+}
+
+export interface NutrientTotals {
+  totals: NutrientValues;
+  items: ItemNutrients[];
+  // Logged foods that had no database match or no usable unit
+  unmatched: FoodItem[];
+}
+
+export function emptyNutrientValues(): NutrientValues {
+  return Object.fromEntries(NUTRIENT_KEYS.map(key => [key, 0])) as NutrientValues;
+}
+
+// A food record built from label nutrition facts. Nutrients the label leaves out count as zero.
+export function foodRecordFromNutritionFacts(name: string, facts: NutritionFacts): FoodRecord {
+  // Liquids are taken to weigh about as much as water
+  const servingGrams = facts.servingSize;
+  const per100g = emptyNutrientValues();
+  for (const key of NUTRIENT_KEYS) {
+    const value = facts.nutrients[key];
+    if (typeof value === "number") per100g[key] = (value * 100) / servingGrams;
+  }
+  return {
+    id: `label:${name.toLowerCase()}`,
+    name,
+    category: "packaged",
+    aliases: [],
+    per100g,
+    portions: { serving: servingGrams, piece: servingGrams },
+    density: facts.servingUnit === "ml" ? 1 : undefined,
+  };
+}
+
+// Label nutrition facts on the item win over the bundled database
+export function getItemFoodRecord(item: FoodItem): FoodRecord | undefined {
+  if (item.nutritionFacts) return foodRecordFromNutritionFacts(item.name, item.nutritionFacts);
+  return findFood(item.name);
+}
+
+export function calculateItemNutrients(item: FoodItem): ItemNutrients | null {
+  // Supplements are dosed rather than eaten by weight
+  if (item.type === "supplement") return null;
+
+  const food = getItemFoodRecord(item);
+  if (!food) return null;
+
+  const grams = convertToGrams(item.quantity, item.unit, food, item.type);
+  if (grams === null) return null;
+
+  const nutrients = emptyNutrientValues();
+  for (const key of NUTRIENT_KEYS) {
+    nutrients[key] = (food.per100g[key] * grams) / 100;
+  }
+  return { item, food, grams, nutrients };
+}
+
+// Recipes count as their ingredients
+export function calculateNutrientTotals(items: FoodItem[]): NutrientTotals {
+  const totals = emptyNutrientValues();
+  const calculated: ItemNutrients[] = [];
+  const unmatched: FoodItem[] = [];
+
+  for (const item of expandRecipeItems(items)) {
+    const result = calculateItemNutrients(item);
+    if (!result) {
+      if (item.type !== "supplement") unmatched.push(item);
+      continue;
+    }
+
+    calculated.push(result);
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] += result.nutrients[key];
+    }
+  }
+
+  return { totals, items: calculated, unmatched };
+}
+
+// Items with no child assigned apply to every child
+export function isItemForChild(item: FoodItem, childId: string): boolean {
+  return (item.childIds && item.childIds.includes(childId)) ||
+    (!item.childIds && item.childId === childId) ||
+    (!item.childIds && !item.childId);
+}
+
+// How much of a shared item one child had, in the item's unit
+export function getChildQuantity(item: FoodItem, childId: string): number {
+  const portion = item.childPortions?.[childId];
+  if (!portion) return item.quantity;
+  return "amount" in portion ? portion.amount : item.quantity * portion.fraction;
+}
+
+// How much of the item one child actually ate: their portion less any leftovers
+export function getEatenQuantity(item: FoodItem, childId: string): number {
+  const served = getChildQuantity(item, childId);
+  const eaten = item.eaten?.[childId];
+  if (!eaten) return served;
+  return "percent" in eaten ? served * eaten.percent / 100 : Math.max(0, served - eaten.leftover);
+}
+
+// The item as one child had it: what they ate of their own portion. Portions
+// and leftovers are dropped so the result can be passed through again.
+export function getItemForChild(item: FoodItem, childId: string): FoodItem {
+  if (!item.childPortions && !item.eaten) return item;
+  return { ...item, quantity: getEatenQuantity(item, childId), childPortions: undefined, eaten: undefined };
+}
+
+// A child's items, with their own portions
+export function getChildItems(items: FoodItem[], childId: string): FoodItem[] {
+  return items
+    .filter(item => isItemForChild(item, childId))
+    .map(item => getItemForChild(item, childId));
+}
+
+// Totals for each date in the items, keyed by YYYY-MM-DD
+export function calculateDailyTotals(items: FoodItem[]): Record<string, NutrientTotals> {
+  const itemsByDate: Record<string, FoodItem[]> = {};
+  for (const item of items) {
+    (itemsByDate[item.date] ||= []).push(item);
+  }
+
+  return Object.fromEntries(
+    Object.entries(itemsByDate).map(([date, dateItems]) => [date, calculateNutrientTotals(dateItems)])
+  );
+}
+
+export function calculateChildTotals(items: FoodItem[], childId: string, date?: string): NutrientTotals {
+  return calculateNutrientTotals(
+    getChildItems(items, childId).filter(item => !date || item.date === date)
+  );
+}
+
+// Total drink volume, using database densities and container sizes where the drink is known
+export function calculateFluidIntake(items: FoodItem[]): FluidTotal {
+  return calculateFluidTotal(items, getItemFoodRecord);
+}
+
+const REPORT_GROUPS: Record<"macronutrients" | "vitamins" | "minerals", NutrientKey[]> = {
+  macronutrients: ["protein", "carbohydrates", "fat", "fiber"],
+  vitamins: ["vitaminA", "vitaminC", "vitaminD", "vitaminB12", "folate"],
+  minerals: ["calcium", "iron", "zinc", "magnesium", "potassium"],
+};
+
+function formatAmount(value: number): string {
+  return value >= 10 ? String(Math.round(value)) : String(Math.round(value * 10) / 10);
+}
+
+// Targets are filled in afterwards from the DRI tables
+function toReportNutrient(key: NutrientKey, totals: NutrientValues): Nutrient {
+  return {
+    name: NUTRIENT_INFO[key].name,
+    value: formatAmount(totals[key]),
+    unit: NUTRIENT_INFO[key].unit,
+    percentOfDaily: 0,
+    recommendedRange: "",
+  };
+}
+
+// Foods in the database richest in a nutrient per typical serving
+function topSourcesOf(key: NutrientKey, count: number): string[] {
+  return [...FOOD_DATABASE]
+    .filter(record => record.category !== "drinks" && record.category !== "sweets")
+    .sort((a, b) => {
+      const servingA = a.portions.serving ?? 100;
+      const servingB = b.portions.serving ?? 100;
+      return (b.per100g[key] * servingB) - (a.per100g[key] * servingA);
+    })
+    .slice(0, count)
+    .map(record => record.name);
+}
+
+// Build a report from the food database alone, without asking a model
+export function calculateLocalNutritionReport(items: FoodItem[], child: Child | undefined, date: string): NutritionReport {
+  const childItems = child ? getChildItems(items, child.id) : items;
+  const { totals, unmatched } = calculateNutrientTotals(childItems);
+  const { references } = getDietaryReferenceIntakes(child, date);
+
+  const report = applyDietaryReferenceIntakes({
+    id: crypto.randomUUID(),
+    childId: child?.id ?? null,
+    childName: child?.name,
+    calories: Math.round(totals.calories),
+    caloriesTarget: 0,
+    nutritionScore: 0,
+    analysisDate: Date.now(),
+    reportDate: date,
+    macronutrients: REPORT_GROUPS.macronutrients.map(key => toReportNutrient(key, totals)),
+    vitamins: REPORT_GROUPS.vitamins.map(key => toReportNutrient(key, totals)),
+    minerals: REPORT_GROUPS.minerals.map(key => toReportNutrient(key, totals)),
+    recommendations: [],
+    foodSuggestions: [],
+    supplementRecommendations: [],
+    supplementCautions: [],
+  }, child, date);
+
+  const allNutrients = [...report.macronutrients, ...report.vitamins, ...report.minerals];
+  const nutritionScore = Math.round(
+    allNutrients.reduce((sum, nutrient) => sum + nutrient.percentOfDaily, 0) / allNutrients.length
+  );
+
+  // Energy nutrients follow from calories, so only suggest foods for the rest, lowest first
+  const shareOfTarget = (key: NutrientKey) => totals[key] / references[key]!.target;
+  const lowKeys = ([...REPORT_GROUPS.macronutrients, ...REPORT_GROUPS.vitamins, ...REPORT_GROUPS.minerals] as NutrientKey[])
+    .filter(key => key !== "carbohydrates" && key !== "fat" && references[key] !== undefined)
+    .filter(key => shareOfTarget(key) < 0.5)
+    .sort((a, b) => shareOfTarget(a) - shareOfTarget(b));
+
+  const recommendations = lowKeys.slice(0, 4).map(key => {
+    const name = NUTRIENT_INFO[key].name;
+    return `${name} is below half of the daily target - add foods rich in ${key.startsWith("vitamin") ? name : name.toLowerCase()}.`;
+  });
+  if (unmatched.length > 0) {
+    recommendations.push(
+      `Not included in this calculation (no nutrition data): ${unmatched.map(item => item.name).join(", ")}.`
+    );
+  }
+
+  const foodSuggestions = Array.from(new Set(lowKeys.slice(0, 3).flatMap(key => topSourcesOf(key, 2))));
+
+  return { ...report, nutritionScore, recommendations, foodSuggestions };
+}
+
+// Foods and drinks with label nutrition facts, including recipe ingredients, whose
+// values are added to a model's report rather than estimated by the model
+export function getLabeledItems(items: FoodItem[]): FoodItem[] {
+  return expandRecipeItems(items).filter(item => item.nutritionFacts && item.type !== "supplement");
+}
+
+// Add the label values of labeled items to a report the model wrote without them
+export function applyLabelNutrition(report: NutritionReport, items: FoodItem[]): NutritionReport {
+  const labeled = getLabeledItems(items);
+  if (labeled.length === 0) return report;
+  const { totals } = calculateNutrientTotals(labeled);
+
+  const addLabelTotals = (nutrient: Nutrient): Nutrient => {
+    const key = matchNutrientKey(nutrient.name);
+    const amount = parseFloat(nutrient.value);
+    if (!key || isNaN(amount)) return nutrient;
+    const converted = convertToReferenceUnit(amount, nutrient.unit, key);
+    if (converted === null) return nutrient;
+    return { ...nutrient, value: formatAmount(converted + totals[key]), unit: NUTRIENT_INFO[key].unit };
+  };
+
+  return {
+    ...report,
+    calories: Math.round(report.calories + totals.calories),
+    macronutrients: report.macronutrients.map(addLabelTotals),
+    vitamins: report.vitamins.map(addLabelTotals),
+    minerals: report.minerals.map(addLabelTotals),
+  };
+}
+
+export interface ReportDiscrepancy {
+  name: string;
+  reported: number;
+  calculated: number;
+}
+
+// Flag report values that differ from the database calculation by more than
+// the tolerance. Only nutrients whose foods were all found are compared.
+export function crossCheckReport(report: NutritionReport, items: FoodItem[], tolerance: number = 0.35): ReportDiscrepancy[] {
+  const { totals, unmatched } = calculateNutrientTotals(items);
+  if (unmatched.length > 0) return [];
+
+  const reported: Partial<Record<NutrientKey, number>> = { calories: report.calories };
+  for (const nutrient of [...report.macronutrients, ...report.vitamins, ...report.minerals]) {
+    const key = NUTRIENT_KEYS.find(k => NUTRIENT_INFO[k].name.toLowerCase() === nutrient.name.toLowerCase());
+    const value = parseFloat(nutrient.value);
+    if (key && !isNaN(value) && nutrient.unit === NUTRIENT_INFO[key].unit) {
+      reported[key] = value;
+    }
+  }
+
+  const discrepancies: ReportDiscrepancy[] = [];
+  for (const [key, value] of Object.entries(reported) as [NutrientKey, number][]) {
+    const calculated = totals[key];
+    const scale = Math.max(calculated, value, 1);
+    if (Math.abs(value - calculated) / scale > tolerance) {
+      discrepancies.push({ name: NUTRIENT_INFO[key].name, reported: value, calculated: Math.round(calculated * 10) / 10 });
+    }
+  }
+  return discrepancies;
+}
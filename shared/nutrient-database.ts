@@ -0,0 +1,389 @@
+// Bundled food composition data for offline nutrient calculation.
+// Values are per 100 g edible portion, rounded from USDA FoodData Central
+// (SR Legacy) entries for the closest matching food.
+
+export const NUTRIENT_KEYS = [
+  "calories",     // kcal
+  "protein",      // g
+  "carbohydrates",// g
+  "fat",          // g
+  "fiber",        // g
+  "sugar",        // g
+  "calcium",      // mg
+  "iron",         // mg
+  "magnesium",    // mg
+  "potassium",    // mg
+  "sodium",       // mg
+  "zinc",         // mg
+  "vitaminA",     // mcg RAE
+  "vitaminC",     // mg
+  "vitaminD",     // mcg
+  "vitaminB12",   // mcg
+  "folate",       // mcg DFE
+] as const;
+
+export type NutrientKey = typeof NUTRIENT_KEYS[number];
+
+export type NutrientValues = Record<NutrientKey, number>;
+
+export interface NutrientInfo {
+  name: string;
+  unit: string;
+  group: "macronutrients" | "vitamins" | "minerals";
+}
+
+// Display names and units, in the order reports list them
+export const NUTRIENT_INFO: Record<NutrientKey, NutrientInfo> = {
+  calories: { name: "Calories", unit: "kcal", group: "macronutrients" },
+  protein: { name: "Protein", unit: "g", group: "macronutrients" },
+  carbohydrates: { name: "Carbohydrates", unit: "g", group: "macronutrients" },
+  fat: { name: "Fat", unit: "g", group: "macronutrients" },
+  fiber: { name: "Fiber", unit: "g", group: "macronutrients" },
+  sugar: { name: "Sugar", unit: "g", group: "macronutrients" },
+  calcium: { name: "Calcium", unit: "mg", group: "minerals" },
+  iron: { name: "Iron", unit: "mg", group: "minerals" },
+  magnesium: { name: "Magnesium", unit: "mg", group: "minerals" },
+  potassium: { name: "Potassium", unit: "mg", group: "minerals" },
+  sodium: { name: "Sodium", unit: "mg", group: "minerals" },
+  zinc: { name: "Zinc", unit: "mg", group: "minerals" },
+  vitaminA: { name: "Vitamin A", unit: "mcg", group: "vitamins" },
+  vitaminC: { name: "Vitamin C", unit: "mg", group: "vitamins" },
+  vitaminD: { name: "Vitamin D", unit: "mcg", group: "vitamins" },
+  vitaminB12: { name: "Vitamin B12", unit: "mcg", group: "vitamins" },
+  folate: { name: "Folate", unit: "mcg", group: "vitamins" },
+};
+
+export interface FoodRecord {
+  id: string;
+  name: string;
+  category: string;
+  aliases: string[];
+  per100g: NutrientValues;
+  // Gram weight of one of each household unit, e.g. { piece: 118, cup: 150 }
+  portions: Record<string, number>;
+  // g per ml, for liquids logged by volume
+  density?: number;
+}
+
+type NutrientRow = [
+  calories: number, protein: number, carbohydrates: number, fat: number, fiber: number, sugar: number,
+  calcium: number, iron: number, magnesium: number, potassium: number, sodium: number, zinc: number,
+  vitaminA: number, vitaminC: number, vitaminD: number, vitaminB12: number, folate: number,
+];
+
+function food(
+  id: string,
+  name: string,
+  category: string,
+  aliases: string[],
+  row: NutrientRow,
+  portions: Record<string, number>,
+  density?: number,
+): FoodRecord {
+  const per100g = Object.fromEntries(NUTRIENT_KEYS.map((key, index) => [key, row[index]])) as NutrientValues;
+  return { id, name, category, aliases, per100g, portions, density };
+}
+
+export const FOOD_DATABASE: FoodRecord[] = [
+  // Dairy
+  food("milk-whole", "Whole milk", "dairy", ["milk", "whole milk", "cow's milk"],
+    [61, 3.2, 4.8, 3.3, 0, 5.1, 113, 0.03, 10, 132, 43, 0.37, 46, 0, 1.3, 0.45, 5],
+    { cup: 244, glass: 244, serving: 244, bottle: 240 }, 1.03),
+  food("milk-2pct", "Reduced-fat milk (2%)", "dairy", ["2% milk", "low fat milk", "reduced fat milk"],
+    [50, 3.3, 4.8, 2, 0, 5.1, 120, 0.02, 11, 140, 47, 0.48, 55, 0.2, 1.2, 0.53, 5],
+    { cup: 244, glass: 244, serving: 244, bottle: 240 }, 1.03),
+  food("milk-chocolate", "Chocolate milk", "dairy", ["chocolate milk", "choc milk"],
+    [76, 3, 11.9, 1.9, 0.7, 9.5, 112, 0.24, 13, 169, 66, 0.41, 57, 0.9, 1.2, 0.33, 2],
+    { cup: 250, glass: 250, serving: 250, bottle: 240, box: 240 }, 1.06),
+  food("yogurt-whole", "Plain whole-milk yogurt", "dairy", ["yogurt", "yoghurt", "plain yogurt"],
+    [61, 3.5, 4.7, 3.3, 0, 4.7, 121, 0.05, 12, 155, 46, 0.59, 27, 0.5, 0.1, 0.37, 7],
+    { cup: 245, serving: 170, piece: 170 }),
+  food("yogurt-greek", "Greek yogurt, plain nonfat", "dairy", ["greek yogurt"],
+    [59, 10.2, 3.6, 0.4, 0, 3.2, 110, 0.07, 11, 141, 36, 0.52, 1, 0, 0, 0.75, 7],
+    { cup: 245, serving: 170, piece: 170 }),
+  food("cheese-cheddar", "Cheddar cheese", "dairy", ["cheese", "cheddar"],
+    [403, 24.9, 1.3, 33.1, 0, 0.5, 721, 0.68, 28, 98, 621, 3.11, 265, 0, 0.6, 0.83, 18],
+    { piece: 28, slice: 28, cup: 113, serving: 28 }),
+  food("cheese-mozzarella", "String cheese (part-skim mozzarella)", "dairy", ["string cheese", "mozzarella", "cheese stick"],
+    [254, 24.3, 2.8, 15.9, 0, 1.1, 782, 0.22, 23, 95, 619, 2.76, 127, 0, 0.3, 0.82, 9],
+    { piece: 28, cup: 113, serving: 28 }),
+  food("cottage-cheese", "Cottage cheese", "dairy", ["cottage cheese"],
+    [98, 11.1, 3.4, 4.3, 0, 2.7, 83, 0.07, 8, 104, 364, 0.4, 37, 0, 0.1, 0.43, 12],
+    { cup: 210, serving: 113 }),
+  food("butter", "Butter", "fats", ["butter"],
+    [717, 0.9, 0.1, 81.1, 0, 0.1, 24, 0.02, 2, 24, 643, 0.09, 684, 0, 1.5, 0.17, 3],
+    { tbsp: 14.2, tsp: 4.7, serving: 14.2 }),
+  food("ice-cream-vanilla", "Vanilla ice cream", "sweets", ["ice cream"],
+    [207, 3.5, 23.6, 11, 0.7, 21.2, 128, 0.09, 14, 199, 80, 0.69, 118, 0.6, 0.2, 0.39, 5],
+    { cup: 132, serving: 66, piece: 66 }),
+  food("formula-infant", "Infant formula, prepared", "infant", ["formula", "baby formula"],
+    [67, 1.4, 7.3, 3.6, 0, 7.3, 53, 1.2, 5, 72, 18, 0.67, 60, 8, 1, 0.2, 10],
+    { bottle: 180, cup: 244, serving: 180 }, 1.03),
+  food("breast-milk", "Breast milk", "infant", ["breast milk", "breastmilk", "human milk"],
+    [70, 1, 6.9, 4.4, 0, 6.9, 32, 0.03, 3, 51, 17, 0.17, 61, 5, 0.1, 0.05, 5],
+    { bottle: 120, cup: 246, serving: 120 }, 1.03),
+
+  // Protein foods
+  food("egg", "Egg, hard-boiled", "protein", ["egg", "eggs", "boiled egg", "scrambled eggs"],
+    [155, 12.6, 1.1, 10.6, 0, 1.1, 50, 1.19, 10, 126, 124, 1.05, 149, 0, 2.2, 1.11, 44],
+    { piece: 50, cup: 136, serving: 50 }),
+  food("chicken-breast", "Chicken breast, roasted", "protein", ["chicken", "chicken breast", "grilled chicken"],
+    [165, 31, 0, 3.6, 0, 0, 15, 1.04, 29, 256, 74, 1, 6, 0, 0.1, 0.34, 4],
+    { piece: 120, cup: 140, serving: 85 }),
+  food("chicken-nuggets", "Chicken nuggets", "protein", ["nuggets", "chicken nuggets", "chicken tenders"],
+    [296, 15.3, 14.8, 19.8, 0.9, 0.4, 15, 0.9, 23, 270, 560, 0.9, 5, 0, 0.2, 0.3, 25],
+    { piece: 16, serving: 96 }),
+  food("beef-ground", "Ground beef (85% lean), cooked", "protein", ["beef", "ground beef", "hamburger", "burger patty", "meatballs"],
+    [250, 25.9, 0, 15.4, 0, 0, 18, 2.6, 21, 318, 72, 6.3, 0, 0, 0.1, 2.6, 9],
+    { piece: 85, cup: 140, serving: 85 }),
+  food("hot-dog", "Beef hot dog", "protein", ["hot dog", "frankfurter", "sausage"],
+    [290, 11.1, 2.9, 26, 0, 1.5, 11, 1.4, 11, 141, 1020, 2.2, 0, 0, 0.4, 1.4, 4],
+    { piece: 45, serving: 45 }),
+  food("turkey-deli", "Turkey deli meat", "protein", ["turkey", "deli turkey", "lunch meat"],
+    [104, 17, 3.5, 2, 0.5, 3, 7, 0.4, 21, 349, 1015, 1.1, 0, 0, 0.1, 0.4, 5],
+    { piece: 28, slice: 28, serving: 56 }),
+  food("salmon", "Salmon, cooked", "protein", ["salmon", "fish"],
+    [206, 22.1, 0, 12.4, 0, 0, 15, 0.34, 30, 384, 61, 0.43, 69, 3.7, 13.1, 2.8, 34],
+    { piece: 140, cup: 140, serving: 85 }),
+  food("tuna-canned", "Tuna, canned light in water", "protein", ["tuna", "canned tuna"],
+    [86, 19.4, 0, 1, 0, 0, 17, 1.67, 35, 237, 247, 0.89, 5, 0, 1.7, 2.55, 4],
+    { can: 142, cup: 154, serving: 85 }),
+  food("peanut-butter", "Peanut butter", "protein", ["peanut butter", "pb"],
+    [588, 25.1, 20, 50.4, 6, 9.2, 43, 1.87, 154, 649, 459, 2.51, 0, 0, 0, 0, 87],
+    { tbsp: 16, tsp: 5.3, serving: 32 }),
+  food("black-beans", "Black beans, cooked", "protein", ["beans", "black beans"],
+    [132, 8.9, 23.7, 0.5, 8.7, 0.3, 27, 2.1, 70, 355, 1, 1.12, 0, 0, 0, 0, 149],
+    { cup: 172, serving: 86 }),
+  food("lentils", "Lentils, cooked", "protein", ["lentils", "dal", "lentil soup"],
+    [116, 9, 20.1, 0.4, 7.9, 1.8, 19, 3.33, 36, 369, 2, 1.27, 0, 1.5, 0, 0, 181],
+    { cup: 198, serving: 99 }),
+  food("tofu", "Tofu, firm", "protein", ["tofu"],
+    [144, 17.3, 2.8, 8.7, 2.3, 0.6, 683, 2.66, 58, 237, 14, 1.57, 0, 0.2, 0, 0, 29],
+    { cup: 252, piece: 81, serving: 85 }),
+  food("hummus", "Hummus", "protein", ["hummus", "houmous"],
+    [166, 7.9, 14.3, 9.6, 6, 0.3, 38, 2.44, 71, 228, 379, 1.83, 1, 0, 0, 0, 83],
+    { tbsp: 15, tsp: 5, cup: 246, serving: 30 }),
+  food("almonds", "Almonds", "protein", ["almonds", "nuts"],
+    [579, 21.2, 21.6, 49.9, 12.5, 4.4, 269, 3.71, 270, 733, 1, 3.12, 0, 0, 0, 0, 44],
+    { piece: 1.2, cup: 143, serving: 28 }),
+
+  // Grains
+  food("rice-white", "White rice, cooked", "grains", ["rice", "white rice"],
+    [130, 2.7, 28.2, 0.3, 0.4, 0.1, 10, 1.2, 12, 35, 1, 0.49, 0, 0, 0, 0, 97],
+    { cup: 158, serving: 158 }),
+  food("rice-brown", "Brown rice, cooked", "grains", ["brown rice"],
+    [123, 2.7, 25.6, 1, 1.6, 0.2, 3, 0.56, 39, 86, 4, 0.71, 0, 0, 0, 0, 4],
+    { cup: 195, serving: 195 }),
+  food("pasta", "Pasta, cooked", "grains", ["pasta", "spaghetti", "noodles", "macaroni"],
+    [158, 5.8, 30.9, 0.9, 1.8, 0.6, 7, 1.28, 18, 44, 1, 0.51, 0, 0, 0, 0, 102],
+    { cup: 140, serving: 140 }),
+  food("mac-and-cheese", "Macaroni and cheese", "grains", ["mac and cheese", "mac n cheese", "macaroni and cheese"],
+    [164, 6.4, 21, 6, 1, 3.5, 95, 0.9, 15, 100, 330, 0.7, 50, 0, 0.1, 0.2, 60],
+    { cup: 200, serving: 200 }),
+  food("bread-white", "White bread", "grains", ["bread", "white bread", "toast"],
+    [266, 8.9, 49.4, 3.3, 2.7, 5.7, 151, 3.6, 23, 100, 490, 0.74, 0, 0, 0, 0, 170],
+    { piece: 25, slice: 25, serving: 50 }),
+  food("bread-whole-wheat", "Whole wheat bread", "grains", ["whole wheat bread", "wholemeal bread", "brown bread"],
+    [252, 12.4, 42.7, 3.5, 6, 4.4, 161, 2.47, 76, 254, 450, 1.8, 0, 0, 0, 0, 42],
+    { piece: 32, slice: 32, serving: 64 }),
+  food("tortilla-flour", "Flour tortilla", "grains", ["tortilla", "wrap"],
+    [304, 8.2, 50, 8, 3.5, 2.3, 132, 3.2, 21, 125, 736, 0.6, 0, 0, 0, 0, 120],
+    { piece: 45, serving: 45 }),
+  food("oatmeal", "Oatmeal, cooked with water", "grains", ["oatmeal", "oats", "porridge"],
+    [71, 2.5, 12, 1.5, 1.7, 0.3, 9, 0.9, 27, 70, 4, 0.98, 0, 0, 0, 0, 6],
+    { cup: 234, serving: 234, packet: 177 }),
+  food("cereal-oat", "Toasted oat cereal (fortified)", "grains", ["cereal", "cheerios", "oat cereal"],
+    [367, 12.1, 73, 6.7, 9.4, 4.4, 464, 29, 128, 640, 497, 5.9, 321, 32, 7, 2.1, 714],
+    { cup: 28, serving: 28 }),
+  food("pancake", "Pancake, plain", "grains", ["pancake", "pancakes", "waffle"],
+    [227, 6.4, 28.3, 9.7, 0.9, 5, 219, 1.8, 16, 132, 439, 0.57, 26, 0.2, 0.2, 0.2, 73],
+    { piece: 38, serving: 114 }),
+  food("crackers", "Crackers", "grains", ["crackers", "saltines", "goldfish"],
+    [418, 9.5, 74, 8.6, 2.8, 1.3, 21, 5.4, 26, 147, 941, 0.78, 0, 0, 0, 0, 179],
+    { piece: 3, cup: 30, serving: 30 }),
+  food("pizza-cheese", "Cheese pizza", "mixed", ["pizza", "cheese pizza"],
+    [266, 11.4, 33.3, 9.7, 2.3, 3.6, 201, 2.45, 24, 172, 598, 1.31, 67, 0.5, 0.2, 0.6, 93],
+    { piece: 107, slice: 107, serving: 107 }),
+  food("granola-bar", "Granola bar", "sweets", ["granola bar", "cereal bar", "snack bar"],
+    [471, 10.1, 64.4, 19.8, 5.3, 29, 60, 2.95, 98, 336, 294, 2.07, 3, 0, 0, 0, 23],
+    { piece: 24, serving: 24 }),
+  food("cookie-chocolate-chip", "Chocolate chip cookie", "sweets", ["cookie", "cookies", "chocolate chip cookie"],
+    [488, 5.4, 64, 24, 2.4, 33, 37, 2.3, 30, 200, 350, 0.6, 0, 0, 0, 0, 70],
+    { piece: 16, serving: 32 }),
+
+  // Vegetables
+  food("broccoli", "Broccoli, cooked", "vegetables", ["broccoli"],
+    [35, 2.4, 7.2, 0.4, 3.3, 1.4, 40, 0.67, 21, 293, 41, 0.45, 77, 64.9, 0, 0, 108],
+    { piece: 11, cup: 156, serving: 78 }),
+  food("carrot", "Carrot, raw", "vegetables", ["carrot", "carrots", "baby carrots"],
+    [41, 0.9, 9.6, 0.2, 2.8, 4.7, 33, 0.3, 12, 320, 69, 0.24, 835, 5.9, 0, 0, 19],
+    { piece: 61, cup: 128, serving: 85 }),
+  food("peas", "Green peas, cooked", "vegetables", ["peas", "green peas"],
+    [78, 5.2, 14.3, 0.3, 4.5, 3.2, 24, 1.52, 22, 110, 72, 0.66, 105, 9.9, 0, 0, 59],
+    { cup: 160, serving: 80 }),
+  food("corn", "Sweet corn, cooked", "vegetables", ["corn", "sweet corn", "corn on the cob"],
+    [96, 3.4, 21, 1.5, 2.4, 4.5, 3, 0.45, 26, 218, 1, 0.62, 9, 5.5, 0, 0, 23],
+    { piece: 103, cup: 149, serving: 75 }),
+  food("green-beans", "Green beans, cooked", "vegetables", ["green beans", "string beans"],
+    [35, 1.9, 7.9, 0.3, 3.2, 1.6, 44, 0.65, 18, 146, 1, 0.25, 35, 9.7, 0, 0, 33],
+    { cup: 125, serving: 63 }),
+  food("spinach", "Spinach, raw", "vegetables", ["spinach"],
+    [23, 2.9, 3.6, 0.4, 2.2, 0.4, 99, 2.71, 79, 558, 79, 0.53, 469, 28.1, 0, 0, 194],
+    { cup: 30, serving: 30 }),
+  food("cucumber", "Cucumber", "vegetables", ["cucumber"],
+    [15, 0.7, 3.6, 0.1, 0.5, 1.7, 16, 0.28, 13, 147, 2, 0.2, 5, 2.8, 0, 0, 7],
+    { piece: 301, cup: 119, serving: 52 }),
+  food("tomato", "Tomato, raw", "vegetables", ["tomato", "tomatoes", "cherry tomatoes"],
+    [18, 0.9, 3.9, 0.2, 1.2, 2.6, 10, 0.27, 11, 237, 5, 0.17, 42, 13.7, 0, 0, 15],
+    { piece: 123, cup: 180, serving: 90 }),
+  food("potato-baked", "Potato, baked with skin", "vegetables", ["potato", "baked potato", "mashed potatoes"],
+    [93, 2.5, 21.2, 0.1, 2.2, 1.2, 15, 1.08, 28, 535, 10, 0.36, 1, 9.6, 0, 0, 28],
+    { piece: 173, cup: 122, serving: 122 }),
+  food("french-fries", "French fries", "vegetables", ["fries", "french fries", "chips"],
+    [312, 3.4, 41.4, 14.7, 3.8, 0.3, 18, 0.81, 35, 579, 210, 0.5, 0, 4.7, 0, 0, 30],
+    { piece: 5, cup: 60, serving: 117 }),
+  food("sweet-potato", "Sweet potato, baked", "vegetables", ["sweet potato", "yam"],
+    [90, 2, 20.7, 0.2, 3.3, 6.5, 38, 0.69, 27, 475, 36, 0.32, 961, 19.6, 0, 0, 6],
+    { piece: 114, cup: 200, serving: 100 }),
+  food("avocado", "Avocado", "vegetables", ["avocado", "guacamole"],
+    [160, 2, 8.5, 14.7, 6.7, 0.7, 12, 0.55, 29, 485, 7, 0.64, 7, 10, 0, 0, 81],
+    { piece: 150, cup: 150, serving: 50 }),
+
+  // Fruit
+  food("apple", "Apple", "fruit", ["apple", "apples", "apple slices"],
+    [52, 0.3, 13.8, 0.2, 2.4, 10.4, 6, 0.12, 5, 107, 1, 0.04, 3, 4.6, 0, 0, 3],
+    { piece: 182, cup: 125, serving: 182 }),
+  food("banana", "Banana", "fruit", ["banana", "bananas"],
+    [89, 1.1, 22.8, 0.3, 2.6, 12.2, 5, 0.26, 27, 358, 1, 0.15, 3, 8.7, 0, 0, 20],
+    { piece: 118, cup: 150, serving: 118 }),
+  food("orange", "Orange", "fruit", ["orange", "oranges", "clementine", "mandarin"],
+    [47, 0.9, 11.8, 0.1, 2.4, 9.4, 40, 0.1, 10, 181, 0, 0.07, 11, 53.2, 0, 0, 30],
+    { piece: 131, cup: 180, serving: 131 }),
+  food("strawberries", "Strawberries", "fruit", ["strawberries", "strawberry"],
+    [32, 0.7, 7.7, 0.3, 2, 4.9, 16, 0.41, 13, 153, 1, 0.14, 1, 58.8, 0, 0, 24],
+    { piece: 12, cup: 152, serving: 76 }),
+  food("blueberries", "Blueberries", "fruit", ["blueberries", "blueberry", "berries"],
+    [57, 0.7, 14.5, 0.3, 2.4, 10, 6, 0.28, 6, 77, 1, 0.16, 3, 9.7, 0, 0, 6],
+    { piece: 1.4, cup: 148, serving: 74 }),
+  food("grapes", "Grapes", "fruit", ["grapes", "grape"],
+    [69, 0.7, 18.1, 0.2, 0.9, 15.5, 10, 0.36, 7, 191, 2, 0.07, 3, 3.2, 0, 0, 2],
+    { piece: 5, cup: 151, serving: 76 }),
+  food("raisins", "Raisins", "fruit", ["raisins"],
+    [299, 3.1, 79.2, 0.5, 3.7, 59.2, 50, 1.88, 32, 749, 11, 0.22, 0, 2.3, 0, 0, 5],
+    { tbsp: 9, cup: 145, packet: 28, serving: 28 }),
+  food("applesauce", "Applesauce, unsweetened", "fruit", ["applesauce", "apple sauce", "fruit pouch"],
+    [42, 0.2, 11.3, 0.1, 1.1, 9.4, 4, 0.23, 3, 74, 2, 0.03, 1, 1, 0, 0, 2],
+    { cup: 244, packet: 90, serving: 122 }),
+
+  // Drinks
+  food("water", "Water", "drinks", ["water", "tap water", "sparkling water"],
+    [0, 0, 0, 0, 0, 0, 3, 0, 1, 0, 4, 0, 0, 0, 0, 0, 0],
+    { cup: 237, glass: 237, bottle: 500, serving: 237 }, 1),
+  food("juice-orange", "Orange juice", "drinks", ["orange juice", "oj"],
+    [45, 0.7, 10.4, 0.2, 0.2, 8.4, 11, 0.2, 11, 200, 1, 0.05, 10, 50, 0, 0, 30],
+    { cup: 248, glass: 248, box: 207, bottle: 248, serving: 124 }, 1.04),
+  food("juice-apple", "Apple juice", "drinks", ["apple juice", "juice", "juice box"],
+    [46, 0.1, 11.3, 0.1, 0.2, 9.6, 8, 0.12, 5, 101, 4, 0.02, 0, 0.9, 0, 0, 0],
+    { cup: 248, glass: 248, box: 207, bottle: 248, serving: 124 }, 1.04),
+  food("soda-cola", "Cola", "drinks", ["soda", "cola", "coke", "soft drink", "pop"],
+    [42, 0, 10.6, 0, 0, 10, 2, 0.1, 1, 2, 4, 0, 0, 0, 0, 0, 0],
+    { can: 370, bottle: 617, cup: 246, glass: 246, serving: 370 }, 1.04),
+];
+
+const FOODS_BY_ID = new Map(FOOD_DATABASE.map(record => [record.id, record]));
+
+export function getFoodById(id: string): FoodRecord | undefined {
+  return FOODS_BY_ID.get(id);
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Score how well a food matches the query for search results: exact name or
+// alias first, then whole-word matches, then partial matches. Too loose for
+// findFood, which needs to know which food was eaten.
+function matchScore(record: FoodRecord, query: string): number {
+  const names = [record.name, ...record.aliases].map(normalizeName);
+  if (names.includes(query)) return 100;
+
+  let best = 0;
+  const queryWords = query.split(" ");
+  for (const name of names) {
+    const nameWords = name.split(" ");
+    if (nameWords.every(word => queryWords.includes(word))) {
+      // "banana slices" contains every word of "banana"; longer names are more specific
+      best = Math.max(best, 50 + nameWords.length);
+    } else if (name.startsWith(query) || name.includes(` ${query}`)) {
+      best = Math.max(best, 30);
+    } else if (queryWords.some(word => word.length > 2 && nameWords.includes(word))) {
+      best = Math.max(best, 10);
+    }
+  }
+  return best;
+}
+
+// Foods matching a free-text query, best matches first
+export function searchFoods(query: string, limit: number = 10): FoodRecord[] {
+  const normalized = normalizeName(query);
+  if (!normalized) return [];
+
+  return FOOD_DATABASE
+    .map(record => ({ record, score: matchScore(record, normalized) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.record.name.localeCompare(b.record.name))
+    .slice(0, limit)
+    .map(({ record }) => record);
+}
+
+// Words that say how a food is served rather than what it is, so "banana
+// slices" or "cooked carrots" still name the plain food
+const SERVING_WORDS = new Set([
+  "slice", "slices", "sliced", "piece", "pieces", "chunk", "chunks", "cut", "chopped", "diced",
+  "cooked", "raw", "fresh", "frozen", "steamed", "boiled", "mashed", "plain", "small", "medium", "large",
+]);
+
+// "carrots" for "carrot", "peaches" for "peach"
+function isSameWord(queryWord: string, nameWord: string): boolean {
+  return queryWord === nameWord || queryWord === `${nameWord}s` || queryWord === `${nameWord}es`;
+}
+
+// The record a name refers to only by its exact name or an alias
+export function findExactFood(name: string): FoodRecord | undefined {
+  const normalized = normalizeName(name);
+  if (!normalized) return undefined;
+  return FOOD_DATABASE.find(record => [record.name, ...record.aliases].map(normalizeName).includes(normalized));
+}
+
+// The single food a logged name refers to, if it is a confident match: its
+// exact name or alias, or that name with only serving words around it.
+// "apple pie" is not an apple and "banana bread" is not white bread, so
+// names with other words in them match nothing.
+export function findFood(name: string): FoodRecord | undefined {
+  const exact = findExactFood(name);
+  if (exact) return exact;
+
+  const queryWords = normalizeName(name).split(" ").filter(Boolean);
+  if (queryWords.length === 0) return undefined;
+
+  let bestRecord: FoodRecord | undefined;
+  let bestLength = 0;
+  for (const record of FOOD_DATABASE) {
+    for (const recordName of [record.name, ...record.aliases].map(normalizeName)) {
+      const nameWords = recordName.split(" ");
+      const matched = queryWords.filter(word => nameWords.some(nameWord => isSameWord(word, nameWord)));
+      const covered = nameWords.every(nameWord => queryWords.some(word => isSameWord(word, nameWord)));
+      const onlyServingWords = queryWords.every(word => matched.includes(word) || SERVING_WORDS.has(word));
+      // Longer names are more specific
+      if (covered && onlyServingWords && nameWords.length > bestLength) {
+        bestRecord = record;
+        bestLength = nameWords.length;
+      }
+    }
+  }
+  return bestRecord;
+}
@@ -0,0 +1,488 @@
+import { z } from "zod";
+import {
+  nutrientSchema,
+  nutritionReportSchema,
+  type FoodItem,
+  type ChildInfo,
+  type NutritionReport,
+} from "./schema";
+import {
+  AGE_BAND_LABELS,
+  getDietaryReferenceIntakes,
+  formatReferenceRange,
+  getFatRangeText,
+} from "./dietary-reference-intakes";
+import { NUTRIENT_INFO, type NutrientKey } from "./nutrient-database";
+import { calculateEnergyRequirement, getWeightInKg, getHeightInCm } from "./energy-requirements";
+import { formatAllergiesForPrompt, findAllergenConflicts, describeConflict } from "./allergens";
+import { getLabeledItems, getItemForChild, isItemForChild } from "./nutrient-calculator";
+import { describeRecipePortion } from "./recipes";
+
+// Prompt building and response handling shared by the browser client and the
+// server-side report proxy, so both ask the model exactly the same question.
+
+// Label values of a labeled food, so recommendations can take them into account
+function formatNutritionFacts(item: FoodItem): string {
+  const facts = item.nutritionFacts;
+  if (!facts) return "";
+  const values = (Object.entries(facts.nutrients) as [NutrientKey, number][])
+    .filter(([key]) => NUTRIENT_INFO[key])
+    .map(([key, value]) => `${NUTRIENT_INFO[key].name} ${value}${NUTRIENT_INFO[key].unit}`)
+    .join(", ");
+  return ` - label per serving of ${facts.servingLabel ?? `${facts.servingSize} ${facts.servingUnit}`}: ${values}`;
+}
+
+export function createAnalysisPrompt(foodItems: FoodItem[], childInfo: ChildInfo, historyItems?: FoodItem[]): string {
+  // Find the selected child from the childInfo
+  const selectedChild = childInfo.children?.find(child => child.id === childInfo.selectedChildId) 
+    || childInfo.children?.[0] 
+    || { 
+      id: "",
+      name: "", 
+      dateOfBirth: null, 
+      gender: "", 
+      weight: null, 
+      height: null,
+      weightUnit: "lb",
+      heightUnit: "in",
+      restrictions: [],
+      allergies: []
+    };
+  
+  // Calculate age from date of birth if available
+  let age: number | null = null;
+  if (selectedChild.dateOfBirth) {
+    const birthDate = new Date(selectedChild.dateOfBirth);
+    const today = new Date();
+    age = today.getFullYear() - birthDate.getFullYear();
+    const m = today.getMonth() - birthDate.getMonth();
+    if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
+      age--;
+    }
+  }
+  
+  // Determine the age group and reference intakes for nutritional guidance
+  const currentDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
+  const referenceIntakes = getDietaryReferenceIntakes(selectedChild, currentDate);
+  const ageGroup = AGE_BAND_LABELS[referenceIntakes.ageBand];
+  const caloriesTarget = calculateEnergyRequirement(selectedChild, currentDate);
+  const referenceText = [
+    `Calories: ${caloriesTarget}kcal (estimated energy requirement)`,
+    `Fat: ${getFatRangeText(referenceIntakes.ageBand, caloriesTarget)}`,
+    ...(Object.entries(referenceIntakes.references) as [NutrientKey, NonNullable<typeof referenceIntakes.references[NutrientKey]>][])
+      .map(([key, reference]) => `${NUTRIENT_INFO[key].name}: ${formatReferenceRange(key, reference)}`),
+  ].join("\n");
+  
+  // Items to use for history analysis
+  const itemsForHistory = historyItems || foodItems;
+  
+  const currentDateObj = new Date(currentDate);
+  
+  // Calculate date 5 days ago for filtering history
+  const fiveDaysAgo = new Date(currentDateObj);
+  fiveDaysAgo.setDate(fiveDaysAgo.getDate() - 5);
+  const fiveDaysAgoStr = fiveDaysAgo.toISOString().split('T')[0];
+  
+  // Filter history items to only include those from the last 5 days and for the selected child
+  const recentHistoryItems = itemsForHistory.filter(item => {
+    const itemDate = item.date || new Date(item.createdAt).toISOString().split('T')[0];
+    const matchesChild = !selectedChild.id || isItemForChild(item, selectedChild.id);
+    // Include if date is between 5 days ago and current date, but not the current date itself
+    // And only include items for the selected child if childId is present
+    return itemDate >= fiveDaysAgoStr && itemDate < currentDate && matchesChild;
+  }).map(item => selectedChild.id ? getItemForChild(item, selectedChild.id) : item);
+  
+  console.log(`Including ${recentHistoryItems.length} items from the previous 5 days in nutrition analysis for child: ${selectedChild.name || 'Unknown'}`);
+  
+  // Group food items by date
+  const foodItemsByDate = recentHistoryItems.reduce((acc: {[key: string]: FoodItem[]}, item) => {
+    const date = item.date || new Date(item.createdAt).toISOString().split('T')[0];
+    if (!acc[date]) {
+      acc[date] = [];
+    }
+    acc[date].push(item);
+    return acc;
+  }, {});
+
+  // Create current day food items list, separating food and supplements
+  const selectedDate = foodItems[0]?.date || new Date().toISOString().split('T')[0];
+  
+  // Shared items count at this child's own portion, less what they left
+  const childFoodItems = selectedChild.id
+    ? foodItems.map(item => getItemForChild(item, selectedChild.id))
+    : foodItems;
+  const itemsWithLeftovers = new Set(
+    foodItems.filter(item => selectedChild.id && item.eaten?.[selectedChild.id]).map(item => item.id)
+  );
+  const leftoverNote = (item: FoodItem) => itemsWithLeftovers.has(item.id) ? " - amount eaten, the rest was left over" : "";
+
+  // Labeled foods are added to the report from their labels afterwards (applyLabelNutrition)
+  const labeledItems = getLabeledItems(childFoodItems);
+  const regularFoodItems = childFoodItems.filter(item => (item.type === 'food' || !item.type) && !item.nutritionFacts);
+  const supplementItems = childFoodItems.filter(item => item.type === 'supplement');
+  
+  const foodItemsList = regularFoodItems.length > 0
+    ? regularFoodItems
+        .map((item) => `${item.quantity} ${item.unit} of ${item.name} (${item.mealType})${leftoverNote(item)}${item.recipe ? ` - ${describeRecipePortion(item)}` : ""}`)
+        .join("\n")
+    : "None besides the labeled foods below";
+
+  const labeledItemsText = labeledItems.length > 0
+    ? `\nFOODS WITH NUTRITION LABELS (the app adds these to the totals itself - leave them out of calories and nutrient amounts, but consider them in recommendations):\n${
+        labeledItems
+          .map((item) => `${item.quantity} ${item.unit} of ${item.name} (${item.mealType})${formatNutritionFacts(item)}`)
+          .join("\n")
+      }\n`
+    : "";
+    
+  const supplementsList = supplementItems.length > 0 
+    ? supplementItems.map((item) => {
+        const dosageInfo = item.supplementInfo?.dosage ? ` - Dosage: ${item.supplementInfo.dosage}` : '';
+        const frequencyInfo = item.supplementInfo?.frequency ? ` - Frequency: ${item.supplementInfo.frequency}` : '';
+        const purposeInfo = item.supplementInfo?.purpose ? ` - Purpose: ${item.supplementInfo.purpose}` : '';
+        return `${item.quantity} ${item.unit} of ${item.name}${dosageInfo}${frequencyInfo}${purposeInfo}`;
+      }).join("\n")
+    : "None recorded";
+
+  // Create historical food data as JSON
+  // Format the history data in a more readable way for the AI
+  const historyJson = Object.keys(foodItemsByDate).length > 0 
+    ? JSON.stringify(foodItemsByDate, null, 2)
+    : "No historical data available from previous 5 days";
+
+  const restrictionsText = selectedChild.restrictions?.length > 0 && !selectedChild.restrictions.includes("none")
+    ? `The child has the following dietary restrictions: ${selectedChild.restrictions.join(", ")}.`
+    : "The child has no specific dietary restrictions.";
+
+  const allergiesText = formatAllergiesForPrompt(selectedChild.allergies);
+  const allergyText = allergiesText
+    ? `Food allergies and intolerances: ${allergiesText}. Never suggest foods that contain these.`
+    : "";
+
+  // Today's foods that clash with them, checked the same way as the food log,
+  // ingredients of homemade dishes included. Foods the check doesn't know are
+  // left to the model.
+  const conflictLines = childFoodItems.flatMap(item =>
+    findAllergenConflicts(item, selectedChild)
+      .filter(conflict => conflict.kind !== "unknown")
+      .map(conflict => `${item.name}: ${describeConflict(conflict, selectedChild.name)}`)
+  );
+  const conflictText = conflictLines.length > 0
+    ? `Foods logged today that may conflict with these (point them out in the recommendations):\n${conflictLines.join("\n")}`
+    : "";
+    
+  // Format weight and height in metric, as the reference values use
+  const weightKg = getWeightInKg(selectedChild);
+  const weightText = weightKg !== null 
+    ? `Weight: ${Math.round(weightKg * 10) / 10} kg`
+    : "Weight: Not provided";
+    
+  const heightCm = getHeightInCm(selectedChild);
+  const heightText = heightCm !== null
+    ? `Height: ${Math.round(heightCm)} cm`
+    : "Height: Not provided";
+  
+  const activityText = selectedChild.activityLevel
+    ? `Activity level: ${selectedChild.activityLevel.replace("-", " ")}`
+    : "";
+
+  // Format age or date of birth for display
+  const ageText = selectedChild.dateOfBirth
+    ? `Date of Birth: ${selectedChild.dateOfBirth} (Age: ${age} years)`
+    : "Age: Not provided";
+
+  const prompt = `
+You are a pediatric nutritionist with expertise in child nutrition. Your task is to analyze the following food intake for a child and provide a comprehensive nutritional analysis.
+
+CHILD INFORMATION:
+${selectedChild.name ? `Name: ${selectedChild.name}` : ""}
+${ageText}
+${selectedChild.gender ? `Gender: ${selectedChild.gender}` : "Gender: Not provided"}
+${weightText}
+${heightText}
+${activityText}
+${restrictionsText}
+${allergyText}
+${conflictText}
+
+CURRENT DAY FOOD INTAKE (${selectedDate}):
+${foodItemsList}
+${labeledItemsText}
+CURRENT SUPPLEMENTS:
+${supplementsList}
+
+HISTORICAL FOOD DATA BY DATE (PREVIOUS 5 DAYS):
+${historyJson}
+
+ANALYSIS INSTRUCTIONS:
+1. IMPORTANT: The nutrition analysis (calories, macros, vitamins, minerals, nutrition score) is ONLY based on the CURRENT DAY's food intake.
+2. Determine the approximate caloric content and macronutrient breakdown (proteins, carbohydrates, fats, fiber) based on standard nutritional databases.
+3. Estimate the vitamin content (focusing on vitamins A, C, D, E, B vitamins).
+4. Estimate the mineral content (focusing on calcium, iron, zinc, potassium, sodium, magnesium).
+5. Compare the intake to these Dietary Reference Intakes for ${ageGroup}, and use them for caloriesTarget, percentOfDaily and recommendedRange:
+${referenceText}
+6. Calculate a "nutrition score" as a percentage representing how well the current day's diet meets the child's nutritional needs.
+7. While the nutrition analysis is for the current day only, use the historical data (previous 5 days) to inform your recommendations and tips.
+8. Thoroughly review the historical data to identify patterns, trends, or recurring nutritional gaps across the 5-day history.
+9. Your recommendations and tips should specifically reference patterns observed in the historical data.
+10. Suggest 4-5 specific foods that would complement the current intake to improve nutritional balance, considering historical preferences.
+11. Provide 2-3 specific supplement recommendations if appropriate based on consistent nutritional gaps observed over time.
+12. Include 2-3 cautions about supplement usage, potential interactions, or considerations.
+
+IMPORTANT: Format your response as a valid JSON object using the schema below. Do not include any explanations, markdown formatting, or text outside the JSON object. The response must be directly parseable as JSON:
+
+{
+  "calories": number,
+  "caloriesTarget": number,
+  "nutritionScore": number,
+  "macronutrients": [
+    {
+      "name": string,
+      "value": string,
+      "unit": string,
+      "percentOfDaily": number,
+      "recommendedRange": string
+    }
+  ],
+  "vitamins": [
+    {
+      "name": string,
+      "value": string,
+      "unit": string, 
+      "percentOfDaily": number,
+      "recommendedRange": string
+    }
+  ],
+  "minerals": [
+    {
+      "name": string,
+      "value": string,
+      "unit": string,
+      "percentOfDaily": number,
+      "recommendedRange": string
+    }
+  ],
+  "recommendations": [
+    string
+  ],
+  "foodSuggestions": [
+    string
+  ],
+  "supplementRecommendations": [
+    string
+  ],
+  "supplementCautions": [
+    string
+  ]
+}
+
+Ensure the percentOfDaily values are between 0 and 100, representing the percentage of the daily recommended intake. The nutritionScore should be a number between 0 and 100.
+`;
+
+  return prompt;
+}
+
+// Pull the JSON payload out of a model response, which may wrap it in
+// markdown code fences despite the prompt instructions
+export function extractJsonText(textResponse: string): string {
+  const jsonRegex = /```(?:json)?\s*([\s\S]*?)```/;
+  const match = textResponse.match(jsonRegex);
+
+  if (match && match[1]) {
+    // If we found JSON in code blocks, use that content
+    return match[1].trim();
+  }
+
+  // Otherwise, try to clean up the text by removing markdown markers
+  return textResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
+}
+
+// The part of a report the model writes; ids, dates, the child, safety alerts and plate waste are added afterwards
+const modelReportSchema = nutritionReportSchema.omit({
+  safetyAlerts: true,
+  plateWaste: true,
+  analysisDate: true,
+  reportDate: true,
+  id: true,
+  user_id: true,
+  childId: true,
+  childName: true,
+});
+
+// OpenAPI-style schema accepted by Gemini's generationConfig.responseSchema
+export interface GeminiResponseSchema {
+  type: "OBJECT" | "ARRAY" | "STRING" | "NUMBER" | "BOOLEAN";
+  properties?: Record<string, GeminiResponseSchema>;
+  required?: string[];
+  items?: GeminiResponseSchema;
+  nullable?: boolean;
+}
+
+// Translate the zod types used by the report schemas into Gemini's schema format
+export function toGeminiSchema(schema: z.ZodTypeAny): GeminiResponseSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return toGeminiSchema(schema instanceof z.ZodOptional ? schema.unwrap() : schema.removeDefault());
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { ...toGeminiSchema(schema.unwrap()), nullable: true };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toGeminiSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const properties: Record<string, GeminiResponseSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = toGeminiSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: "OBJECT", properties, required };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "ARRAY", items: toGeminiSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodNumber) return { type: "NUMBER" };
+  if (schema instanceof z.ZodBoolean) return { type: "BOOLEAN" };
+  if (schema instanceof z.ZodString) return { type: "STRING" };
+
+  throw new Error(`Unsupported schema type for Gemini: ${schema._def.typeName}`);
+}
+
+export const nutritionReportResponseSchema = toGeminiSchema(modelReportSchema);
+
+// Gemini 1.5 and later accept responseSchema; older Gemini and Gemma models reject it
+export function supportsStructuredOutput(model: string): boolean {
+  const match = model.match(/^(?:models\/)?gemini-(\d+)(?:\.(\d+))?/);
+  if (!match) return false;
+
+  const major = Number(match[1]);
+  const minor = Number(match[2] || 0);
+  return major > 1 || (major === 1 && minor >= 5);
+}
+
+// Raised when a model response can't be turned into a valid report.
+// `issues` lists the individual problems so they can be shown to the user
+// and sent back to the model when asking it to correct its answer.
+export class ReportParseError extends Error {
+  constructor(
+    message: string,
+    public kind: "invalid-json" | "invalid-report",
+    public issues: string[] = [],
+    public rawText?: string,
+  ) {
+    super(message);
+    this.name = "ReportParseError";
+  }
+}
+
+// Accept "1,250", "85%" or "12 mg" where the schema expects a number
+function toNumber(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const match = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : value;
+}
+
+const lenientNumber = z.preprocess(toNumber, z.number());
+
+// The prompt asks for 0-100; models sometimes overshoot or go negative
+const lenientPercent = z.preprocess(
+  toNumber,
+  z.number().transform(value => Math.min(100, Math.max(0, Math.round(value)))),
+);
+
+const lenientString = z.preprocess(
+  value => (typeof value === "number" ? String(value) : value),
+  z.string(),
+);
+
+const lenientNutrientSchema = nutrientSchema.extend({
+  value: lenientString,
+  unit: lenientString.default(""),
+  percentOfDaily: lenientPercent,
+  recommendedRange: lenientString.default(""),
+});
+
+// Missing or null lists become empty lists; a lone string becomes a one-item list
+function toList(value: unknown): unknown {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") return [value];
+  return value;
+}
+
+const lenientReportSchema = nutritionReportSchema.extend({
+  calories: lenientNumber,
+  caloriesTarget: lenientNumber,
+  nutritionScore: lenientPercent,
+  macronutrients: z.preprocess(toList, z.array(lenientNutrientSchema)),
+  vitamins: z.preprocess(toList, z.array(lenientNutrientSchema)),
+  minerals: z.preprocess(toList, z.array(lenientNutrientSchema)),
+  recommendations: z.preprocess(toList, z.array(lenientString)),
+  foodSuggestions: z.preprocess(toList, z.array(lenientString)),
+  supplementRecommendations: z.preprocess(toList, z.array(lenientString)),
+  supplementCautions: z.preprocess(toList, z.array(lenientString)),
+});
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
+
+// Parse a raw model response into a report, coercing near-miss values
+// (numeric strings, out-of-range percentages, missing lists) along the way
+export function parseNutritionReport(textResponse: string): NutritionReport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonText(textResponse));
+  } catch (error) {
+    throw new ReportParseError(
+      "The AI response was not valid JSON.",
+      "invalid-json",
+      [error instanceof Error ? error.message : String(error)],
+      textResponse,
+    );
+  }
+
+  const result = lenientReportSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ReportParseError(
+      "The AI response was missing or had invalid report fields.",
+      "invalid-report",
+      formatIssues(result.error),
+      textResponse,
+    );
+  }
+
+  return result.data;
+}
+
+// Follow-up prompt that shows the model what was wrong with its last answer
+export function createRepairPrompt(prompt: string, error: ReportParseError): string {
+  return `${prompt}
+
+Your previous response could not be used because of these problems:
+${error.issues.map(issue => `- ${issue}`).join("\n")}
+
+Previous response:
+${error.rawText ?? ""}
+
+Reply again with only the corrected JSON object in the required format.`;
+}
+
+// Ask the model for a report, re-asking once with the validation problems
+// when the first answer can't be parsed
+export async function requestNutritionReport(
+  ask: (prompt: string) => Promise<string>,
+  prompt: string,
+): Promise<NutritionReport> {
+  const firstResponse = await ask(prompt);
+  try {
+    return parseNutritionReport(firstResponse);
+  } catch (error) {
+    if (!(error instanceof ReportParseError)) throw error;
+
+    console.warn("Invalid report from model, asking it to correct the response:", error.issues);
+    return parseNutritionReport(await ask(createRepairPrompt(prompt, error)));
+  }
+}
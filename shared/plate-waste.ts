@@ -0,0 +1,40 @@
+import type { FoodItem, Child, NutritionReport, PlateWasteEntry } from "./schema";
+import { calculateNutrientTotals, isItemForChild, getChildQuantity, getEatenQuantity } from "./nutrient-calculator";
+
+// Reports count what a child ate rather than what they were served. These
+// helpers keep the served amounts alongside so the report can show both.
+
+function caloriesFor(item: FoodItem, quantity: number): number {
+  const { totals } = calculateNutrientTotals([{ ...item, quantity, childPortions: undefined, eaten: undefined }]);
+  return Math.round(totals.calories);
+}
+
+// Offered vs eaten for a child's items on a date that have leftovers recorded
+export function summarizePlateWaste(items: FoodItem[], childId: string, date: string): PlateWasteEntry[] {
+  return items
+    .filter(item => item.date === date && item.eaten?.[childId] && isItemForChild(item, childId))
+    .map(item => {
+      const offered = getChildQuantity(item, childId);
+      const eaten = getEatenQuantity(item, childId);
+      return {
+        itemId: item.id,
+        name: item.name,
+        unit: item.unit,
+        offered,
+        eaten,
+        offeredCalories: caloriesFor(item, offered),
+        eatenCalories: caloriesFor(item, eaten),
+      };
+    });
+}
+
+// Attach the offered vs eaten amounts for the report's child and date to a report
+export function applyPlateWaste(
+  report: NutritionReport,
+  items: FoodItem[],
+  child: Child | undefined,
+  date: string,
+): NutritionReport {
+  const plateWaste = child ? summarizePlateWaste(items, child.id, date) : [];
+  return { ...report, plateWaste: plateWaste.length > 0 ? plateWaste : undefined };
+}
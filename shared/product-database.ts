@@ -0,0 +1,271 @@
+import type { NutritionFacts } from "./schema";
+import { NUTRIENT_KEYS, type NutrientKey } from "./nutrient-database";
+
+// Packaged foods looked up by barcode. Products come from an Open Food
+// Facts-style dump the user imports: the JSON or JSONL product export, an
+// API response, or the tab-separated CSV export.
+
+export interface ProductRecord {
+  barcode: string; // Normalized with normalizeBarcode
+  name: string;
+  brand?: string;
+  servingSize: number | null; // null when the product only gives values per 100 g
+  servingUnit: "g" | "ml";
+  servingLabel?: string;
+  // Per 100 g or 100 ml, in the units of NUTRIENT_INFO
+  per100: Partial<Record<NutrientKey, number>>;
+}
+
+export interface ProductImport {
+  products: ProductRecord[];
+  // Entries with no valid barcode, name or nutrient values
+  skipped: number;
+}
+
+// Open Food Facts nutriment fields, which are in grams per 100 g apart from energy,
+// and the factor that turns them into our units
+const NUTRIMENT_FIELDS: Record<NutrientKey, { fields: string[]; factor: number }> = {
+  calories: { fields: ["energy-kcal"], factor: 1 },
+  protein: { fields: ["proteins"], factor: 1 },
+  carbohydrates: { fields: ["carbohydrates"], factor: 1 },
+  fat: { fields: ["fat"], factor: 1 },
+  fiber: { fields: ["fiber"], factor: 1 },
+  sugar: { fields: ["sugars"], factor: 1 },
+  calcium: { fields: ["calcium"], factor: 1000 },
+  iron: { fields: ["iron"], factor: 1000 },
+  magnesium: { fields: ["magnesium"], factor: 1000 },
+  potassium: { fields: ["potassium"], factor: 1000 },
+  sodium: { fields: ["sodium"], factor: 1000 },
+  zinc: { fields: ["zinc"], factor: 1000 },
+  vitaminA: { fields: ["vitamin-a"], factor: 1e6 },
+  vitaminC: { fields: ["vitamin-c"], factor: 1000 },
+  vitaminD: { fields: ["vitamin-d"], factor: 1e6 },
+  vitaminB12: { fields: ["vitamin-b12"], factor: 1e6 },
+  folate: { fields: ["folates", "vitamin-b9"], factor: 1e6 },
+};
+
+const KJ_PER_KCAL = 4.184;
+// Salt is 40% sodium by weight
+const SODIUM_PER_GRAM_SALT = 400;
+
+// Digits only, with UPC-A and GTIN-14 codes padded or trimmed to EAN-13,
+// or null if it isn't a valid EAN-8, UPC-A, EAN-13 or GTIN-14
+export function normalizeBarcode(code: string): string | null {
+  let digits = code.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits)) return null;
+
+  if (digits.length === 12) digits = `0${digits}`;
+  if (digits.length === 14 && digits.startsWith("0")) digits = digits.slice(1);
+  if (digits.length !== 8 && digits.length !== 13 && digits.length !== 14) return null;
+
+  return hasValidCheckDigit(digits) ? digits : null;
+}
+
+// GS1 mod-10 check: weights alternate 3 and 1 from the right, excluding the check digit
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return isFinite(value) ? value : undefined;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const parsed = parseFloat(value.replace(",", "."));
+  return isFinite(parsed) ? parsed : undefined;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+// "30 g", "1 bar (40 g)", "250 ml", "1 can (33 cl)"
+function parseServingSize(text: string | undefined): { amount: number; unit: "g" | "ml" } | null {
+  const match = text?.match(/(\d+(?:[.,]\d+)?)\s*(g|gr|grams?|ml|cl|l)\b/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1].replace(",", "."));
+  const unit = match[2].toLowerCase();
+  if (unit === "cl") return { amount: amount * 10, unit: "ml" };
+  if (unit === "l") return { amount: amount * 1000, unit: "ml" };
+  return { amount, unit: unit === "ml" ? "ml" : "g" };
+}
+
+function readNutriments(nutriments: Record<string, unknown>): Partial<Record<NutrientKey, number>> {
+  const per100: Partial<Record<NutrientKey, number>> = {};
+  for (const key of NUTRIENT_KEYS) {
+    const { fields, factor } = NUTRIMENT_FIELDS[key];
+    for (const field of fields) {
+      const value = toNumber(nutriments[`${field}_100g`]);
+      if (value !== undefined) {
+        per100[key] = value * factor;
+        break;
+      }
+    }
+  }
+
+  if (per100.calories === undefined) {
+    const kilojoules = toNumber(nutriments["energy-kj_100g"]) ?? toNumber(nutriments["energy_100g"]);
+    if (kilojoules !== undefined) per100.calories = kilojoules / KJ_PER_KCAL;
+  }
+  if (per100.sodium === undefined) {
+    const salt = toNumber(nutriments["salt_100g"]);
+    if (salt !== undefined) per100.sodium = salt * SODIUM_PER_GRAM_SALT;
+  }
+  return per100;
+}
+
+// One product from the JSON export or API, or a CSV row (whose nutriment
+// columns sit alongside the other fields)
+export function parseProduct(raw: Record<string, unknown>): ProductRecord | null {
+  const source = (raw.product && typeof raw.product === "object" ? raw.product : raw) as Record<string, unknown>;
+  const code = firstString(source.code, raw.code, source._id, source.barcode, source.ean, source.upc);
+  const barcode = code ? normalizeBarcode(code) : null;
+  const name = firstString(source.product_name_en, source.product_name, source.generic_name, source.name);
+  if (!barcode || !name) return null;
+
+  const nutriments = (source.nutriments && typeof source.nutriments === "object" ? source.nutriments : source) as Record<string, unknown>;
+  const per100 = readNutriments(nutriments);
+  if (Object.keys(per100).length === 0) return null;
+
+  const servingLabel = firstString(source.serving_size);
+  const parsedServing = parseServingSize(servingLabel);
+  const servingQuantity = toNumber(source.serving_quantity);
+  const quantityUnit = firstString(source.serving_quantity_unit)?.toLowerCase();
+  const servingUnit = parsedServing?.unit ?? (quantityUnit === "ml" ? "ml" : "g");
+  const servingSize = servingQuantity && servingQuantity > 0 ? servingQuantity : parsedServing?.amount ?? null;
+
+  return {
+    barcode,
+    name,
+    brand: firstString(source.brands)?.split(",")[0].trim(),
+    servingSize,
+    servingUnit,
+    servingLabel,
+    per100,
+  };
+}
+
+// Split one line of a delimited file, honoring double-quoted fields
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function parseDelimited(text: string): Record<string, unknown>[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+  const delimiter = lines[0].includes("\t") ? "\t" : ",";
+  const header = splitDelimitedLine(lines[0], delimiter).map(column => column.trim());
+  return lines.slice(1).map(line => {
+    const fields = splitDelimitedLine(line, delimiter);
+    return Object.fromEntries(header.map((column, i) => [column, fields[i]]));
+  });
+}
+
+function parseJsonEntries(text: string): Record<string, unknown>[] {
+  try {
+    const data = JSON.parse(text);
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(data?.products)) return data.products;
+    return [data];
+  } catch {
+    // JSON Lines: one product per line
+    return text
+      .split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+}
+
+// Read a product dump in any of the supported formats. Later entries for the
+// same barcode replace earlier ones.
+export function parseProductDump(text: string): ProductImport {
+  const trimmed = text.trim();
+  if (!trimmed) return { products: [], skipped: 0 };
+
+  let entries: Record<string, unknown>[];
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      entries = parseJsonEntries(trimmed);
+    } catch {
+      throw new Error("The file looks like JSON but could not be read");
+    }
+  } else {
+    entries = parseDelimited(trimmed);
+  }
+
+  const byBarcode = new Map<string, ProductRecord>();
+  let skipped = 0;
+  for (const entry of entries) {
+    const product = entry && typeof entry === "object" ? parseProduct(entry) : null;
+    if (product) {
+      byBarcode.set(product.barcode, product);
+    } else {
+      skipped++;
+    }
+  }
+  return { products: Array.from(byBarcode.values()), skipped };
+}
+
+// Add imported products to an existing list, replacing ones with the same barcode
+export function mergeProducts(existing: ProductRecord[], imported: ProductRecord[]): ProductRecord[] {
+  const byBarcode = new Map(existing.map(product => [product.barcode, product]));
+  for (const product of imported) byBarcode.set(product.barcode, product);
+  return Array.from(byBarcode.values());
+}
+
+export function findProductByBarcode(products: ProductRecord[], code: string): ProductRecord | undefined {
+  const barcode = normalizeBarcode(code);
+  return barcode ? products.find(product => product.barcode === barcode) : undefined;
+}
+
+export function getProductDisplayName(product: ProductRecord): string {
+  if (!product.brand || product.name.toLowerCase().includes(product.brand.toLowerCase())) return product.name;
+  return `${product.brand} ${product.name}`;
+}
+
+// Label nutrition facts for one serving; products without a serving size use 100 g or 100 ml
+export function toNutritionFacts(product: ProductRecord): NutritionFacts {
+  const servingSize = product.servingSize ?? 100;
+  const nutrients: Record<string, number> = {};
+  for (const [key, value] of Object.entries(product.per100) as [NutrientKey, number][]) {
+    nutrients[key] = Math.round(value * servingSize) / 100;
+  }
+  return {
+    servingSize,
+    servingUnit: product.servingUnit,
+    servingLabel: product.servingLabel ?? `${servingSize} ${product.servingUnit}`,
+    nutrients,
+    source: "barcode",
+  };
+}
@@ -0,0 +1,390 @@
+import { z } from "zod";
+import { findFood } from "./nutrient-database";
+import { extractJsonText, type GeminiResponseSchema } from "./nutrition-analysis";
+
+// Free-text logging such as "2 scrambled eggs and half a cup of milk for
+// breakfast": quantities, units, the meal and the children are picked out of
+// the text and each food becomes an item of its own.
+
+export interface QuickAddOption {
+  value: string;
+  label: string;
+}
+
+// What the text can refer to: the units and meals the entry forms offer and
+// the children in the profile
+export interface QuickAddVocabulary {
+  foodUnits: QuickAddOption[];
+  drinkUnits: QuickAddOption[];
+  mealTypes: QuickAddOption[];
+  children: { id: string; name: string }[];
+}
+
+export interface QuickAddItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  type: "food" | "drink";
+}
+
+export interface QuickAddResult {
+  items: QuickAddItem[];
+  mealType?: string;
+  childIds: string[];
+  // Parts of the text that didn't read as a food
+  unparsed: string[];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  half: 0.5, quarter: 0.25, couple: 2, few: 3, some: 1,
+};
+
+// "a little butter", "a splash of milk": half a portion
+const SMALL_AMOUNTS = /^(?:little|bit|splash|dash|drizzle|pinch|touch|drop|sprinkle)$/;
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 0.5, "¼": 0.25, "¾": 0.75, "⅓": 1 / 3, "⅔": 2 / 3,
+};
+
+// Ways units are written that aren't their value or label
+const UNIT_ALIASES: Record<string, string> = {
+  pc: "piece", pcs: "piece", slice: "piece", slices: "piece",
+  tablespoon: "tbsp", tablespoons: "tbsp", tbs: "tbsp", tbl: "tbsp",
+  teaspoon: "tsp", teaspoons: "tsp",
+  ounce: "oz", ounces: "oz",
+  gram: "g", grams: "g", gr: "g",
+  milliliter: "ml", milliliters: "ml", millilitre: "ml", millilitres: "ml",
+  bowl: "serving", bowls: "serving", portion: "serving", portions: "serving", helping: "serving",
+  glasses: "glass", cups: "cup", cans: "can", bottles: "bottle", servings: "serving", pieces: "piece",
+  box: "serving", boxes: "serving", carton: "serving", cartons: "serving",
+};
+
+// Names that are drinks even when the food database doesn't say so
+const DRINK_WORDS = /\b(milk|juice|water|smoothie|tea|cocoa|hot chocolate|lemonade|soda|shake|kefir|formula)\b/;
+
+// Words left between the parts of a sentence once they are taken out
+const FILLER_WORDS = /^(?:and|with|plus|for|at|as|had|ate|drank|also|then|of|the|some)$/;
+
+// Foods with "and" in their name, kept whole when "and" splits the others
+const COMPOUND_FOODS = [
+  "mac and cheese", "macaroni and cheese", "peanut butter and jelly", "pb and j",
+  "rice and beans", "beans and rice", "franks and beans", "fish and chips",
+  "chips and salsa", "spaghetti and meatballs", "biscuits and gravy", "bread and butter",
+  "ham and cheese", "cookies and cream", "sweet and sour", "salt and vinegar",
+].map(name => name.split(" "));
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "cup(s)" -> ["cup", "cups"]; "glass(es)" -> ["glass", "glasses"]
+function labelForms(label: string): string[] {
+  const match = label.toLowerCase().match(/^(.+?)\((e?s)\)$/);
+  return match ? [match[1], match[1] + match[2]] : [label.toLowerCase()];
+}
+
+function buildUnitLookup(vocabulary: QuickAddVocabulary): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const unit of [...vocabulary.foodUnits, ...vocabulary.drinkUnits]) {
+    lookup.set(unit.value.toLowerCase(), unit.value);
+    for (const form of labelForms(unit.label)) lookup.set(form, unit.value);
+  }
+  for (const [alias, value] of Object.entries(UNIT_ALIASES)) {
+    if (lookup.has(value) && !lookup.has(alias)) lookup.set(alias, value);
+  }
+  return lookup;
+}
+
+// A quantity at the start of a segment: "2", "1.5", "1 1/2", "½", "two", "half a"
+function readQuantity(words: string[]): { quantity: number; used: number } | null {
+  const first = words[0];
+  if (!first) return null;
+
+  let quantity: number | undefined;
+  let used = 1;
+
+  const mixed = first.match(/^(\d+)?([½¼¾⅓⅔])$/);
+  if (/^\d+(\.\d+)?$/.test(first)) {
+    quantity = parseFloat(first);
+    const fraction = words[1]?.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      quantity += Number(fraction[1]) / Number(fraction[2]);
+      used = 2;
+    }
+  } else if (/^\d+\/\d+$/.test(first)) {
+    const [numerator, denominator] = first.split("/").map(Number);
+    quantity = numerator / denominator;
+  } else if (mixed) {
+    quantity = Number(mixed[1] ?? 0) + UNICODE_FRACTIONS[mixed[2]];
+  } else if (first in NUMBER_WORDS) {
+    quantity = NUMBER_WORDS[first];
+    // "half a cup", "a couple of", "a half"
+    if ((first === "half" || first === "quarter") && (words[1] === "a" || words[1] === "an")) used = 2;
+    if ((first === "a" || first === "an") && (words[1] === "couple" || words[1] === "few" || words[1] === "half")) {
+      quantity = NUMBER_WORDS[words[1]];
+      used = 2;
+    }
+    // "a little", "a little bit of", "a bit of"
+    if ((first === "a" || first === "an") && SMALL_AMOUNTS.test(words[1] ?? "")) {
+      quantity = 0.5;
+      used = words[2] === "bit" ? 3 : 2;
+    }
+  }
+
+  if (quantity === undefined || !(quantity > 0)) return null;
+  if (words[used] === "and" && words[used + 1] === "a" && words[used + 2] === "half") {
+    quantity += 0.5;
+    used += 3;
+  }
+  return { quantity, used };
+}
+
+// Judged by what comes before "with", so "cereal with milk" is a food
+function isDrinkName(name: string): boolean {
+  const main = name.toLowerCase().split(/\s+with\s+/)[0];
+  return findFood(main)?.category === "drinks" || DRINK_WORDS.test(main);
+}
+
+// Countable foods the database knows are logged in pieces, anything else,
+// like "mac and cheese", as a serving
+function defaultUnit(name: string, type: QuickAddItem["type"]): string {
+  if (type === "drink") return "serving";
+  return findFood(name)?.portions.piece ? "piece" : "serving";
+}
+
+// Whether the "and" at words[index] is part of a compound food such as "mac and cheese"
+function isInCompoundFood(words: string[], index: number): boolean {
+  return COMPOUND_FOODS.some(compound => {
+    const start = index - compound.indexOf("and");
+    return start >= 0 && compound.every((word, offset) => words[start + offset] === word);
+  });
+}
+
+// Split "apple slices and water" where the words after "and", up to the next
+// one, name a food or drink the app knows
+function splitBeforeKnownFoods(segment: string): string[] {
+  const words = segment.trim().split(/\s+/);
+  const parts: string[][] = [[]];
+  words.forEach((word, index) => {
+    if (word === "and" && index > 0 && !isInCompoundFood(words, index)) {
+      const next = words.slice(index + 1);
+      const nextAnd = next.indexOf("and");
+      const name = (nextAnd >= 0 ? next.slice(0, nextAnd) : next).join(" ");
+      if (name && (findFood(name) || isDrinkName(name))) {
+        parts.push([]);
+        return;
+      }
+    }
+    parts[parts.length - 1].push(word);
+  });
+  return parts.map(part => part.join(" "));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function hasUnit(units: QuickAddOption[], value: string): boolean {
+  return units.some(unit => unit.value === value);
+}
+
+// Segments split off with "with" ("toast with a little butter") are what came
+// with the food, so they are foods unless they name a drink the database knows
+// or are measured like one ("with a glass of milk")
+function parseSegment(
+  segment: string,
+  vocabulary: QuickAddVocabulary,
+  unitLookup: Map<string, string>,
+  accompaniment: boolean,
+): QuickAddItem | null {
+  const words = segment.split(/\s+/).filter(Boolean);
+  const read = readQuantity(words);
+  let rest = read ? words.slice(read.used) : words;
+
+  let unit: string | undefined;
+  if (rest.length > 1 && unitLookup.has(rest[0])) {
+    unit = unitLookup.get(rest[0]);
+    rest = rest.slice(1);
+  }
+  while (rest.length > 0 && /^(of|a|an|the|some)$/.test(rest[0])) rest = rest.slice(1);
+
+  const name = rest.join(" ").trim();
+  if (!name || !/[a-z]/.test(name)) return null;
+
+  const drinkOnly = unit !== undefined && hasUnit(vocabulary.drinkUnits, unit) && !hasUnit(vocabulary.foodUnits, unit);
+  const drink = accompaniment ? findFood(name)?.category === "drinks" : isDrinkName(name);
+  const type = drinkOnly || drink ? "drink" : "food";
+  const units = type === "drink" ? vocabulary.drinkUnits : vocabulary.foodUnits;
+  if (!unit || !hasUnit(units, unit)) unit = defaultUnit(name, type);
+
+  return { name: capitalize(name), quantity: read?.quantity ?? 1, unit, type };
+}
+
+// Parse quick-add text without a model. Anything that isn't understood is
+// returned in unparsed so the caller can fall back to the AI parser.
+export function parseQuickAdd(text: string, vocabulary: QuickAddVocabulary): QuickAddResult {
+  let working = ` ${text.toLowerCase().replace(/[.!?]/g, " ")} `;
+
+  // The meal, longest labels first so "morning snack" wins over "snack"
+  let mealType: string | undefined;
+  const meals = vocabulary.mealTypes
+    .flatMap(meal => [meal.label, meal.value.replace(/_/g, " ")].map(name => ({
+      value: meal.value,
+      name: name.toLowerCase().replace(/\s*\(.*\)$/, ""),
+    })))
+    .sort((a, b) => b.name.length - a.name.length);
+  for (const meal of meals) {
+    const pattern = new RegExp(`\\s(?:(?:for|at|as|during|with)\\s+)?(?:(?:a|an|the|my|our)\\s+)?${escapeRegExp(meal.name)}\\s`);
+    if (pattern.test(working)) {
+      mealType = meal.value;
+      working = working.replace(pattern, " , ");
+      break;
+    }
+  }
+
+  // Children, by name; "both" or "everyone" means all of them
+  const childIds: string[] = [];
+  for (const child of vocabulary.children) {
+    if (!child.name.trim()) continue;
+    const pattern = new RegExp(`\\s(?:for\\s+)?${escapeRegExp(child.name.toLowerCase())}(?:'s)?\\s`, "g");
+    if (pattern.test(working)) {
+      childIds.push(child.id);
+      working = working.replace(pattern, " , ");
+    }
+  }
+  const everyone = /\s(?:for\s+)?(?:both|everyone|all the kids|all kids|the kids)\s/;
+  if (everyone.test(working)) {
+    childIds.splice(0, childIds.length, ...vocabulary.children.map(child => child.id));
+    working = working.replace(everyone, " , ");
+  }
+
+  // Split into foods. "and" and "with" only separate foods when a new
+  // quantity, "some" or "a" follows, and "and" also before a food the app
+  // knows by name, so "mac and cheese", "cereal with milk" and other compound
+  // foods stay whole. "with" is kept on its segment to tell what came with a food.
+  const unitLookup = buildUnitLookup(vocabulary);
+  const quantityStart = `(?:\\d|[½¼¾⅓⅔]|(?:${Object.keys(NUMBER_WORDS).join("|")})\\b)`;
+  const segments = working
+    .split(new RegExp(`[,;+&\\n]|\\s(?:and|plus)\\s+(?=${quantityStart})|\\s(?=with\\s+${quantityStart})`))
+    .flatMap(splitBeforeKnownFoods)
+    .map(segment => segment.trim().split(/\s+/))
+    // Drop connecting words left at either end once meals and names were taken out
+    .map(words => {
+      const accompaniment = words[0] === "with";
+      while (words.length > 0 && FILLER_WORDS.test(words[0])) words.shift();
+      while (words.length > 0 && FILLER_WORDS.test(words[words.length - 1])) words.pop();
+      return { text: words.join(" "), accompaniment };
+    })
+    .filter(segment => segment.text);
+
+  const items: QuickAddItem[] = [];
+  const unparsed: string[] = [];
+  for (const { text, accompaniment } of segments) {
+    const item = parseSegment(text, vocabulary, unitLookup, accompaniment);
+    if (item) items.push(item);
+    else unparsed.push(text);
+  }
+
+  return { items, mealType, childIds, unparsed };
+}
+
+const aiQuickAddItemSchema = z.object({
+  name: z.string().trim().min(1),
+  quantity: z.preprocess(
+    value => (typeof value === "string" ? parseFloat(value) : value),
+    z.number().positive()
+  ).catch(1),
+  unit: z.string().catch(""),
+  type: z.enum(["food", "drink"]).catch("food"),
+});
+
+const aiQuickAddSchema = z.object({
+  items: z.array(z.unknown()),
+  mealType: z.string().nullish().catch(null),
+  children: z.array(z.string()).nullish().catch(null),
+});
+
+// The same shape for Gemini's responseSchema, so the reply is JSON to begin with
+export const quickAddResponseSchema: GeminiResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    items: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          name: { type: "STRING" },
+          quantity: { type: "NUMBER" },
+          unit: { type: "STRING" },
+          type: { type: "STRING" },
+        },
+        required: ["name", "quantity", "unit", "type"],
+      },
+    },
+    mealType: { type: "STRING", nullable: true },
+    children: { type: "ARRAY", items: { type: "STRING" } },
+  },
+  required: ["items", "mealType", "children"],
+};
+
+export function createQuickAddPrompt(text: string, vocabulary: QuickAddVocabulary): string {
+  return `A parent typed this note about what their child ate or drank:
+"${text}"
+
+Split it into separate foods and drinks with a quantity and unit for each.
+
+Units for foods: ${vocabulary.foodUnits.map(unit => unit.value).join(", ")}
+Units for drinks: ${vocabulary.drinkUnits.map(unit => unit.value).join(", ")}
+Meals: ${vocabulary.mealTypes.map(meal => meal.value).join(", ")}
+Children: ${vocabulary.children.map(child => child.name).filter(Boolean).join(", ") || "none named"}
+
+Reply with only a JSON object in this format:
+{
+  "items": [{ "name": "string", "quantity": number, "unit": "one of the units above", "type": "food" or "drink" }],
+  "mealType": "one of the meals above, or null if not mentioned",
+  "children": ["names of the children mentioned, or an empty list"]
+}`;
+}
+
+// Read the model's answer into the same shape as the local parser, keeping
+// only units, meals and children the app knows
+export function parseQuickAddResponse(textResponse: string, vocabulary: QuickAddVocabulary): QuickAddResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonText(textResponse));
+  } catch {
+    throw new Error("The AI response was not valid JSON. Please try again.");
+  }
+
+  const result = aiQuickAddSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error("The AI response didn't list any foods. Please try again.");
+  }
+
+  const unitLookup = buildUnitLookup(vocabulary);
+  const items = result.data.items.flatMap((entry): QuickAddItem[] => {
+    const item = aiQuickAddItemSchema.safeParse(entry);
+    if (!item.success) return [];
+    const { name, quantity, unit, type } = item.data;
+    const units = type === "drink" ? vocabulary.drinkUnits : vocabulary.foodUnits;
+    const known = unitLookup.get(unit.trim().toLowerCase());
+    return [{
+      name: capitalize(name),
+      quantity,
+      unit: known && hasUnit(units, known) ? known : defaultUnit(name, type),
+      type,
+    }];
+  });
+
+  const mentioned = (result.data.children ?? []).map(name => name.trim().toLowerCase());
+  return {
+    items,
+    mealType: vocabulary.mealTypes.find(meal => meal.value === result.data.mealType)?.value,
+    childIds: vocabulary.children
+      .filter(child => child.name && mentioned.includes(child.name.trim().toLowerCase()))
+      .map(child => child.id),
+    unparsed: [],
+  };
+}
@@ -0,0 +1,87 @@
+import type { FoodItem, Recipe, RecipeSnapshot } from "./schema";
+import { getUnitKind, convertToGrams, convertToMilliliters } from "./units";
+
+// Homemade dishes logged as one item and counted as the share of each
+// ingredient that the logged portion stands for.
+
+export function toRecipeSnapshot(recipe: Recipe): RecipeSnapshot {
+  return {
+    id: recipe.id,
+    ingredients: recipe.ingredients.map(ingredient => ({ ...ingredient })),
+    servings: recipe.servings,
+    yieldAmount: recipe.yieldAmount,
+    yieldUnit: recipe.yieldUnit,
+  };
+}
+
+// The fraction of the whole recipe a logged portion is. Portions by weight or
+// volume are measured against the yield when it is known in the same kind of
+// unit; anything else counts in servings.
+export function getRecipePortionShare(item: Pick<FoodItem, "quantity" | "unit" | "type">, recipe: RecipeSnapshot): number {
+  const portionKind = getUnitKind(item.unit, item.type);
+  if (recipe.yieldAmount && recipe.yieldUnit && portionKind === getUnitKind(recipe.yieldUnit)) {
+    const portion = portionKind === "mass"
+      ? convertToGrams(item.quantity, item.unit, undefined, item.type)
+      : convertToMilliliters(item.quantity, item.unit, undefined, item.type);
+    const total = portionKind === "mass"
+      ? convertToGrams(recipe.yieldAmount, recipe.yieldUnit)
+      : convertToMilliliters(recipe.yieldAmount, recipe.yieldUnit);
+    if (portion !== null && total) return portion / total;
+  }
+  return item.quantity / recipe.servings;
+}
+
+// The ingredients in a logged recipe portion, as items of their own that keep
+// the portion's date, meal and children
+export function expandRecipeItem(item: FoodItem): FoodItem[] {
+  if (!item.recipe) return [item];
+  const share = getRecipePortionShare(item, item.recipe);
+
+  return item.recipe.ingredients.map((ingredient, index) => ({
+    ...item,
+    id: `${item.id}-${index}`,
+    name: ingredient.name,
+    quantity: ingredient.quantity * share,
+    unit: ingredient.unit,
+    type: "food",
+    barcode: undefined,
+    nutritionFacts: ingredient.nutritionFacts,
+    recipe: undefined,
+    childPortions: undefined,
+  }));
+}
+
+export function expandRecipeItems(items: FoodItem[]): FoodItem[] {
+  return items.flatMap(expandRecipeItem);
+}
+
+function formatQuantity(quantity: number): string {
+  return String(Math.round(quantity * 100) / 100);
+}
+
+// What a logged recipe portion is made of, for the analysis prompt. Ingredients
+// with label nutrition are left out; they are counted from their labels.
+export function describeRecipePortion(item: FoodItem): string {
+  const ingredients = expandRecipeItem(item).filter(ingredient => !ingredient.nutritionFacts);
+  if (ingredients.length === 0) return "homemade, only from labeled ingredients";
+  return `homemade, this portion contains ${ingredients
+    .map(ingredient => `${formatQuantity(ingredient.quantity)} ${ingredient.unit} ${ingredient.name}`)
+    .join(", ")}`;
+}
+
+export function searchRecipes(recipes: Recipe[], query: string, limit: number = 5): Recipe[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [];
+  return recipes
+    .filter(recipe => recipe.name.toLowerCase().includes(normalized))
+    .sort((a, b) =>
+      Number(b.name.toLowerCase().startsWith(normalized)) - Number(a.name.toLowerCase().startsWith(normalized)) ||
+      a.name.localeCompare(b.name)
+    )
+    .slice(0, limit);
+}
+
+export function findRecipe(recipes: Recipe[], name: string): Recipe | undefined {
+  const normalized = name.trim().toLowerCase();
+  return recipes.find(recipe => recipe.name.toLowerCase() === normalized);
+}
@@ -17,6 +17,57 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Nutrition facts from a product label or packaged-food record, for one serving.
+// Nutrient amounts use the units in NUTRIENT_INFO; nutrients left out are unknown.
+export const nutritionFactsSchema = z.object({
+  servingSize: z.number().positive(), // Amount in one serving, in servingUnit
+  servingUnit: z.enum(["g", "ml"]),
+  servingLabel: z.string().optional(), // As printed, e.g. "1 bar (40 g)"
+  nutrients: z.record(z.string(), z.number()),
+  source: z.enum(["barcode", "custom"]),
+});
+
+export type NutritionFacts = z.infer<typeof nutritionFactsSchema>;
+
+// One ingredient of a homemade recipe, in the units offered for food and drinks
+export const recipeIngredientSchema = z.object({
+  name: z.string().min(1),
+  quantity: z.number().positive(),
+  unit: z.string(),
+  nutritionFacts: nutritionFactsSchema.optional(), // From a custom food with the same name
+});
+
+export type RecipeIngredient = z.infer<typeof recipeIngredientSchema>;
+
+// The recipe a logged item was made from, copied onto the item when it is logged
+export const recipeSnapshotSchema = z.object({
+  id: z.string(),
+  ingredients: z.array(recipeIngredientSchema),
+  servings: z.number().positive(), // How many servings the recipe makes
+  yieldAmount: z.number().positive().optional(), // Total amount the recipe makes, in yieldUnit
+  yieldUnit: z.enum(["g", "ml", "cup"]).optional(),
+});
+
+export type RecipeSnapshot = z.infer<typeof recipeSnapshotSchema>;
+
+// A child's own portion of an item shared by several children: an amount in
+// the item's unit, or a fraction of the shared quantity
+export const childPortionSchema = z.union([
+  z.object({ amount: z.number().nonnegative() }),
+  z.object({ fraction: z.number().nonnegative() }),
+]);
+
+export type ChildPortion = z.infer<typeof childPortionSchema>;
+
+// How much of their portion a child actually ate: a percentage, or the amount
+// left over in the item's unit
+export const eatenAmountSchema = z.union([
+  z.object({ percent: z.number().min(0).max(100) }),
+  z.object({ leftover: z.number().nonnegative() }),
+]);
+
+export type EatenAmount = z.infer<typeof eatenAmountSchema>;
+
 // Food Item Schema
 export const foodItemSchema = z.object({
   id: z.string(),
@@ -31,15 +82,43 @@ export const foodItemSchema = z.object({
     purpose: z.string().optional(),
     warnings: z.string().optional(),
   }).optional(),
+  barcode: z.string().optional(), // UPC/EAN of a packaged product
+  nutritionFacts: nutritionFactsSchema.optional(), // Used instead of database or model estimates
+  recipe: recipeSnapshotSchema.optional(), // Homemade dish, expanded into its ingredients for nutrients
   createdAt: z.number(),
   date: z.string().default(() => new Date().toISOString().split('T')[0]), // Store as YYYY-MM-DD
   childId: z.string().optional(), // Single child ID (backward compatibility)
   childIds: z.array(z.string()).optional(), // Multiple child IDs for group meal association
+  childPortions: z.record(z.string(), childPortionSchema).optional(), // Own portion for a child in childIds, where it differs from quantity
+  eaten: z.record(z.string(), eatenAmountSchema).optional(), // What each child ate, by child id; all of it when not recorded
+  photoId: z.string().optional(), // Meal photo kept in the browser's local storage
   user_id: z.string().optional(), // Added for Supabase integration
 });
 
 export type FoodItem = z.infer<typeof foodItemSchema>;
 
+// A dated weight/height reading, kept so growth can be charted over time
+export const growthMeasurementSchema = z.object({
+  id: z.string().default(() => crypto.randomUUID()),
+  date: z.string(), // Store as YYYY-MM-DD
+  weight: z.number().nullable(),
+  height: z.number().nullable(),
+  weightUnit: z.enum(["lb", "kg"]).default("lb"),
+  heightUnit: z.enum(["in", "cm"]).default("in"),
+});
+
+export type GrowthMeasurement = z.infer<typeof growthMeasurementSchema>;
+
+// A food allergy or intolerance. Top-9 allergens use their id from shared/allergens;
+// custom allergens store the food name as written.
+export const allergySchema = z.object({
+  allergen: z.string(),
+  custom: z.boolean().default(false),
+  severity: z.enum(["intolerance", "mild", "severe"]).default("mild"),
+});
+
+export type Allergy = z.infer<typeof allergySchema>;
+
 // Single Child Information Schema
 export const childSchema = z.object({
   id: z.string().default(() => crypto.randomUUID()),
@@ -51,6 +130,9 @@ export const childSchema = z.object({
   weightUnit: z.enum(["lb", "kg"]).default("lb"),
   heightUnit: z.enum(["in", "cm"]).default("in"),
   restrictions: z.array(z.string()),
+  allergies: z.array(allergySchema).default([]),
+  activityLevel: z.enum(["sedentary", "low-active", "active", "very-active"]).default("low-active"),
+  measurements: z.array(growthMeasurementSchema).default([]), // History of weight and height, oldest first
   isSelected: z.boolean().default(false), // Track which child is currently selected
   createdAt: z.number().default(() => Date.now()),
 });
@@ -70,6 +152,9 @@ export type ChildInfo = z.infer<typeof childInfoSchema>;
 export const appSettingsSchema = z.object({
   apiKey: z.string().optional().default(""),
   selectedModel: z.string().optional().default("gemini-2.5-flash"),
+  aiProvider: z.enum(["gemini", "openai-compatible"]).optional().default("gemini"),
+  aiBaseUrl: z.string().optional().default(""), // Server URL for OpenAI-compatible providers
+  useBrowserApiKey: z.boolean().optional().default(false), // Call Gemini from the browser with apiKey instead of through the server
   encryptedApiKey: z.string().optional(),
   apiKeyTimestamp: z.number().optional(),
   darkMode: z.boolean().optional().default(false),
@@ -89,6 +174,35 @@ export const nutrientSchema = z.object({
 
 export type Nutrient = z.infer<typeof nutrientSchema>;
 
+// A nutrient at or above its Tolerable Upper Intake Level once supplements are counted
+export const safetyAlertSchema = z.object({
+  nutrient: z.string(),
+  name: z.string(),
+  unit: z.string(),
+  total: z.number(),
+  fromFood: z.number(),
+  fromSupplements: z.number(),
+  upperLimit: z.number(),
+  level: z.enum(["over", "near"]),
+  sources: z.array(z.string()), // Names of the supplements that contribute
+  message: z.string(),
+});
+
+export type SafetyAlert = z.infer<typeof safetyAlertSchema>;
+
+// An item with leftovers recorded: what was offered against what was eaten
+export const plateWasteEntrySchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  unit: z.string(),
+  offered: z.number(),
+  eaten: z.number(),
+  offeredCalories: z.number(),
+  eatenCalories: z.number(),
+});
+
+export type PlateWasteEntry = z.infer<typeof plateWasteEntrySchema>;
+
 export const nutritionReportSchema = z.object({
   calories: z.number(),
   caloriesTarget: z.number(),
@@ -100,6 +214,8 @@ export const nutritionReportSchema = z.object({
   foodSuggestions: z.array(z.string()),
   supplementRecommendations: z.array(z.string()).optional().default([]),
   supplementCautions: z.array(z.string()).optional().default([]),
+  safetyAlerts: z.array(safetyAlertSchema).optional(), // Calculated upper-limit checks, not written by the model
+  plateWaste: z.array(plateWasteEntrySchema).optional(), // Offered vs eaten amounts, not written by the model
   analysisDate: z.number().default(() => Date.now()),
   reportDate: z.string().optional(), // The date for which the report was generated (YYYY-MM-DD)
   id: z.string().optional(), // Unique ID for each report
@@ -149,3 +265,37 @@ export const foodPlanSchema = z.object({
 });
 
 export type FoodPlan = z.infer<typeof foodPlanSchema>;
+
+// A food scheduled onto a future date and meal, on its own or as part of a plan.
+// childId and childIds say who it is planned for, like a logged item.
+export const plannedItemSchema = foodItemSchema.extend({
+  planId: z.string().optional(), // The plan it was scheduled from
+  appliedAt: z.number().optional(), // When it was copied into that day's log
+});
+
+export type PlannedItem = z.infer<typeof plannedItemSchema>;
+
+// A homemade dish saved for reuse
+export const recipeSchema = recipeSnapshotSchema.extend({
+  name: z.string().min(1),
+  notes: z.string().optional(),
+  createdAt: z.number(),
+  user_id: z.string().optional(), // Added for Supabase integration
+});
+
+export type Recipe = z.infer<typeof recipeSchema>;
+
+// A food the user entered from its nutrition facts label, reused when logging
+export const customFoodSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  brand: z.string().optional(),
+  servingSize: z.number().positive(), // Amount in one serving, in servingUnit
+  servingUnit: z.enum(["g", "ml"]),
+  servingLabel: z.string().optional(), // As printed, e.g. "2 crackers (30 g)"
+  nutrients: z.record(z.string(), z.number()), // Per serving, in the units of NUTRIENT_INFO
+  createdAt: z.number(),
+  user_id: z.string().optional(), // Added for Supabase integration
+});
+
+export type CustomFood = z.infer<typeof customFoodSchema>;
@@ -0,0 +1,172 @@
+import type { FoodItem, Child, NutritionReport, SafetyAlert } from "./schema";
+import { NUTRIENT_INFO, type NutrientKey } from "./nutrient-database";
+import {
+  AGE_BAND_LABELS,
+  UPPER_LIMIT_SCOPE,
+  getDietaryReferenceIntakes,
+  matchNutrientKey,
+  convertToReferenceUnit,
+} from "./dietary-reference-intakes";
+import { calculateNutrientTotals, getChildItems } from "./nutrient-calculator";
+import { getUnitKind } from "./units";
+
+// Upper-limit checks that add supplement doses to the nutrients from food.
+// Doses are read from the supplement name and dosage text, e.g.
+// "Vitamin D3 400 IU" or "2 gummy (10 mg iron, 5 mg zinc)".
+
+export interface SupplementDose {
+  item: FoodItem;
+  // Daily amounts in the units of the reference tables
+  nutrients: Partial<Record<NutrientKey, number>>;
+  // Nutrients the supplement names but whose amount couldn't be read
+  unknownAmounts: NutrientKey[];
+}
+
+export interface SafetyCheck {
+  alerts: SafetyAlert[];
+  // Supplements with no readable dose, which the check can't account for
+  unparsed: FoodItem[];
+}
+
+// Share of the upper limit at which a supplement-driven total gets a caution
+const NEAR_LIMIT_SHARE = 0.8;
+
+// Sodium's limit is a chronic disease risk reduction intake rather than a
+// toxicity threshold, and is reported with the other nutrients instead
+const EXCLUDED_FROM_CHECK: NutrientKey[] = ["sodium"];
+
+// Each logged supplement is one day's intake at its frequency
+const DOSES_PER_DAY: Record<string, number> = {
+  twice_daily: 2,
+  three_times_daily: 3,
+};
+
+const AMOUNT_PATTERN = /(\d+(?:\.\d+)?)\s*(mcg|µg|ug|mg|g|iu)\b/i;
+
+function formatAmount(value: number): string {
+  return value >= 10 ? String(Math.round(value)) : String(Math.round(value * 10) / 10);
+}
+
+// Split label text into pieces that each name at most one nutrient
+function splitSegments(text: string): string[] {
+  return text
+    .split(/[,;+&()]|\band\b|\bwith\b/i)
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0);
+}
+
+// Read the nutrient amounts for a single unit of a supplement from its name and dosage
+function readLabelAmounts(text: string): { amounts: Partial<Record<NutrientKey, number>>; named: NutrientKey[] } {
+  const amounts: Partial<Record<NutrientKey, number>> = {};
+  const named: NutrientKey[] = [];
+  // Amounts with no nutrient beside them, as in "Vitamin D; 400 IU per drop"
+  const unlabeled: RegExpMatchArray[] = [];
+
+  for (const segment of splitSegments(text)) {
+    const match = segment.match(AMOUNT_PATTERN);
+    const key = matchNutrientKey(segment);
+    if (!key) {
+      if (match) unlabeled.push(match);
+      continue;
+    }
+    if (!named.includes(key)) named.push(key);
+
+    if (!match) continue;
+    const amount = convertToReferenceUnit(parseFloat(match[1]), match[2], key);
+    if (amount !== null) amounts[key] = (amounts[key] ?? 0) + amount;
+  }
+
+  // A single-nutrient supplement can have its strength written separately
+  if (named.length === 1 && amounts[named[0]] === undefined && unlabeled.length === 1) {
+    const amount = convertToReferenceUnit(parseFloat(unlabeled[0][1]), unlabeled[0][2], named[0]);
+    if (amount !== null) amounts[named[0]] = amount;
+  }
+
+  return { amounts, named };
+}
+
+export function parseSupplementDose(item: FoodItem): SupplementDose {
+  const text = [item.name, item.supplementInfo?.dosage].filter(Boolean).join("; ");
+  const { amounts, named } = readLabelAmounts(text);
+  const perDay = DOSES_PER_DAY[item.supplementInfo?.frequency ?? ""] ?? 1;
+  const nutrients: Partial<Record<NutrientKey, number>> = {};
+
+  if (getUnitKind(item.unit) === "mass" && named.length === 1) {
+    // "Iron, 15 mg": the logged quantity is the dose itself
+    const amount = convertToReferenceUnit(item.quantity, item.unit, named[0]);
+    if (amount !== null) nutrients[named[0]] = amount * perDay;
+  } else {
+    // Label amounts are per pill, gummy, drop or ml, unless the dose was logged by weight
+    const units = getUnitKind(item.unit) === "mass" ? 1 : item.quantity;
+    for (const [key, amount] of Object.entries(amounts) as [NutrientKey, number][]) {
+      nutrients[key] = amount * units * perDay;
+    }
+  }
+
+  return { item, nutrients, unknownAmounts: named.filter(key => nutrients[key] === undefined) };
+}
+
+// Compare a day's food and supplement intake for one child with the upper limits for their age
+export function checkUpperLimits(items: FoodItem[], child: Child | undefined, date: string): SafetyCheck {
+  const dayItems = (child ? getChildItems(items, child.id) : items).filter(item => item.date === date);
+  const supplements = dayItems.filter(item => item.type === "supplement");
+  const doses = supplements.map(parseSupplementDose);
+  const { totals: food } = calculateNutrientTotals(dayItems.filter(item => item.type !== "supplement"));
+  const { ageBand, references } = getDietaryReferenceIntakes(child, date);
+
+  const alerts: SafetyAlert[] = [];
+  for (const [key, reference] of Object.entries(references) as [NutrientKey, NonNullable<typeof references[NutrientKey]>][]) {
+    if (reference.upperLimit === undefined || EXCLUDED_FROM_CHECK.includes(key)) continue;
+
+    const contributing = doses.filter(dose => (dose.nutrients[key] ?? 0) > 0);
+    const fromSupplements = contributing.reduce((sum, dose) => sum + dose.nutrients[key]!, 0);
+    // Scoped limits (supplemental magnesium, preformed vitamin A, folic acid)
+    // leave out the food database values, which don't separate those forms
+    const fromFood = UPPER_LIMIT_SCOPE[key] ? 0 : food[key];
+    const total = fromFood + fromSupplements;
+
+    const level = total > reference.upperLimit ? "over"
+      : fromSupplements > 0 && total >= reference.upperLimit * NEAR_LIMIT_SHARE ? "near"
+      : null;
+    if (!level) continue;
+
+    const { name, unit } = NUTRIENT_INFO[key];
+    const scope = UPPER_LIMIT_SCOPE[key] ? ` (the limit covers ${UPPER_LIMIT_SCOPE[key]} only)` : "";
+    const breakdown = fromFood > 0
+      ? `${formatAmount(fromSupplements)}${unit} from supplements, ${formatAmount(fromFood)}${unit} from food`
+      : `${formatAmount(fromSupplements)}${unit} from supplements`;
+
+    alerts.push({
+      nutrient: key,
+      name,
+      unit,
+      total,
+      fromFood,
+      fromSupplements,
+      upperLimit: reference.upperLimit,
+      level,
+      sources: contributing.map(dose => dose.item.name),
+      message: `${name}: ${formatAmount(total)}${unit} is ${level === "over" ? "above" : "close to"} the upper limit of ` +
+        `${formatAmount(reference.upperLimit)}${unit} a day for ${AGE_BAND_LABELS[ageBand]}${scope} - ${breakdown}.`,
+    });
+  }
+
+  // Most serious first
+  alerts.sort((a, b) => b.total / b.upperLimit - a.total / a.upperLimit);
+
+  const unparsed = doses
+    .filter(dose => Object.keys(dose.nutrients).length === 0)
+    .map(dose => dose.item);
+
+  return { alerts, unparsed };
+}
+
+// Attach upper-limit alerts for the report's child and date to a report
+export function applySupplementSafetyCheck(
+  report: NutritionReport,
+  items: FoodItem[],
+  child: Child | undefined,
+  date: string,
+): NutritionReport {
+  return { ...report, safetyAlerts: checkUpperLimits(items, child, date).alerts };
+}
@@ -0,0 +1,410 @@
+import { z } from "zod";
+import { foodPlanSchema, type Child, type FoodItem, type FoodPlan, type NutritionReport } from "./schema";
+import { FOOD_DATABASE, NUTRIENT_INFO, findFood, type FoodRecord, type NutrientKey } from "./nutrient-database";
+import { getDietaryReferenceIntakes, matchNutrientKey, type DietaryReferenceProfile } from "./dietary-reference-intakes";
+import { findAllergenConflicts, formatAllergiesForPrompt } from "./allergens";
+import { isItemForChild } from "./nutrient-calculator";
+import { extractJsonText, toGeminiSchema, ReportParseError } from "./nutrition-analysis";
+
+// A day of foods aimed at the nutrients the latest report found low, with the
+// family's usual foods preferred and the child's allergies and restrictions
+// left out. The AI model writes the plan; when it can't be reached, one is
+// picked from the food database instead.
+
+export interface PlannedNutrient {
+  key: NutrientKey;
+  name: string;
+  percentOfDaily: number;
+}
+
+export interface TomorrowPlan {
+  plan: FoodPlan;
+  targets: PlannedNutrient[];
+  // Why each item was picked, by item id
+  reasons: Record<string, string>;
+  source: "ai" | "database";
+}
+
+// Below this share of the daily target a nutrient is worth planning for
+const LOW_PERCENT = 75;
+const MAX_TARGETS = 4;
+const MAX_ITEMS = 6;
+const MAX_ITEMS_PER_MEAL = 2;
+
+// Nutrients there is no point eating more of
+const NOT_TARGETED: NutrientKey[] = ["calories", "fat", "sugar", "sodium"];
+
+// Categories that aren't planned for: treats, drinks besides milk, infant foods
+const PLANNED_CATEGORIES = ["dairy", "protein", "grains", "vegetables", "fruit", "mixed"];
+const NOT_PLANNED_IDS = ["milk-chocolate", "chicken-nuggets", "hot-dog", "french-fries", "pizza-cheese"];
+
+// Choking hazards for children under 4 when served whole or raw
+const CHOKING_RISK_IDS = ["almonds", "grapes", "carrot", "hot-dog", "raisins"];
+
+// Meals each kind of food fits, in order of preference
+const MEALS_BY_CATEGORY: Record<string, string[]> = {
+  fruit: ["breakfast", "afternoon_snack", "lunch"],
+  dairy: ["breakfast", "afternoon_snack", "dinner"],
+  grains: ["breakfast", "lunch", "dinner"],
+  protein: ["lunch", "dinner", "breakfast"],
+  vegetables: ["dinner", "lunch", "afternoon_snack"],
+  mixed: ["lunch", "dinner"],
+};
+
+// Household units plans are written in, most natural first
+const PLAN_UNITS = ["piece", "serving", "cup", "tbsp"];
+const DRINK_PLAN_UNITS = ["cup", "serving"];
+
+interface Portion {
+  quantity: number;
+  unit: string;
+  grams: number;
+}
+
+function choosePortion(record: FoodRecord, isYoung: boolean): Portion | null {
+  const units = record.density !== undefined ? DRINK_PLAN_UNITS : PLAN_UNITS;
+  const unit = units.find(candidate => record.portions[candidate] !== undefined);
+  if (!unit) return null;
+  // Half cups for young children
+  const quantity = unit === "cup" && isYoung ? 0.5 : 1;
+  return { quantity, unit, grams: record.portions[unit] * quantity };
+}
+
+// Nutrients the report found low, lowest first
+function findLowNutrients(report: NutritionReport): PlannedNutrient[] {
+  const low: PlannedNutrient[] = [];
+  for (const nutrient of [...report.macronutrients, ...report.vitamins, ...report.minerals]) {
+    const key = matchNutrientKey(nutrient.name);
+    if (!key || NOT_TARGETED.includes(key) || low.some(entry => entry.key === key)) continue;
+    if (nutrient.percentOfDaily < LOW_PERCENT) {
+      low.push({ key, name: NUTRIENT_INFO[key].name, percentOfDaily: nutrient.percentOfDaily });
+    }
+  }
+  return low.sort((a, b) => a.percentOfDaily - b.percentOfDaily).slice(0, MAX_TARGETS);
+}
+
+// The database foods a name is made of. findFood only matches whole names,
+// so "Greek yogurt with berries" is looked up part by part, while "apple pie"
+// is none of apple's.
+function findFoodIds(name: string): string[] {
+  const whole = findFood(name);
+  if (whole) return [whole.id];
+  return name
+    .split(/\s*(?:,|\bwith\b|\band\b|\bor\b|\bplus\b)\s*/i)
+    .flatMap(part => {
+      const record = part ? findFood(part) : undefined;
+      return record ? [record.id] : [];
+    });
+}
+
+// How often each database food shows up in the family's log
+function countFamiliarFoods(history: FoodItem[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const recordIds = new Map<string, string[]>();
+  for (const item of history) {
+    const name = item.name.trim().toLowerCase();
+    if (!recordIds.has(name)) recordIds.set(name, findFoodIds(name));
+    for (const id of Array.from(new Set(recordIds.get(name)))) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// The nutrients to plan for, or null when there is nothing to plan: nothing
+// was low, or the child is an infant, who eats differently enough that a
+// generated plan would not help
+function getPlanTargets(
+  report: NutritionReport,
+  child: Child | undefined,
+  date: string
+): { targets: PlannedNutrient[]; profile: DietaryReferenceProfile } | null {
+  const targets = findLowNutrients(report);
+  if (targets.length === 0) return null;
+
+  const profile = getDietaryReferenceIntakes(child, date);
+  if (profile.ageBand === "0-6m" || profile.ageBand === "7-12m") return null;
+  return { targets, profile };
+}
+
+// "iron" but "vitamin D"
+function describeTargets(targets: PlannedNutrient[]): string[] {
+  return targets.map(target => target.name.replace(/^\w+/, word => word.toLowerCase()));
+}
+
+function createPlan(
+  items: FoodItem[],
+  targets: PlannedNutrient[],
+  report: NutritionReport,
+  child: Child | undefined,
+  date: string,
+  description?: string
+): FoodPlan {
+  const targetNames = describeTargets(targets);
+  const forWhom = child?.name ? ` for ${child.name}` : "";
+  return {
+    id: crypto.randomUUID(),
+    name: `${date}${forWhom}: more ${targetNames.slice(0, 2).join(" and ")}`,
+    description: description || `Aimed at ${targetNames.join(", ")}, which were low in the report${report.reportDate ? ` for ${report.reportDate}` : ""}.`,
+    items,
+    isDefault: false,
+    createdAt: Date.now(),
+    childId: child?.id ?? null,
+  };
+}
+
+// The offline fallback: a greedy pick from the food database of the portions
+// that fill the most of what is missing
+export function planTomorrowFromDatabase(
+  report: NutritionReport,
+  child: Child | undefined,
+  history: FoodItem[],
+  date: string
+): TomorrowPlan | null {
+  const planTargets = getPlanTargets(report, child, date);
+  if (!planTargets) return null;
+  const { targets, profile } = planTargets;
+  const isYoung = profile.ageBand === "1-3";
+
+  // What is still missing of each target, in its own unit
+  const remaining = new Map<NutrientKey, number>();
+  for (const target of targets) {
+    const reference = profile.references[target.key]?.target;
+    if (reference) remaining.set(target.key, reference * Math.max(0, 100 - target.percentOfDaily) / 100);
+  }
+
+  const familiar = countFamiliarFoods(history);
+  const suggested = new Set(report.foodSuggestions.flatMap(findFoodIds));
+
+  const candidates = FOOD_DATABASE.flatMap(record => {
+    if (!PLANNED_CATEGORIES.includes(record.category) || NOT_PLANNED_IDS.includes(record.id)) return [];
+    if (isYoung && CHOKING_RISK_IDS.includes(record.id)) return [];
+    if (child && findAllergenConflicts({ name: record.name }, child).some(conflict => conflict.kind !== "unknown")) return [];
+    const portion = choosePortion(record, isYoung);
+    return portion ? [{ record, portion }] : [];
+  });
+
+  const chosen: { record: FoodRecord; portion: Portion; mealType: string; covers: NutrientKey[] }[] = [];
+  const mealCounts: Record<string, number> = {};
+
+  while (chosen.length < MAX_ITEMS) {
+    let best: { record: FoodRecord; portion: Portion; mealType: string; covers: NutrientKey[]; score: number } | null = null;
+
+    for (const { record, portion } of candidates) {
+      if (chosen.some(entry => entry.record.id === record.id)) continue;
+      const mealType = (MEALS_BY_CATEGORY[record.category] ?? ["lunch"]).find(meal => (mealCounts[meal] ?? 0) < MAX_ITEMS_PER_MEAL);
+      if (!mealType) continue;
+
+      // Share of each remaining gap the portion would fill
+      let score = 0;
+      const covers: NutrientKey[] = [];
+      remaining.forEach((gap, key) => {
+        if (gap <= 0) return;
+        const amount = record.per100g[key] * portion.grams / 100;
+        const share = Math.min(amount, gap) / gap;
+        if (share >= 0.1) covers.push(key);
+        score += share;
+      });
+      // Foods the family already eats, or the report named, are more likely to be eaten
+      score *= 1 + 0.25 * Math.min(4, familiar.get(record.id) ?? 0);
+      if (suggested.has(record.id)) score *= 1.5;
+
+      if (covers.length > 0 && (!best || score > best.score)) {
+        best = { record, portion, mealType, covers, score };
+      }
+    }
+
+    if (!best) break;
+    chosen.push(best);
+    mealCounts[best.mealType] = (mealCounts[best.mealType] ?? 0) + 1;
+    for (const key of best.covers) {
+      const amount = best.record.per100g[key] * best.portion.grams / 100;
+      remaining.set(key, Math.max(0, (remaining.get(key) ?? 0) - amount));
+    }
+  }
+
+  if (chosen.length === 0) return null;
+
+  const now = Date.now();
+  const reasons: Record<string, string> = {};
+  const items: FoodItem[] = chosen.map(({ record, portion, mealType, covers }) => {
+    const id = crypto.randomUUID();
+    reasons[id] = covers.map(key => NUTRIENT_INFO[key].name).join(", ");
+    return {
+      id,
+      name: record.name,
+      quantity: portion.quantity,
+      unit: portion.unit,
+      mealType,
+      type: record.density !== undefined ? "drink" : "food",
+      createdAt: now,
+      date,
+      childId: child?.id,
+    };
+  });
+
+  return { plan: createPlan(items, targets, report, child, date), targets, reasons, source: "database" };
+}
+
+// Meals and units the model may use, all of them ones the entry forms offer
+const PLAN_MEALS = ["breakfast", "morning_snack", "lunch", "afternoon_snack", "dinner"];
+const AI_FOOD_UNITS = ["piece", "serving", "cup", "tbsp", "tsp", "oz", "g"];
+const AI_DRINK_UNITS = ["cup", "glass", "ml", "oz", "serving"];
+const HISTORY_DAYS = 7;
+
+// The part of a plan the model writes
+const modelTomorrowPlanSchema = z.object({
+  description: z.string(),
+  items: z.array(z.object({
+    name: z.string().trim().min(1),
+    quantity: z.number().positive(),
+    unit: z.string(),
+    mealType: z.string(),
+    type: z.string(),
+    reason: z.string(),
+  })).min(1),
+});
+
+export const tomorrowPlanResponseSchema = toGeminiSchema(modelTomorrowPlanSchema);
+
+function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split("T")[0];
+}
+
+// The child's log for the week before the planned day, which is all the
+// prompt looks at
+export function selectPlanHistory(history: FoodItem[], child: Child | undefined, date: string): FoodItem[] {
+  const from = addDays(date, -HISTORY_DAYS);
+  return history.filter(item =>
+    item.date >= from && item.date < date && (!child || isItemForChild(item, child.id))
+  );
+}
+
+export function createTomorrowPlanPrompt(
+  report: NutritionReport,
+  child: Child | undefined,
+  history: FoodItem[],
+  date: string,
+  targets: PlannedNutrient[],
+  isYoung: boolean
+): string {
+  const lowText = targets.map(target => `${target.name}: ${Math.round(target.percentOfDaily)}% of the daily target`).join("\n");
+
+  const counts = new Map<string, number>();
+  for (const item of selectPlanHistory(history, child, date)) {
+    const name = item.name.trim().toLowerCase();
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  const historyText = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 30)
+    .map(([name, count]) => `${name} (${count}x)`)
+    .join(", ") || "Nothing logged";
+
+  const restrictions = (child?.restrictions ?? []).filter(restriction => restriction !== "none");
+  const allergies = formatAllergiesForPrompt(child?.allergies);
+
+  return `You are a pediatric nutritionist planning tomorrow's meals (${date}) for a child${child?.name ? ` called ${child.name}` : ""}.
+
+NUTRIENTS THAT WERE LOW IN THE REPORT${report.reportDate ? ` FOR ${report.reportDate}` : ""}:
+${lowText}
+
+DIETARY RESTRICTIONS: ${restrictions.join(", ") || "None"}
+ALLERGIES AND INTOLERANCES: ${allergies || "None"}
+FOODS THE CHILD ATE IN THE LAST ${HISTORY_DAYS} DAYS: ${historyText}
+
+Suggest 4 to 6 everyday foods and drinks for tomorrow that make up for the low nutrients.
+- Never include anything that conflicts with the restrictions or allergies, including as an ingredient.
+- Prefer foods the child already eats, and vary them from what was eaten most.
+- Use child-sized portions${isYoung ? ", and nothing that is a choking risk for a child under 4 (whole nuts, whole grapes, raw carrot, popcorn, hot dogs)" : ""}.
+- Meals: ${PLAN_MEALS.join(", ")}. At most 2 items per meal.
+- Units for foods: ${AI_FOOD_UNITS.join(", ")}. Units for drinks: ${AI_DRINK_UNITS.join(", ")}.
+
+Reply with only a JSON object in this format:
+{
+  "description": "one sentence on what the plan is aimed at",
+  "items": [{ "name": "string", "quantity": number, "unit": "one of the units above", "mealType": "one of the meals above", "type": "food" or "drink", "reason": "the low nutrients it helps with" }]
+}`;
+}
+
+// Turn the model's answer into a plan, keeping only meals and units the app
+// knows and dropping anything the allergy check flags for this child
+export function parseTomorrowPlanResponse(
+  textResponse: string,
+  report: NutritionReport,
+  child: Child | undefined,
+  date: string,
+  targets: PlannedNutrient[]
+): TomorrowPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonText(textResponse));
+  } catch {
+    throw new ReportParseError("The AI response was not valid JSON. Please try again.", "invalid-json", [], textResponse);
+  }
+
+  const result = modelTomorrowPlanSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ReportParseError(
+      "The AI response wasn't a usable plan. Please try again.",
+      "invalid-report",
+      result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`),
+      textResponse
+    );
+  }
+
+  const now = Date.now();
+  const reasons: Record<string, string> = {};
+  const items = result.data.items.flatMap((entry): FoodItem[] => {
+    const type = entry.type.toLowerCase() === "drink" ? "drink" : "food";
+    const units = type === "drink" ? AI_DRINK_UNITS : AI_FOOD_UNITS;
+    const item: FoodItem = {
+      id: crypto.randomUUID(),
+      name: entry.name,
+      quantity: entry.quantity,
+      unit: units.includes(entry.unit) ? entry.unit : "serving",
+      mealType: PLAN_MEALS.includes(entry.mealType) ? entry.mealType : "lunch",
+      type,
+      createdAt: now,
+      date,
+      childId: child?.id,
+    };
+    // The model was told the restrictions, so a food the check doesn't know is kept
+    if (child && findAllergenConflicts(item, child).some(conflict => conflict.kind !== "unknown")) return [];
+    reasons[item.id] = entry.reason;
+    return [item];
+  });
+
+  if (items.length === 0) {
+    throw new ReportParseError("The AI plan only had foods this child should avoid. Please try again.", "invalid-report");
+  }
+
+  const plan = foodPlanSchema.safeParse(createPlan(items, targets, report, child, date, result.data.description));
+  if (!plan.success) {
+    throw new ReportParseError(
+      "The AI response wasn't a usable plan. Please try again.",
+      "invalid-report",
+      plan.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`),
+      textResponse
+    );
+  }
+
+  return { plan: plan.data, targets, reasons, source: "ai" };
+}
+
+// Ask the model for tomorrow's plan. Resolves to null when there is nothing to
+// plan for, and throws when the model can't be reached or its plan is unusable.
+export async function requestTomorrowPlan(
+  ask: (prompt: string) => Promise<string>,
+  report: NutritionReport,
+  child: Child | undefined,
+  history: FoodItem[],
+  date: string
+): Promise<TomorrowPlan | null> {
+  const planTargets = getPlanTargets(report, child, date);
+  if (!planTargets) return null;
+
+  const { targets, profile } = planTargets;
+  const prompt = createTomorrowPlanPrompt(report, child, history, date, targets, profile.ageBand === "1-3");
+  return parseTomorrowPlanResponse(await ask(prompt), report, child, date, targets);
+}
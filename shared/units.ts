@@ -0,0 +1,140 @@
+import type { FoodItem } from "./schema";
+
+// Conversion between the household units offered in FOOD_UNITS, DRINK_UNITS
+// and SUPPLEMENT_UNITS and grams / milliliters.
+
+export type UnitKind = "mass" | "volume" | "count";
+
+interface UnitDefinition {
+  kind: UnitKind;
+  // Grams for mass units, milliliters for volume units; unused for counts
+  base: number;
+}
+
+export const ML_PER_CUP = 236.6;
+export const ML_PER_FLUID_OUNCE = 29.57;
+export const GRAMS_PER_OUNCE = 28.35;
+
+// Container sizes are the common US sizes: an 8 fl oz glass and a 12 fl oz
+// can. A bottle is an 8 fl oz baby or toddler bottle unless the drink's own
+// portions say otherwise, as water's half-liter bottle does.
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  g: { kind: "mass", base: 1 },
+  mg: { kind: "mass", base: 0.001 },
+  mcg: { kind: "mass", base: 0.000001 },
+  oz: { kind: "mass", base: GRAMS_PER_OUNCE },
+  ml: { kind: "volume", base: 1 },
+  tsp: { kind: "volume", base: 4.93 },
+  tbsp: { kind: "volume", base: 14.79 },
+  cup: { kind: "volume", base: ML_PER_CUP },
+  glass: { kind: "volume", base: 8 * ML_PER_FLUID_OUNCE },
+  can: { kind: "volume", base: 12 * ML_PER_FLUID_OUNCE },
+  bottle: { kind: "volume", base: 8 * ML_PER_FLUID_OUNCE },
+  drop: { kind: "volume", base: 0.05 },
+  piece: { kind: "count", base: 0 },
+  serving: { kind: "count", base: 0 },
+  pill: { kind: "count", base: 0 },
+  capsule: { kind: "count", base: 0 },
+  tablet: { kind: "count", base: 0 },
+  gummy: { kind: "count", base: 0 },
+  packet: { kind: "count", base: 0 },
+};
+
+// Ounces of a drink are fluid ounces
+const DRINK_UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  oz: { kind: "volume", base: ML_PER_FLUID_OUNCE },
+};
+
+// A typical drink serving when nothing more specific is known
+const DEFAULT_DRINK_SERVING_ML = ML_PER_CUP;
+
+// What we know about a particular food: its density and the weight of its
+// household portions. FoodRecord from the nutrient database satisfies this.
+export interface UnitContext {
+  density?: number; // g per ml
+  portions?: Record<string, number>; // g per unit
+}
+
+type ItemType = FoodItem["type"];
+
+function getUnitDefinition(unit: string, type?: ItemType): UnitDefinition | undefined {
+  const normalized = unit.trim().toLowerCase();
+  return (type === "drink" && DRINK_UNIT_DEFINITIONS[normalized]) || UNIT_DEFINITIONS[normalized];
+}
+
+export function getUnitKind(unit: string, type?: ItemType): UnitKind | undefined {
+  return getUnitDefinition(unit, type)?.kind;
+}
+
+// Density in g/ml: the food's own, one implied by its cup weight, or water's for drinks
+function getDensity(food: UnitContext | undefined, type?: ItemType): number | undefined {
+  if (food?.density) return food.density;
+  if (food?.portions?.cup) return food.portions.cup / ML_PER_CUP;
+  return type === "drink" ? 1 : undefined;
+}
+
+// Weight in grams of a logged quantity, or null if it can't be worked out
+export function convertToGrams(quantity: number, unit: string, food?: UnitContext, type?: ItemType): number | null {
+  const portion = food?.portions?.[unit];
+  if (portion !== undefined) return quantity * portion;
+
+  const definition = getUnitDefinition(unit, type);
+  if (!definition) return null;
+
+  if (definition.kind === "mass") return quantity * definition.base;
+
+  if (definition.kind === "volume") {
+    const density = getDensity(food, type);
+    return density !== undefined ? quantity * definition.base * density : null;
+  }
+
+  return null;
+}
+
+// Volume in milliliters of a logged quantity, or null if it can't be worked out
+export function convertToMilliliters(quantity: number, unit: string, food?: UnitContext, type?: ItemType): number | null {
+  const definition = getUnitDefinition(unit, type);
+  if (definition?.kind === "volume" && food?.portions?.[unit] === undefined) {
+    return quantity * definition.base;
+  }
+
+  const grams = convertToGrams(quantity, unit, food, type);
+  const density = getDensity(food, type);
+  if (grams !== null && density !== undefined) {
+    return grams / density;
+  }
+
+  if (type === "drink" && unit === "serving") {
+    return quantity * DEFAULT_DRINK_SERVING_ML;
+  }
+  return null;
+}
+
+export interface FluidTotal {
+  milliliters: number;
+  // Drinks logged in a unit that has no volume, such as "piece"
+  unconverted: FoodItem[];
+}
+
+// Total volume of the drinks in a list of items. Pass a lookup to use
+// per-drink densities and container sizes where they are known.
+export function calculateFluidTotal(
+  items: FoodItem[],
+  lookup?: (item: FoodItem) => UnitContext | undefined,
+): FluidTotal {
+  let milliliters = 0;
+  const unconverted: FoodItem[] = [];
+
+  for (const item of items) {
+    if (item.type !== "drink") continue;
+
+    const volume = convertToMilliliters(item.quantity, item.unit, lookup?.(item), item.type);
+    if (volume === null) {
+      unconverted.push(item);
+    } else {
+      milliliters += volume;
+    }
+  }
+
+  return { milliliters, unconverted };
+}
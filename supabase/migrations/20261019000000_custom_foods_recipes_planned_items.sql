@@ -0,0 +1,54 @@
+-- Tables the browser's Supabase storage reads and writes for custom foods,
+-- recipes and the meal planner. The client sends objects as they are in
+-- shared/schema.ts, so columns use the same camelCase names.
+
+create table if not exists custom_foods (
+  "id" text primary key,
+  "name" text not null,
+  "brand" text,
+  "servingSize" real not null,
+  "servingUnit" text not null,
+  "servingLabel" text,
+  "nutrients" jsonb not null,
+  "createdAt" bigint not null,
+  "user_id" text not null
+);
+
+create table if not exists recipes (
+  "id" text primary key,
+  "name" text not null,
+  "notes" text,
+  "ingredients" jsonb not null,
+  "servings" real not null,
+  "yieldAmount" real,
+  "yieldUnit" text,
+  "createdAt" bigint not null,
+  "user_id" text not null
+);
+
+create table if not exists planned_items (
+  "id" text primary key,
+  "name" text not null,
+  "quantity" real not null,
+  "unit" text not null,
+  "mealType" text not null,
+  "type" text not null default 'food',
+  "supplementInfo" jsonb,
+  "barcode" text,
+  "nutritionFacts" jsonb,
+  "recipe" jsonb,
+  "createdAt" bigint not null,
+  "date" text not null,
+  "childId" text,
+  "childIds" jsonb,
+  "childPortions" jsonb,
+  "eaten" jsonb,
+  "photoId" text,
+  "planId" text,
+  "appliedAt" bigint,
+  "user_id" text not null
+);
+
+create index if not exists custom_foods_user_id_idx on custom_foods ("user_id");
+create index if not exists recipes_user_id_idx on recipes ("user_id");
+create index if not exists planned_items_user_id_idx on planned_items ("user_id");